@@ -1,12 +1,21 @@
 import React, { useState } from 'react';
-import { AppStep, PatientProfile, OntologyMapping, CohortConfig, GlobalConfig, Study, Experiment, PublishConfig } from './types';
+import { AppStep, PatientProfile, OntologyMapping, CohortConfig, GlobalConfig, Study, Experiment, PublishConfig, ModelRunSummary, ScoringProgress, TuningTrial, BootstrapConfig, AnalystChatMessage } from './types';
 import { FileUpload } from './components/FileUpload';
 import { QueryBuilder } from './components/QueryBuilder';
 import { CohortConfigurator } from './components/CohortConfigurator';
 import { AnalysisDashboard } from './components/AnalysisDashboard';
 import { AdminPanel } from './components/AdminPanel';
 import { StudyDashboard } from './components/StudyDashboard';
-import { classifyPatientRisk } from './services/geminiService';
+import { AnalystConversationDialog } from './components/AnalystConversationDialog';
+import { runRiskModel } from './services/modelPipeline';
+import { rederivePatientProfiles } from './services/claimsIngestion';
+import { DEFAULT_LINE_OF_THERAPY_RULES } from './services/lineOfTherapy';
+import { DEFAULT_INFERENCE_CONFIG, setInferenceConfig } from './services/inferenceProvider';
+import { labelTransitionOutcomes } from './services/outcomeLabeling';
+import { buildCohort } from './services/cohortBuilder';
+import { DEFAULT_DECISION_THRESHOLD, applyRiskCategories, computeBootstrapIntervals, computeConfusion, computePrCurve, computeRocCurve, getTestOutcomes, prAuc, rocAuc, selectTargetList } from './services/metrics';
+import { toHcpExportRow, toTargetExportRow } from './services/targetExport';
+import { summarizeHcps } from './services/hcpTargeting';
 import { Activity, FileText, LayoutDashboard, BrainCircuit, Settings, Shield, ChevronLeft } from 'lucide-react';
 
 const App: React.FC = () => {
@@ -16,6 +25,10 @@ const App: React.FC = () => {
   const [patients, setPatients] = useState<PatientProfile[]>([]);
   const [ontology, setOntology] = useState<OntologyMapping | null>(null);
   const [cohortConfig, setCohortConfig] = useState<CohortConfig | null>(null);
+  const [modelSummary, setModelSummary] = useState<ModelRunSummary | null>(null);
+  const [scoringProgress, setScoringProgress] = useState<ScoringProgress | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<AnalystChatMessage[]>([]);
   
   // Global Data State
   const [studies, setStudies] = useState<Study[]>([
@@ -29,6 +42,8 @@ const App: React.FC = () => {
       }
   ]);
   const [currentStudyId, setCurrentStudyId] = useState<string | null>(null);
+  const [currentExperimentId, setCurrentExperimentId] = useState<string | null>(null); // Last save of the current run
+  const [viewedExperiment, setViewedExperiment] = useState<Experiment | null>(null);
   
   // Admin Defaults
   const [globalConfig, setGlobalConfig] = useState<GlobalConfig>({
@@ -37,17 +52,35 @@ const App: React.FC = () => {
       diagnosis: ['diagnosis', 'dx', 'icd', 'diag', 'condition', 'problem'],
       prescription: ['drug', 'rx', 'ndc', 'medication', 'product', 'pharmacy'],
       procedure: ['cpt', 'hcpcs', 'procedure', 'proc', 'px', 'service', 'code'],
-      date: ['date', 'dos', 'time', 'day', 'dt', 'service', 'admit']
+      date: ['date', 'dos', 'time', 'day', 'dt', 'service', 'admit'],
+      age: ['age', 'yob', 'birthyear', 'dob', 'birthdate'],
+      gender: ['gender', 'sex'],
+      npi: ['npi', 'prescribernpi', 'providernpi'],
+      prescriber: ['prescriber', 'provider', 'physician', 'doctor', 'hcp'],
+      specialty: ['specialty', 'speciality', 'taxonomy']
     },
     diseasePresets: [
       { diseaseName: 'Breast Cancer', defaultLookbackMonths: 12, defaultPredictionWindowMonths: 6, defaultMinClaims: 2 },
       { diseaseName: 'Diabetes', defaultLookbackMonths: 24, defaultPredictionWindowMonths: 12, defaultMinClaims: 4 },
       { diseaseName: 'Lung Cancer', defaultLookbackMonths: 6, defaultPredictionWindowMonths: 3, defaultMinClaims: 1 }
-    ]
+    ],
+    lineOfTherapyRules: { ...DEFAULT_LINE_OF_THERAPY_RULES },
+    inference: { ...DEFAULT_INFERENCE_CONFIG }
   });
 
+  const currentExperiment = studies.flatMap(s => s.experiments).find(e => e.id === currentExperimentId);
+
   // --- Handlers ---
 
+  const handleSaveGlobalConfig = (newConfig: GlobalConfig) => {
+      setGlobalConfig(newConfig);
+      setInferenceConfig(newConfig.inference);
+      // Keep therapy lines in sync with edited rules, unless the cohort has already been scored
+      if (patients.length > 0 && !patients.some(p => p.riskScore !== undefined)) {
+          setPatients(rederivePatientProfiles(patients, ontology?.drugs || [], newConfig.lineOfTherapyRules));
+      }
+  };
+
   const handleCreateStudy = (newStudy: Study) => {
       setStudies([...studies, newStudy]);
       setCurrentStudyId(newStudy.id);
@@ -59,6 +92,9 @@ const App: React.FC = () => {
       setPatients([]);
       setOntology(null);
       setCohortConfig(null);
+      setModelSummary(null);
+      setConversation([]);
+      setCurrentExperimentId(null);
       setCurrentStep(AppStep.UPLOAD);
   };
 
@@ -67,7 +103,12 @@ const App: React.FC = () => {
      const study = studies.find(s => s.id === studyId);
      const exp = study?.experiments.find(e => e.id === experimentId);
      
-     if (exp) {
+     if (exp?.id === currentExperimentId && patients.some(p => p.riskScore !== undefined)) {
+         // The current run is still in memory, so reopen its results (and conversation) directly
+         setCurrentStep(AppStep.RESULTS);
+     } else if (exp?.conversation?.length) {
+         setViewedExperiment(exp);
+     } else if (exp) {
          // Load experiment data into state (In a real app, this would fetch data based on reference)
          // For now, we only have data if we just ran it, or we rely on the mocked metric view in dashboard.
          // This assumes 'patients' state is not persisted in the 'Experiment' object for this demo to save memory,
@@ -84,25 +125,39 @@ const App: React.FC = () => {
 
   const handleOntologyReady = (mapping: OntologyMapping) => {
     setOntology(mapping);
+    // Lines of therapy are only meaningful for the study drugs, so re-derive them now
+    setPatients(prev => rederivePatientProfiles(prev, mapping.drugs, globalConfig.lineOfTherapyRules));
     setCurrentStep(AppStep.CONFIGURE);
   };
 
   const handleConfigReady = async (config: CohortConfig) => {
     if (!ontology) return;
     setCohortConfig(config);
+    setConversation([]);
+    setCurrentExperimentId(null);
+    setScoringProgress(null);
+    setAnalysisError(null);
     setCurrentStep(AppStep.ANALYSIS);
     
     try {
-      const scoredPatients = await classifyPatientRisk(patients, ontology, config);
-      setPatients(scoredPatients);
+      // Apply the cohort definition, then label ground truth from the claims:
+      // did the next line start inside the prediction window?
+      const cohort = buildCohort(patients, ontology, config);
+      const labeledPatients = labelTransitionOutcomes(cohort.included, ontology, config);
+      const result = await runRiskModel(labeledPatients, ontology, config, setScoringProgress);
+      setPatients(result.patients);
+      setModelSummary(result.summary);
       setCurrentStep(AppStep.RESULTS);
     } catch (error) {
       console.error("Classification failed", error);
+      setAnalysisError(error instanceof Error ? error.message : String(error));
     }
   };
   
-  const handleSaveExperiment = (name: string, tags: string[]) => {
+  const handleSaveExperiment = (name: string, tags: string[], threshold: number, bootstrap: BootstrapConfig) => {
       if (!currentStudyId || !cohortConfig || !ontology) return;
+      const testOutcomes = getTestOutcomes(patients);
+      const confusion = computeConfusion(testOutcomes, threshold);
       
       const newExperiment: Experiment = {
           id: `exp-${Date.now()}`,
@@ -112,14 +167,58 @@ const App: React.FC = () => {
           status: 'COMPLETED',
           ontology: ontology,
           config: cohortConfig,
+          threshold,
           patientCount: patients.length,
           metrics: {
-              // Calculate simple metrics from the current patients state
-              accuracy: 0.85, // Mocked for simplicity or calculate from `patients` test set
-              precision: 0.82,
-              recall: 0.78,
-              highRiskCount: patients.filter(p => p.riskCategory === 'High').length
+              // Computed on the TEST split at the chosen decision threshold
+              accuracy: confusion.accuracy,
+              precision: confusion.precision,
+              recall: confusion.recall,
+              f1: confusion.f1,
+              rocAuc: rocAuc(computeRocCurve(testOutcomes)),
+              prAuc: prAuc(computePrCurve(testOutcomes)),
+              highRiskCount: selectTargetList(patients, threshold).length,
+              intervals: computeBootstrapIntervals(patients, threshold, bootstrap),
+              bootstrap
+          },
+          conversation
+      };
+      setCurrentExperimentId(newExperiment.id);
+
+      setStudies(prevStudies => prevStudies.map(s => {
+          if (s.id === currentStudyId) {
+              return { ...s, experiments: [newExperiment, ...s.experiments] };
           }
+          return s;
+      }));
+  };
+
+  // Once the run is saved, the conversation keeps syncing into that experiment
+  const handleConversationChange = (next: AnalystChatMessage[]) => {
+      setConversation(next);
+      if (!currentExperimentId) return;
+      setStudies(prevStudies => prevStudies.map(s => ({
+          ...s,
+          experiments: s.experiments.map(e => e.id === currentExperimentId ? { ...e, conversation: next } : e)
+      })));
+  };
+
+  // A tuning trial is saved with its cross-validated means, not a TEST split
+  const handlePromoteTrial = (trial: TuningTrial, config: CohortConfig) => {
+      if (!currentStudyId || !ontology) return;
+      const { maxDepth, learningRate, nEstimators } = trial.boostingParams;
+
+      const newExperiment: Experiment = {
+          id: `exp-${Date.now()}`,
+          name: `Tuned XGBoost #${trial.id} (depth ${maxDepth}, lr ${learningRate}, ${nEstimators} trees)`,
+          timestamp: new Date().toISOString(),
+          tags: ['Tuned', `${config.split.folds}-fold CV`],
+          status: 'COMPLETED',
+          ontology: ontology,
+          config,
+          threshold: DEFAULT_DECISION_THRESHOLD,
+          patientCount: trial.patientCount,
+          metrics: trial.metrics
       };
 
       setStudies(prevStudies => prevStudies.map(s => {
@@ -132,8 +231,17 @@ const App: React.FC = () => {
 
   const handlePublish = (config: PublishConfig) => {
       // In a real app, trigger backend job
-      console.log("Publishing to:", config);
-      alert(`Successfully published target list to ${config.destination} (${config.path})`);
+      if (config.level === 'HCP') {
+          const hcps = summarizeHcps(patients, config.threshold, config.hcpTiering)
+              .filter(h => config.hcpTiers?.includes(h.tier));
+          console.log("Publishing to:", config, hcps.map(toHcpExportRow));
+          alert(`Successfully published ${hcps.length} target HCPs (tier ${config.hcpTiers?.join(', ')}) to ${config.destination} (${config.path})`);
+      } else {
+          // Categories follow the published threshold, so every target goes out as "High"
+          const targets = selectTargetList(applyRiskCategories(patients, config.threshold), config.threshold);
+          console.log("Publishing to:", config, targets.map(toTargetExportRow));
+          alert(`Successfully published ${targets.length} target patients (score ≥ ${config.threshold.toFixed(2)}) to ${config.destination} (${config.path})`);
+      }
       
       // Update experiment status if saved
       setStudies(prevStudies => prevStudies.map(s => {
@@ -235,7 +343,7 @@ const App: React.FC = () => {
           {currentStep === AppStep.ADMIN && (
              <AdminPanel 
                config={globalConfig} 
-               onSave={(newConfig) => setGlobalConfig(newConfig)}
+               onSave={handleSaveGlobalConfig}
                onClose={() => setCurrentStep(AppStep.STUDY_DASHBOARD)}
              />
           )}
@@ -250,6 +358,9 @@ const App: React.FC = () => {
                 onViewExperiment={handleViewExperiment}
              />
           )}
+          {viewedExperiment && (
+             <AnalystConversationDialog experiment={viewedExperiment} onClose={() => setViewedExperiment(null)} />
+          )}
 
           {/* Flow Steps */}
           {currentStep === AppStep.UPLOAD && (
@@ -290,13 +401,27 @@ const App: React.FC = () => {
               <CohortConfigurator 
                 ontology={ontology} 
                 onConfigReady={handleConfigReady} 
+                onPromoteTrial={handlePromoteTrial}
                 patients={patients}
                 diseasePresets={globalConfig.diseasePresets} 
               />
              </div>
           )}
 
-          {currentStep === AppStep.ANALYSIS && (
+          {currentStep === AppStep.ANALYSIS && analysisError && (
+            <div className="max-w-xl mx-auto mt-12 p-6 bg-red-50 border border-red-200 rounded-xl text-center animate-in fade-in duration-500">
+               <h2 className="text-lg font-semibold text-red-800">Classification Failed</h2>
+               <p className="mt-2 text-sm text-red-700">{analysisError}</p>
+               <button
+                 onClick={() => setCurrentStep(AppStep.CONFIGURE)}
+                 className="mt-4 px-4 py-2 bg-white border border-red-200 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100"
+               >
+                 Back to Cohort Definition
+               </button>
+            </div>
+          )}
+
+          {currentStep === AppStep.ANALYSIS && !analysisError && (
             <div className="flex flex-col items-center justify-center py-20 animate-in fade-in duration-500">
                <div className="relative">
                  <div className="w-16 h-16 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
@@ -306,6 +431,20 @@ const App: React.FC = () => {
                </div>
                <h2 className="mt-6 text-xl font-semibold text-slate-800">Processing Cohort</h2>
                <p className="mt-2 text-slate-500">Running binary classification models on {patients.length} patient profiles...</p>
+               {scoringProgress && scoringProgress.totalChunks > 0 && (
+                 <div className="mt-6 w-full max-w-md">
+                   <div className="flex justify-between text-xs text-slate-500 mb-1">
+                     <span>Chunks {scoringProgress.completedChunks} / {scoringProgress.totalChunks}</span>
+                     <span>{scoringProgress.scoredPatients} / {scoringProgress.totalPatients} patients scored</span>
+                   </div>
+                   <div className="w-full bg-slate-200 h-2 rounded-full overflow-hidden">
+                     <div
+                       className="h-full bg-blue-600 rounded-full transition-all duration-300"
+                       style={{ width: `${(scoringProgress.completedChunks / scoringProgress.totalChunks) * 100}%` }}
+                     />
+                   </div>
+                 </div>
+               )}
             </div>
           )}
 
@@ -322,6 +461,13 @@ const App: React.FC = () => {
               <AnalysisDashboard 
                 patients={patients} 
                 ontology={ontology} 
+                modelSummary={modelSummary || undefined}
+                lookbackMonths={cohortConfig?.lookbackMonths}
+                experimentName={currentExperiment?.name}
+                isChampion={currentExperiment?.tags.includes('Champion')}
+                initialThreshold={currentExperiment?.threshold}
+                conversation={conversation}
+                onConversationChange={handleConversationChange}
                 onSaveExperiment={handleSaveExperiment}
                 onPublish={handlePublish}
               />
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { Save, Plus, Trash2, Shield, Settings, Database, FileText } from 'lucide-react';
-import { GlobalConfig, DiseasePreset, ColumnKeywords } from '../types';
+import { Save, Plus, Trash2, Shield, Settings, Database, FileText, GitBranch, Cpu } from 'lucide-react';
+import { GlobalConfig, DiseasePreset, ColumnKeywords, LineOfTherapyRules, InferenceConfig, InferenceProviderId } from '../types';
 
 interface AdminPanelProps {
   config: GlobalConfig;
@@ -10,15 +10,19 @@ interface AdminPanelProps {
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onClose }) => {
   const [localConfig, setLocalConfig] = useState<GlobalConfig>(JSON.parse(JSON.stringify(config)));
-  const [activeTab, setActiveTab] = useState<'COLUMNS' | 'PRESETS'>('COLUMNS');
+  const [activeTab, setActiveTab] = useState<'COLUMNS' | 'PRESETS' | 'LINES' | 'INFERENCE'>('COLUMNS');
   const [newPreset, setNewPreset] = useState<Partial<DiseasePreset>>({
     defaultLookbackMonths: 12,
     defaultPredictionWindowMonths: 6,
     defaultMinClaims: 2
   });
 
+  const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+  const lotRules = localConfig.lineOfTherapyRules;
+  const inference = localConfig.inference;
+
   const handleKeywordChange = (category: keyof ColumnKeywords, value: string) => {
-    const keywords = value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+    const keywords = splitList(value);
     setLocalConfig(prev => ({
       ...prev,
       columnKeywords: {
@@ -28,6 +32,26 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onClose
     }));
   };
 
+  const handleRuleChange = (patch: Partial<LineOfTherapyRules>) => {
+    setLocalConfig(prev => ({
+      ...prev,
+      lineOfTherapyRules: { ...prev.lineOfTherapyRules, ...patch }
+    }));
+  };
+
+  const handleInferenceChange = (patch: Partial<InferenceConfig>) => {
+    setLocalConfig(prev => ({
+      ...prev,
+      inference: { ...prev.inference, ...patch }
+    }));
+  };
+
+  const providerOptions: { id: InferenceProviderId; label: string; description: string }[] = [
+    { id: 'GEMINI', label: 'Google Gemini', description: 'Hosted Gemini models. Needs GEMINI_API_KEY in .env.local.' },
+    { id: 'OPENAI_COMPATIBLE', label: 'OpenAI-Compatible Endpoint', description: 'Any /chat/completions server, e.g. a locally hosted model via Ollama or vLLM.' },
+    { id: 'MOCK', label: 'Offline Mock', description: 'Deterministic fixture answers. No network, for demos and testing.' },
+  ];
+
   const handleAddPreset = () => {
     if (!newPreset.diseaseName) return;
     setLocalConfig(prev => ({
@@ -105,10 +129,32 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onClose
             <Settings className="w-4 h-4" />
             Disease Presets
           </button>
+          <button
+            onClick={() => setActiveTab('LINES')}
+            className={`flex-1 py-4 text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+              activeTab === 'LINES' 
+                ? 'bg-purple-50 text-purple-700 border-b-2 border-purple-600' 
+                : 'text-slate-500 hover:bg-slate-50'
+            }`}
+          >
+            <GitBranch className="w-4 h-4" />
+            Line of Therapy Rules
+          </button>
+          <button
+            onClick={() => setActiveTab('INFERENCE')}
+            className={`flex-1 py-4 text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+              activeTab === 'INFERENCE' 
+                ? 'bg-purple-50 text-purple-700 border-b-2 border-purple-600' 
+                : 'text-slate-500 hover:bg-slate-50'
+            }`}
+          >
+            <Cpu className="w-4 h-4" />
+            Inference Provider
+          </button>
         </div>
 
         <div className="p-8">
-          {activeTab === 'COLUMNS' ? (
+          {activeTab === 'COLUMNS' && (
             <div className="space-y-6">
               <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 flex items-start gap-3">
                 <FileText className="w-5 h-5 text-blue-600 mt-0.5" />
@@ -172,8 +218,38 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onClose
                   />
                 </div>
               </div>
+
+              <div className="pt-2">
+                <h3 className="text-sm font-semibold text-slate-800">Optional Demographic & Provider Columns</h3>
+                <p className="text-xs text-slate-500 mt-1">
+                  When present, these columns populate patient age/gender and the treating prescriber instead of leaving them unknown.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {([
+                  { key: 'age', label: 'Age / Birth Year Keywords', placeholder: 'age, yob, dob...' },
+                  { key: 'gender', label: 'Gender Keywords', placeholder: 'gender, sex...' },
+                  { key: 'npi', label: 'Prescriber NPI Keywords', placeholder: 'npi, prescriber_npi...' },
+                  { key: 'prescriber', label: 'Prescriber Name Keywords', placeholder: 'prescriber, provider...' },
+                  { key: 'specialty', label: 'Prescriber Specialty Keywords', placeholder: 'specialty, taxonomy...' },
+                ] as { key: keyof ColumnKeywords; label: string; placeholder: string }[]).map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <label className="text-sm font-medium text-slate-700">{field.label}</label>
+                    <textarea
+                      rows={2}
+                      className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+                      value={localConfig.columnKeywords[field.key].join(', ')}
+                      onChange={(e) => handleKeywordChange(field.key, e.target.value)}
+                      placeholder={field.placeholder}
+                    />
+                  </div>
+                ))}
+              </div>
             </div>
-          ) : (
+          )}
+
+          {activeTab === 'PRESETS' && (
             <div className="space-y-6">
               <div className="bg-purple-50 p-4 rounded-lg border border-purple-100 mb-6">
                 <h3 className="text-sm font-semibold text-purple-800">Disease-Specific Cohort Defaults</h3>
@@ -270,6 +346,162 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onClose
               </div>
             </div>
           )}
+
+          {activeTab === 'LINES' && (
+            <div className="space-y-6">
+              <div className="bg-purple-50 p-4 rounded-lg border border-purple-100">
+                <h3 className="text-sm font-semibold text-purple-800">Line of Therapy Algorithm</h3>
+                <p className="text-xs text-purple-600 mt-1">
+                  Rules used to derive regimens, line numbers and time on line from Rx and drug-administration Px claims for the study drugs.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-700">Regimen Window (Days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-full p-2 border border-slate-300 rounded text-sm"
+                    value={lotRules.regimenWindowDays}
+                    onChange={(e) => handleRuleChange({ regimenWindowDays: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-slate-500">Drugs first claimed within this many days of the line start form one regimen.</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-700">Discontinuation Gap (Days)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-full p-2 border border-slate-300 rounded text-sm"
+                    value={lotRules.discontinuationGapDays}
+                    onChange={(e) => handleRuleChange({ discontinuationGapDays: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-slate-500">A longer gap without any regimen claim ends the line.</p>
+                </div>
+                <label className="flex items-start gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 accent-purple-600"
+                    checked={lotRules.addOnDoesNotAdvance}
+                    onChange={(e) => handleRuleChange({ addOnDoesNotAdvance: e.target.checked })}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-700">Add-on does not advance line</span>
+                    <span className="block text-xs text-slate-500">A new drug added while the current regimen keeps being claimed joins the current line.</span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 accent-purple-600"
+                    checked={lotRules.restartAfterGapAdvancesLine}
+                    onChange={(e) => handleRuleChange({ restartAfterGapAdvancesLine: e.target.checked })}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-700">Restart after gap advances line</span>
+                    <span className="block text-xs text-slate-500">When off, re-starting the same regimen after a gap is treated as a treatment holiday.</span>
+                  </span>
+                </label>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-700">Add-on Only Agents</label>
+                  <textarea
+                    rows={2}
+                    className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+                    value={lotRules.addOnOnlyAgents.join(', ')}
+                    onChange={(e) => handleRuleChange({ addOnOnlyAgents: splitList(e.target.value) })}
+                    placeholder="Denosumab, Zoledronic Acid..."
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-700">Drug Administration Px Codes</label>
+                  <textarea
+                    rows={2}
+                    className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+                    value={lotRules.therapyProcedureCodes.join(', ')}
+                    onChange={(e) => handleRuleChange({ therapyProcedureCodes: splitList(e.target.value) })}
+                    placeholder="J9%, 964%..."
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'INFERENCE' && (
+            <div className="space-y-6">
+              <div className="bg-purple-50 p-4 rounded-lg border border-purple-100">
+                <h3 className="text-sm font-semibold text-purple-800">LLM Inference Backend</h3>
+                <p className="text-xs text-purple-600 mt-1">
+                  Used for research intent parsing, LLM Reasoning scoring and questions about the results.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {providerOptions.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => handleInferenceChange({ provider: option.id })}
+                    className={`p-4 rounded-lg border text-left transition-all ${
+                      inference.provider === option.id
+                        ? 'border-purple-500 bg-purple-50 text-purple-700 ring-1 ring-purple-500'
+                        : 'border-slate-200 hover:border-slate-300'
+                    }`}
+                  >
+                    <div className="font-semibold text-sm">{option.label}</div>
+                    <div className="text-xs opacity-70 mt-1">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+
+              {inference.provider === 'GEMINI' && (
+                <div className="space-y-2 max-w-md">
+                  <label className="text-sm font-medium text-slate-700">Gemini Model</label>
+                  <input
+                    type="text"
+                    className="w-full p-2 border border-slate-300 rounded text-sm"
+                    value={inference.geminiModel}
+                    onChange={(e) => handleInferenceChange({ geminiModel: e.target.value })}
+                    placeholder="gemini-2.5-flash"
+                  />
+                </div>
+              )}
+
+              {inference.provider === 'OPENAI_COMPATIBLE' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2 md:col-span-2">
+                    <label className="text-sm font-medium text-slate-700">Base URL</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border border-slate-300 rounded text-sm"
+                      value={inference.openAiBaseUrl}
+                      onChange={(e) => handleInferenceChange({ openAiBaseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                    />
+                    <p className="text-xs text-slate-500">Requests go to {'{base URL}'}/chat/completions. The server must allow CORS from this app.</p>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-700">Model</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border border-slate-300 rounded text-sm"
+                      value={inference.openAiModel}
+                      onChange={(e) => handleInferenceChange({ openAiModel: e.target.value })}
+                      placeholder="llama3.1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-700">API Key (optional)</label>
+                    <input
+                      type="password"
+                      className="w-full p-2 border border-slate-300 rounded text-sm"
+                      value={inference.openAiApiKey}
+                      onChange={(e) => handleInferenceChange({ openAiApiKey: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,49 +1,110 @@
-import React, { useState, useMemo } from 'react';
-import { PatientProfile, OntologyMapping, PublishConfig } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { PatientProfile, OntologyMapping, PublishConfig, ModelRunSummary, BootstrapConfig, ConfidenceInterval, ValidationMetricKey, HcpTier, HcpTieringConfig, AnalystChatMessage } from '../types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  PieChart, Pie, Cell, ScatterChart, Scatter, ZAxis, AreaChart, Area
+  PieChart, Pie, Cell, ScatterChart, Scatter, ZAxis, AreaChart, Area, LineChart, Line, ReferenceDot, ReferenceLine
 } from 'recharts';
-import { AlertCircle, CheckCircle, Users, TrendingUp, Sparkles, Send, MessageSquare, Cpu, Scale, Target, LayoutGrid, FileCheck, Activity, Save, Trophy, Share2 } from 'lucide-react';
-import { queryAnalysisResults } from '../services/geminiService';
+import { AlertCircle, CheckCircle, Users, TrendingUp, Cpu, Scale, Target, LayoutGrid, FileCheck, Activity, Save, Trophy, Share2, Lightbulb, Hourglass, Stethoscope } from 'lucide-react';
+import { askAnalyst } from '../services/inferenceService';
+import { hasObservedOutcome } from '../services/outcomeLabeling';
+import {
+  DEFAULT_DECISION_THRESHOLD, applyRiskCategories, selectTargetList, getTestOutcomes,
+  computeConfusion, computeRocCurve, computePrCurve, rocAuc, prAuc,
+  brierScore, expectedCalibrationError, computeReliabilityBins, computeDeciles, thresholdForTopFraction,
+  computeMulticlassConfusion, computeCrossValidationReport, computeBootstrapAucIntervals, computeBootstrapThresholdIntervals, DEFAULT_BOOTSTRAP_CONFIG
+} from '../services/metrics';
+import { forecastTherapyShares } from '../services/nextTherapy';
+import { summarizeAnalysis } from '../services/explainability';
 import { PublishDialog } from './PublishDialog';
+import { SurvivalAnalysisPanel } from './SurvivalAnalysisPanel';
+import { SubgroupFairnessPanel } from './SubgroupFairnessPanel';
+import { PatientResultsGrid } from './PatientResultsGrid';
+import { PatientJourneyDrawer } from './PatientJourneyDrawer';
+import { HcpTargetingPanel } from './HcpTargetingPanel';
+import { AnalystChatPanel } from './AnalystChatPanel';
+import { DEFAULT_HCP_TIERING, summarizeHcps } from '../services/hcpTargeting';
+
+// Wait for the threshold slider to rest before re-running the bootstrap resamples
+const THRESHOLD_INTERVAL_DEBOUNCE_MS = 300;
 
 interface AnalysisDashboardProps {
   patients: PatientProfile[];
   ontology: OntologyMapping;
+  modelSummary?: ModelRunSummary;
   experimentName?: string;
   isChampion?: boolean;
-  onSaveExperiment?: (name: string, tags: string[]) => void;
+  initialThreshold?: number;
+  lookbackMonths?: number;
+  conversation: AnalystChatMessage[]; // Analyst chat for this run, saved with the experiment
+  onConversationChange: (conversation: AnalystChatMessage[]) => void;
+  onSaveExperiment?: (name: string, tags: string[], threshold: number, bootstrap: BootstrapConfig) => void;
   onPublish?: (config: PublishConfig) => void;
 }
 
 export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ 
   patients, 
   ontology, 
+  modelSummary,
   experimentName, 
   isChampion, 
+  initialThreshold,
+  lookbackMonths,
+  conversation,
+  onConversationChange,
   onSaveExperiment, 
   onPublish 
 }) => {
-  const [activeTab, setActiveTab] = useState<'INSIGHTS' | 'VALIDATION'>('INSIGHTS');
-  const [question, setQuestion] = useState('');
-  const [answer, setAnswer] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'INSIGHTS' | 'VALIDATION' | 'SURVIVAL' | 'HCP'>('INSIGHTS');
   const [isQuerying, setIsQuerying] = useState(false);
+  const [gridSelection, setGridSelection] = useState<{ ids: string[]; label: string } | null>(null);
+  const resultsGridRef = useRef<HTMLDivElement>(null);
   
   // Experiment State
   const [expName, setExpName] = useState(experimentName || `Analysis - ${new Date().toLocaleTimeString()}`);
   const [isChampionState, setIsChampionState] = useState(isChampion || false);
   const [isSaved, setIsSaved] = useState(!!experimentName);
   const [showPublishDialog, setShowPublishDialog] = useState(false);
+  const [threshold, setThreshold] = useState(initialThreshold ?? DEFAULT_DECISION_THRESHOLD);
+  const [cutoffDecile, setCutoffDecile] = useState<number | null>(null);
+  const [journeyPatientId, setJourneyPatientId] = useState<string | null>(null);
+  const [hcpTiering, setHcpTiering] = useState<HcpTieringConfig>({ ...DEFAULT_HCP_TIERING });
+  const [bootstrapConfig, setBootstrapConfig] = useState<BootstrapConfig>({ ...DEFAULT_BOOTSTRAP_CONFIG });
 
-  // Filter Data
-  const testSet = patients.filter(p => p.split === 'TEST');
+  // Filter Data (validation only uses patients with an observed outcome)
+  const testSet = patients.filter(p => p.split === 'TEST' && hasObservedOutcome(p));
   const trainSet = patients.filter(p => p.split === 'TRAIN');
 
+  // Risk categories follow the decision threshold, so "High" is exactly the target list
+  const categorized = useMemo(() => applyRiskCategories(patients, threshold), [patients, threshold]);
+  const targetList = useMemo(() => selectTargetList(patients, threshold), [patients, threshold]);
+  const hcpTierCounts = useMemo(() => {
+    const counts: Record<HcpTier, number> = { A: 0, B: 0, C: 0 };
+    summarizeHcps(patients, threshold, hcpTiering).forEach(h => counts[h.tier]++);
+    return counts;
+  }, [patients, threshold, hcpTiering]);
+  const journeyPatient = journeyPatientId ? categorized.find(p => p.id === journeyPatientId) : undefined;
+
   // Aggregate Data (Global)
-  const highRisk = patients.filter(p => p.riskCategory === 'High');
-  const mediumRisk = patients.filter(p => p.riskCategory === 'Medium');
-  const lowRisk = patients.filter(p => p.riskCategory === 'Low');
+  const highRisk = categorized.filter(p => p.riskCategory === 'High');
+  const mediumRisk = categorized.filter(p => p.riskCategory === 'Medium');
+  const lowRisk = categorized.filter(p => p.riskCategory === 'Low');
+
+  // Risk drivers: global importance from the run, per-patient contributions on each row
+  const featureImportance = modelSummary?.featureImportance || [];
+  const stats = useMemo(() => summarizeAnalysis(categorized, featureImportance), [categorized, featureImportance]);
+  const explanationMethod = patients.find(p => p.explanation)?.explanation?.method;
+  const importanceUnit = explanationMethod === 'TREE_CONTRIBUTIONS'
+    ? 'Mean |contribution| (log-odds)'
+    : explanationMethod === 'COX_LOG_HAZARD'
+      ? 'Mean |contribution| (log-hazard)'
+      : 'Mean |factor weight| (LLM)';
+  const forecastHorizons = modelSummary?.survival?.horizonsMonths || [];
+  const therapyClasses = modelSummary?.therapyClasses;
+  const therapyShares = useMemo(() => forecastTherapyShares(patients), [patients]);
+  const multiclassConfusion = useMemo(
+    () => (therapyClasses ? computeMulticlassConfusion(patients, therapyClasses) : null),
+    [patients, therapyClasses]
+  );
 
   const riskDistribution = [
     { name: 'High Risk', value: highRisk.length, color: '#ef4444' },
@@ -58,47 +119,113 @@ export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
   ];
 
   // Validation Metrics Calculation (Test Set)
-  const validationMetrics = useMemo(() => {
-    if (testSet.length === 0) return { accuracy: 0, precision: 0, recall: 0, tp: 0, fp: 0, tn: 0, fn: 0 };
-
-    let tp = 0, fp = 0, tn = 0, fn = 0;
-    const threshold = 0.5;
-
-    testSet.forEach(p => {
-        const predicted = (p.riskScore || 0) > threshold;
-        const actual = p.actualOutcome || false;
+  const testOutcomes = useMemo(() => getTestOutcomes(patients), [patients]);
+  const curves = useMemo(() => {
+    const roc = computeRocCurve(testOutcomes);
+    const pr = computePrCurve(testOutcomes);
+    return { roc, pr, rocAuc: rocAuc(roc), prAuc: prAuc(pr) };
+  }, [testOutcomes]);
+  // Calibration before (raw model output) and after the calibrator, on the same TEST patients
+  const calibrationReport = useMemo(() => {
+    const raw = getTestOutcomes(patients, true);
+    const isCalibrated = patients.some(p => p.rawRiskScore !== undefined);
+    return {
+      isCalibrated,
+      rawBins: computeReliabilityBins(raw),
+      calibratedBins: computeReliabilityBins(testOutcomes),
+      rawBrier: brierScore(raw),
+      rawEce: expectedCalibrationError(raw),
+      brier: brierScore(testOutcomes),
+      ece: expectedCalibrationError(testOutcomes),
+    };
+  }, [patients, testOutcomes]);
+  const validationMetrics = useMemo(() => computeConfusion(testOutcomes, threshold), [testOutcomes, threshold]);
+  const crossValidation = useMemo(() => computeCrossValidationReport(patients, threshold), [patients, threshold]);
+  // The AUC resamples are the slow part and don't move with the threshold slider
+  const bootstrapAucIntervals = useMemo(
+    () => computeBootstrapAucIntervals(patients, bootstrapConfig),
+    [patients, bootstrapConfig]
+  );
+  // The thresholded ones still resample on every move, so they follow the slider once it settles
+  const [intervalThreshold, setIntervalThreshold] = useState(threshold);
+  useEffect(() => {
+    const timer = setTimeout(() => setIntervalThreshold(threshold), THRESHOLD_INTERVAL_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [threshold]);
+  const bootstrapThresholdIntervals = useMemo(
+    () => computeBootstrapThresholdIntervals(patients, intervalThreshold, bootstrapConfig),
+    [patients, intervalThreshold, bootstrapConfig]
+  );
+  const bootstrapIntervals = { ...bootstrapThresholdIntervals, ...bootstrapAucIntervals };
+  const formatInterval = (interval: ConfidenceInterval | undefined, asPercent = true) =>
+    interval
+      ? asPercent
+        ? `${(interval.lower * 100).toFixed(1)}–${(interval.upper * 100).toFixed(1)}%`
+        : `${interval.lower.toFixed(3)}–${interval.upper.toFixed(3)}`
+      : 'n/a';
+  const operatingFpr = validationMetrics.fp + validationMetrics.tn > 0 ? validationMetrics.fp / (validationMetrics.fp + validationMetrics.tn) : 0;
 
-        if (predicted && actual) tp++;
-        if (predicted && !actual) fp++;
-        if (!predicted && actual) fn++;
-        if (!predicted && !actual) tn++;
-    });
+  // Lift / gain on TEST: how many transitioners the top X% of scores captures
+  const deciles = useMemo(() => computeDeciles(testOutcomes), [testOutcomes]);
+  const gainCurve = useMemo(() => [
+    { population: 0, model: 0, random: 0 },
+    ...deciles.map(d => ({
+      population: testOutcomes.length > 0 ? d.cumulativeCount / testOutcomes.length : 0,
+      model: d.cumulativeCapture,
+      random: testOutcomes.length > 0 ? d.cumulativeCount / testOutcomes.length : 0,
+    })),
+  ], [deciles, testOutcomes]);
 
-    const accuracy = (tp + tn) / testSet.length;
-    const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
-    const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const handleThresholdChange = (value: number) => {
+    setThreshold(value);
+    setCutoffDecile(null);
+    setIsSaved(false);
+  };
 
-    return { accuracy, precision, recall, tp, fp, tn, fn };
-  }, [testSet]);
+  // Calling the top N deciles = the threshold that selects the top N×10% of the scored cohort
+  const handleDecileCutoff = (decile: number) => {
+    setThreshold(thresholdForTopFraction(patients, decile / 10));
+    setCutoffDecile(decile);
+    setIsSaved(false);
+  };
 
-  const handleAskQuestion = async () => {
-    if (!question.trim()) return;
+  const handleAskQuestion = async (question: string) => {
+    const history = conversation;
+    const asked: AnalystChatMessage = { id: `msg-${Date.now()}-${history.length}`, role: 'user', content: question, timestamp: new Date().toISOString() };
+    onConversationChange([...history, asked]);
     setIsQuerying(true);
-    setAnswer(null);
     try {
-      const result = await queryAnalysisResults(question, patients, ontology);
-      setAnswer(result);
+      const result = await askAnalyst(question, history, categorized, ontology);
+      onConversationChange([...history, asked, {
+        id: `msg-${Date.now()}-${history.length + 1}`,
+        role: 'assistant',
+        content: result.answer,
+        timestamp: new Date().toISOString(),
+        toolCalls: result.toolCalls,
+        chart: result.chart,
+      }]);
     } catch (e) {
-      setAnswer("Failed to get response.");
+      onConversationChange([...history, asked, {
+        id: `msg-${Date.now()}-${history.length + 1}`,
+        role: 'assistant',
+        content: "Failed to get response.",
+        timestamp: new Date().toISOString(),
+      }]);
     } finally {
       setIsQuerying(false);
     }
   };
+
+  // "Show data": narrow the results grid to the patients behind a tool call
+  const handleShowToolData = (rowIds: string[], label: string) => {
+    setGridSelection({ ids: rowIds, label });
+    resultsGridRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
   
   const handleSave = () => {
       const tags = [];
       if (isChampionState) tags.push('Champion');
-      onSaveExperiment?.(expName, tags);
+      onSaveExperiment?.(expName, tags, threshold, bootstrapConfig);
       setIsSaved(true);
   };
 
@@ -150,31 +277,58 @@ export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
       <PublishDialog 
         isOpen={showPublishDialog} 
         onClose={() => setShowPublishDialog(false)}
-        targetCount={highRisk.length}
+        targetCount={targetList.length}
+        threshold={threshold}
+        hcpTiering={hcpTiering}
+        hcpTierCounts={hcpTierCounts}
+        cutoffDecile={cutoffDecile ?? undefined}
         onPublish={(config) => {
             onPublish?.(config);
             setShowPublishDialog(false);
         }}
       />
 
+      {journeyPatient && (
+        <PatientJourneyDrawer
+          patient={journeyPatient}
+          lookbackMonths={lookbackMonths}
+          onClose={() => setJourneyPatientId(null)}
+        />
+      )}
+
       {/* Model Info Banner */}
       <div className="bg-slate-800 text-slate-300 px-6 py-3 rounded-xl flex items-center justify-between text-sm shadow-sm">
          <div className="flex items-center gap-6">
              <div className="flex items-center gap-2">
                  <Cpu className="w-4 h-4 text-blue-400" />
-                 <span>Engine: <strong className="text-white">Gemini 2.5 Flash</strong></span>
+                 <span>Engine: <strong className="text-white">{modelSummary?.engine || 'LLM Reasoning'}</strong></span>
              </div>
              <div className="w-px h-4 bg-slate-600"></div>
              <div className="flex items-center gap-2">
                  <Scale className="w-4 h-4 text-orange-400" />
-                 <span>Optimization: <strong className="text-white">Rare Disease / Imbalance Check Active</strong></span>
+                 <span>Optimization: <strong className="text-white">
+                    {modelSummary?.survival
+                      ? 'Censoring-aware (time to event)'
+                      : modelSummary?.syntheticCount
+                      ? `SMOTE (+${modelSummary.syntheticCount} synthetic training rows)`
+                      : modelSummary?.scalePosWeight && modelSummary.scalePosWeight !== 1
+                        ? `scale_pos_weight ${modelSummary.scalePosWeight.toFixed(2)}`
+                        : 'Rare Disease / Imbalance Check Active'}
+                 </strong></span>
              </div>
          </div>
          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2 text-xs">
-                <span className="w-2 h-2 rounded-full bg-blue-500"></span> Train: {trainSet.length}
-                <span className="w-2 h-2 rounded-full bg-pink-500"></span> Test: {testSet.length}
-            </div>
+            {modelSummary?.folds ? (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="w-2 h-2 rounded-full bg-pink-500"></span> {modelSummary.folds}-fold CV: {testSet.length} out-of-fold
+                </div>
+            ) : (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="w-2 h-2 rounded-full bg-blue-500"></span> Train: {trainSet.length}
+                    <span className="w-2 h-2 rounded-full bg-pink-500"></span> Test: {testSet.length}
+                    {modelSummary?.splitStrategy === 'OUT_OF_TIME' && <span className="text-slate-400">(out-of-time)</span>}
+                </div>
+            )}
          </div>
       </div>
 
@@ -194,9 +348,29 @@ export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
             <FileCheck className="w-4 h-4" />
             Model Validation
           </button>
+          {modelSummary?.survival && (
+            <button
+              onClick={() => setActiveTab('SURVIVAL')}
+              className={`pb-3 px-2 text-sm font-medium transition-colors flex items-center gap-2 ${activeTab === 'SURVIVAL' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <Hourglass className="w-4 h-4" />
+              Time to Transition
+            </button>
+          )}
+          <button
+            onClick={() => setActiveTab('HCP')}
+            className={`pb-3 px-2 text-sm font-medium transition-colors flex items-center gap-2 ${activeTab === 'HCP' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <Stethoscope className="w-4 h-4" />
+            HCP Targeting
+          </button>
       </div>
 
-      {activeTab === 'INSIGHTS' ? (
+      {activeTab === 'SURVIVAL' && modelSummary?.survival ? (
+        <SurvivalAnalysisPanel patients={patients} survival={modelSummary.survival} />
+      ) : activeTab === 'HCP' ? (
+        <HcpTargetingPanel patients={patients} threshold={threshold} tiering={hcpTiering} onTieringChange={setHcpTiering} />
+      ) : activeTab === 'INSIGHTS' ? (
         <>
             {/* KPI Cards */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 animate-in fade-in slide-in-from-left-2">
@@ -291,141 +465,543 @@ export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                 </div>
             </div>
             
-             {/* AI Analyst Q&A Section */}
-            <div className="bg-gradient-to-br from-indigo-50 to-blue-50 rounded-xl border border-blue-100 shadow-sm p-6 mt-6">
-                <div className="flex items-start gap-4">
-                    <div className="p-3 bg-white rounded-lg shadow-sm text-blue-600">
-                    <Sparkles className="w-6 h-6" />
+            {/* Next-Line Therapy Share Forecast */}
+            {therapyShares.length > 0 && (
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mt-6 animate-in fade-in slide-in-from-bottom-2">
+                    <div className="flex items-start justify-between mb-4">
+                        <div>
+                            <h3 className="text-lg font-semibold text-slate-800">Next-Line Therapy Share Forecast</h3>
+                            <p className="text-xs text-slate-500 mt-1">
+                                Expected patients moving to each regimen within the prediction window (sum of predicted probabilities)
+                            </p>
+                        </div>
+                        <div className="text-right">
+                            <div className="text-2xl font-bold text-slate-800">{therapyShares.reduce((acc, t) => acc + t.expectedPatients, 0).toFixed(0)}</div>
+                            <div className="text-xs text-slate-500">expected transitions</div>
+                        </div>
                     </div>
-                    <div className="flex-1">
-                    <h3 className="text-lg font-semibold text-slate-800">AI Data Analyst</h3>
-                    <p className="text-sm text-slate-600 mb-4">
-                        Ask questions about the cohort, specific doctors (NPI), or risk factors. 
-                        <br/><span className="text-xs text-slate-500 italic">Example: "Which doctor has the most high-risk patients?" or "List the top 3 patients for Dr. Sarah Chen."</span>
-                    </p>
-                    
-                    <div className="relative flex gap-2">
-                        <input 
-                        type="text" 
-                        value={question}
-                        onChange={(e) => setQuestion(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleAskQuestion()}
-                        placeholder="Ask a question about the results..."
-                        className="flex-1 px-4 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none shadow-sm"
-                        />
-                        <button 
-                        onClick={handleAskQuestion}
-                        disabled={isQuerying || !question.trim()}
-                        className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
-                        >
-                        {isQuerying ? 'Thinking...' : <><Send className="w-4 h-4" /> Ask</>}
-                        </button>
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={therapyShares} layout="vertical" margin={{ top: 0, right: 40, bottom: 0, left: 10 }}>
+                                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                                <XAxis type="number" />
+                                <YAxis type="category" dataKey="therapy" width={200} tick={{ fontSize: 11 }} />
+                                <Tooltip formatter={(v: number, _name: string, item: { payload?: { share: number } }) => [`${v.toFixed(1)} patients (${((item.payload?.share ?? 0) * 100).toFixed(1)}%)`, 'Expected']} />
+                                <Bar name="Expected patients" dataKey="expectedPatients" fill="#6366f1" radius={[0, 4, 4, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
                     </div>
+                </div>
+            )}
 
-                    {answer && (
-                        <div className="mt-4 p-4 bg-white rounded-lg border border-slate-200 text-slate-800 text-sm leading-relaxed animate-in fade-in slide-in-from-top-2">
-                            <div className="flex items-center gap-2 mb-2 text-blue-600 font-medium">
-                            <MessageSquare className="w-4 h-4" />
-                            Answer:
-                            </div>
-                            <div className="prose prose-sm max-w-none">
-                                {/* Basic rendering of markdown-like lists */}
-                                {answer.split('\n').map((line, i) => (
-                                    <p key={i} className={`mb-1 ${line.startsWith('-') || line.startsWith('*') ? 'pl-4' : ''}`}>
-                                        {line}
-                                    </p>
-                                ))}
-                            </div>
+            {/* Risk Drivers */}
+            {featureImportance.length > 0 && (
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mt-6 animate-in fade-in slide-in-from-bottom-2">
+                    <div className="flex items-start justify-between mb-4 gap-4">
+                        <div>
+                            <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                                <Lightbulb className="w-5 h-5 text-amber-500" />
+                                Top Risk Drivers
+                            </h3>
+                            <p className="text-xs text-slate-500 mt-1">{importanceUnit}, averaged over all scored patients</p>
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-2">
+                            {stats.topFactors.map(factor => (
+                                <span key={factor} className="px-2 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded text-xs font-medium">{factor}</span>
+                            ))}
                         </div>
-                    )}
+                    </div>
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={featureImportance.slice(0, 10)} layout="vertical" margin={{ top: 0, right: 20, bottom: 0, left: 10 }}>
+                                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                                <XAxis type="number" />
+                                <YAxis type="category" dataKey="label" width={220} tick={{ fontSize: 11 }} />
+                                <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                                <Bar name="Importance" dataKey="importance" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
                     </div>
                 </div>
+            )}
+
+             {/* AI Analyst */}
+            <div className="mt-6">
+                <AnalystChatPanel
+                    messages={conversation}
+                    isThinking={isQuerying}
+                    onSend={handleAskQuestion}
+                    onClear={() => onConversationChange([])}
+                    onShowData={handleShowToolData}
+                />
             </div>
             
-            {/* Detailed Patient Table */}
-            <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden mt-6">
-                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
-                    <h3 className="text-lg font-semibold text-slate-800">Top High-Risk Patients</h3>
-                    <span className="text-xs text-slate-500">Sorted by probability desc</span>
-                </div>
-                <div className="overflow-x-auto">
-                <table className="w-full text-sm text-left">
-                    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
-                    <tr>
-                        <th className="px-6 py-3 font-medium">Patient ID</th>
-                        <th className="px-6 py-3 font-medium">Provider (NPI)</th>
-                        <th className="px-6 py-3 font-medium">Age/Gender</th>
-                        <th className="px-6 py-3 font-medium">Months on Tx</th>
-                        <th className="px-6 py-3 font-medium">Current Line</th>
-                        <th className="px-6 py-3 font-medium">Transition Prob.</th>
-                        <th className="px-6 py-3 font-medium">Status</th>
-                    </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                    {/* Fix: Duplicate array using spread syntax before sorting to avoid mutating read-only props */}
-                    {[...patients]
-                        .sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0))
-                        .slice(0, 10)
-                        .map((patient) => (
-                        <tr key={patient.id} className="hover:bg-slate-50 transition-colors">
-                            <td className="px-6 py-3 font-medium text-slate-900">{patient.id}</td>
-                            <td className="px-6 py-3 text-slate-600">
-                                <div className="font-medium text-slate-700">{patient.doctorName}</div>
-                                <div className="text-xs text-slate-400">{patient.npiId}</div>
-                            </td>
-                            <td className="px-6 py-3 text-slate-600">{patient.age} / {patient.gender}</td>
-                            <td className="px-6 py-3 text-slate-600">{patient.monthsOnCurrentTherapy}</td>
-                            <td className="px-6 py-3 text-slate-600">Line {patient.currentTherapyLine}</td>
-                            <td className="px-6 py-3 font-semibold text-slate-800">
-                                {((patient.riskScore || 0) * 100).toFixed(1)}%
-                            </td>
-                            <td className="px-6 py-3">
-                                <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium
-                                    ${patient.riskCategory === 'High' ? 'bg-red-100 text-red-700' : 
-                                    patient.riskCategory === 'Medium' ? 'bg-orange-100 text-orange-700' : 
-                                    'bg-emerald-100 text-emerald-700'}`}>
-                                    {patient.riskCategory}
-                                </span>
-                            </td>
-                        </tr>
-                        ))}
-                    </tbody>
-                </table>
-                </div>
+            {/* Patient Results */}
+            <div ref={resultsGridRef}>
+                <PatientResultsGrid
+                    patients={categorized}
+                    hasForecast={forecastHorizons.length > 0}
+                    hasNextTherapy={!!therapyClasses}
+                    onSelectPatient={(patient) => setJourneyPatientId(patient.id)}
+                    rowSelection={gridSelection}
+                    onClearRowSelection={() => setGridSelection(null)}
+                />
             </div>
         </>
       ) : (
         <div className="space-y-6 animate-in fade-in slide-in-from-right-2">
-             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+             {/* Decision Threshold */}
+             <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                        <Target className="w-5 h-5 text-blue-600" />
+                        <h3 className="text-sm font-semibold text-slate-800">Decision Threshold</h3>
+                    </div>
+                    <div className="text-sm text-slate-600">
+                        Target list: <strong className="text-slate-900">{targetList.length}</strong> patients
+                        <span className="text-slate-400"> ({patients.length > 0 ? ((targetList.length / patients.length) * 100).toFixed(1) : 0}% of cohort)</span>
+                    </div>
+                </div>
+                <div className="flex items-center gap-4">
+                    <input
+                        type="range"
+                        min="0.01"
+                        max="0.99"
+                        step="0.01"
+                        value={threshold}
+                        onChange={(e) => handleThresholdChange(parseFloat(e.target.value))}
+                        className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <span className="w-14 text-right font-mono font-semibold text-blue-600">{threshold.toFixed(2)}</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                    {cutoffDecile !== null && <strong className="text-slate-700">Top {cutoffDecile} decile{cutoffDecile > 1 ? 's' : ''} selected. </strong>}
+                    Patients scoring at or above the threshold are classed High risk and published. Metrics below are on the {testOutcomes.length} TEST patients with an observed outcome.
+                </p>
+             </div>
+
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
                 {/* Metric Cards */}
-                <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex flex-col justify-between">
+                {[
+                    { key: 'accuracy', label: 'Test Set Accuracy', value: validationMetrics.accuracy, color: 'bg-blue-600' },
+                    { key: 'precision', label: 'Precision', value: validationMetrics.precision, color: 'bg-indigo-600' },
+                    { key: 'recall', label: 'Recall', value: validationMetrics.recall, color: 'bg-pink-600' },
+                    { key: 'f1', label: 'F1 Score', value: validationMetrics.f1, color: 'bg-emerald-600' },
+                ].map(metric => (
+                    <div key={metric.label} className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex flex-col justify-between">
+                        <div>
+                            <p className="text-sm font-medium text-slate-500">{metric.label}</p>
+                            <p className="text-3xl font-bold text-slate-800 mt-2">{(metric.value * 100).toFixed(1)}%</p>
+                            <p className="text-xs text-slate-400 mt-1">
+                                {(bootstrapConfig.confidenceLevel * 100).toFixed(0)}% CI {formatInterval(bootstrapIntervals[metric.key as ValidationMetricKey])}
+                            </p>
+                        </div>
+                        <div className="w-full bg-slate-100 h-1.5 rounded-full mt-4 overflow-hidden">
+                            <div className={`${metric.color} h-full rounded-full`} style={{ width: `${metric.value * 100}%` }}></div>
+                        </div>
+                    </div>
+                ))}
+             </div>
+
+             {/* Bootstrap Confidence Intervals */}
+             <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
                     <div>
-                        <p className="text-sm font-medium text-slate-500">Test Set Accuracy</p>
-                        <p className="text-3xl font-bold text-slate-800 mt-2">{(validationMetrics.accuracy * 100).toFixed(1)}%</p>
+                        <h3 className="text-sm font-semibold text-slate-800">
+                            Bootstrap Confidence Intervals
+                            {intervalThreshold !== threshold && <span className="ml-2 text-xs font-normal text-slate-400">updating…</span>}
+                        </h3>
+                        <p className="text-xs text-slate-500">Percentile intervals from resampling the {testOutcomes.length} TEST patients with replacement. Saved with the experiment.</p>
                     </div>
-                    <div className="w-full bg-slate-100 h-1.5 rounded-full mt-4 overflow-hidden">
-                        <div className="bg-blue-600 h-full rounded-full" style={{ width: `${validationMetrics.accuracy * 100}%` }}></div>
+                    <div className="flex items-center gap-3 text-xs text-slate-600">
+                        <label className="flex items-center gap-1.5">
+                            Resamples
+                            <select
+                                value={bootstrapConfig.resamples}
+                                onChange={(e) => setBootstrapConfig({ ...bootstrapConfig, resamples: parseInt(e.target.value) })}
+                                className="px-2 py-1 bg-white border border-slate-200 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                            >
+                                {[200, 500, 1000, 2000, 5000].map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                            Level
+                            <select
+                                value={bootstrapConfig.confidenceLevel}
+                                onChange={(e) => setBootstrapConfig({ ...bootstrapConfig, confidenceLevel: parseFloat(e.target.value) })}
+                                className="px-2 py-1 bg-white border border-slate-200 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                            >
+                                {[0.8, 0.9, 0.95, 0.99].map(level => <option key={level} value={level}>{(level * 100).toFixed(0)}%</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                            Seed
+                            <input
+                                type="number"
+                                value={bootstrapConfig.seed}
+                                onChange={(e) => setBootstrapConfig({ ...bootstrapConfig, seed: parseInt(e.target.value) || 0 })}
+                                className="w-20 px-2 py-1 bg-white border border-slate-200 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                            />
+                        </label>
                     </div>
                 </div>
-                 <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex flex-col justify-between">
-                    <div>
-                        <p className="text-sm font-medium text-slate-500">Precision</p>
-                        <p className="text-3xl font-bold text-slate-800 mt-2">{(validationMetrics.precision * 100).toFixed(1)}%</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                            <tr>
+                                <th className="px-4 py-2 font-medium text-left">Metric</th>
+                                <th className="px-4 py-2 font-medium text-right">Estimate</th>
+                                <th className="px-4 py-2 font-medium text-right">Lower</th>
+                                <th className="px-4 py-2 font-medium text-right">Upper</th>
+                                <th className="px-4 py-2 font-medium text-right">Width</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {([
+                                { key: 'accuracy', label: 'Accuracy', value: validationMetrics.accuracy },
+                                { key: 'precision', label: 'Precision', value: validationMetrics.precision },
+                                { key: 'recall', label: 'Recall', value: validationMetrics.recall },
+                                { key: 'f1', label: 'F1', value: validationMetrics.f1 },
+                                { key: 'rocAuc', label: 'ROC AUC', value: curves.rocAuc },
+                                { key: 'prAuc', label: 'PR AUC', value: curves.prAuc },
+                                { key: 'highRiskCount', label: 'High-risk count (whole cohort)', value: targetList.length },
+                            ] as { key: ValidationMetricKey; label: string; value: number }[]).map(row => {
+                                const interval = bootstrapIntervals[row.key];
+                                const digits = row.key === 'highRiskCount' ? 0 : 3;
+                                return (
+                                    <tr key={row.key} className="text-slate-600">
+                                        <td className="px-4 py-2 text-slate-700">{row.label}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-xs font-semibold text-slate-800">{row.value.toFixed(digits)}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-xs">{interval ? interval.lower.toFixed(digits) : 'n/a'}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-xs">{interval ? interval.upper.toFixed(digits) : 'n/a'}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{interval ? (interval.upper - interval.lower).toFixed(digits) : ''}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+             </div>
+
+             {/* Cross-validation */}
+             {crossValidation && (
+                <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                    <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                        <h3 className="text-sm font-semibold text-slate-800">Cross-Validation ({crossValidation.folds.length} folds, grouped by prescriber)</h3>
+                        <span className="text-xs text-slate-500">Out-of-fold scores at the current threshold</span>
                     </div>
-                     <div className="w-full bg-slate-100 h-1.5 rounded-full mt-4 overflow-hidden">
-                        <div className="bg-indigo-600 h-full rounded-full" style={{ width: `${validationMetrics.precision * 100}%` }}></div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium text-left">Fold</th>
+                                    <th className="px-4 py-2 font-medium text-right">n</th>
+                                    <th className="px-4 py-2 font-medium text-right">ROC AUC</th>
+                                    <th className="px-4 py-2 font-medium text-right">PR AUC</th>
+                                    <th className="px-4 py-2 font-medium text-right">Accuracy</th>
+                                    <th className="px-4 py-2 font-medium text-right">Precision</th>
+                                    <th className="px-4 py-2 font-medium text-right">Recall</th>
+                                    <th className="px-4 py-2 font-medium text-right">F1</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {crossValidation.folds.map(f => (
+                                    <tr key={f.fold} className="text-slate-600">
+                                        <td className="px-4 py-2">Fold {f.fold + 1}</td>
+                                        <td className="px-4 py-2 text-right text-slate-400">{f.count}</td>
+                                        {[f.rocAuc, f.prAuc, f.accuracy, f.precision, f.recall, f.f1].map((v, i) => (
+                                            <td key={i} className="px-4 py-2 text-right font-mono text-xs">{v.toFixed(3)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                                <tr className="bg-blue-50/60 font-semibold text-slate-800">
+                                    <td className="px-4 py-2">Mean ± std</td>
+                                    <td className="px-4 py-2"></td>
+                                    {(['rocAuc', 'prAuc', 'accuracy', 'precision', 'recall', 'f1'] as const).map(key => (
+                                        <td key={key} className="px-4 py-2 text-right font-mono text-xs">
+                                            {crossValidation.mean[key].toFixed(3)} ± {crossValidation.std[key].toFixed(3)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            </tbody>
+                        </table>
                     </div>
                 </div>
-                 <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex flex-col justify-between">
-                    <div>
-                        <p className="text-sm font-medium text-slate-500">Recall</p>
-                        <p className="text-3xl font-bold text-slate-800 mt-2">{(validationMetrics.recall * 100).toFixed(1)}%</p>
+             )}
+
+             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Confusion Matrix */}
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+                    <h3 className="text-sm font-semibold text-slate-800 mb-4">Confusion Matrix</h3>
+                    <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                        <div></div>
+                        <div className="text-xs text-slate-500 font-medium">Predicted +</div>
+                        <div className="text-xs text-slate-500 font-medium">Predicted −</div>
+                        <div className="text-xs text-slate-500 font-medium flex items-center justify-end">Actual +</div>
+                        <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-100">
+                            <p className="text-2xl font-bold text-emerald-700">{validationMetrics.tp}</p>
+                            <p className="text-[10px] text-emerald-600 uppercase">TP</p>
+                        </div>
+                        <div className="p-4 rounded-lg bg-red-50 border border-red-100">
+                            <p className="text-2xl font-bold text-red-700">{validationMetrics.fn}</p>
+                            <p className="text-[10px] text-red-600 uppercase">FN</p>
+                        </div>
+                        <div className="text-xs text-slate-500 font-medium flex items-center justify-end">Actual −</div>
+                        <div className="p-4 rounded-lg bg-orange-50 border border-orange-100">
+                            <p className="text-2xl font-bold text-orange-700">{validationMetrics.fp}</p>
+                            <p className="text-[10px] text-orange-600 uppercase">FP</p>
+                        </div>
+                        <div className="p-4 rounded-lg bg-slate-50 border border-slate-100">
+                            <p className="text-2xl font-bold text-slate-700">{validationMetrics.tn}</p>
+                            <p className="text-[10px] text-slate-500 uppercase">TN</p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* ROC Curve */}
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-semibold text-slate-800">ROC Curve</h3>
+                        <span className="text-xs font-medium text-slate-500">AUC {curves.rocAuc.toFixed(3)} <span className="text-slate-400">({formatInterval(bootstrapIntervals.rocAuc, false)})</span></span>
+                    </div>
+                    <div className="h-56">
+                        {curves.roc.length > 0 ? (
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis type="number" dataKey="fpr" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} label={{ value: 'False Positive Rate', position: 'bottom', offset: 0, fontSize: 11 }} />
+                                    <YAxis type="number" dataKey="tpr" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                                    <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                                    <Line data={[{ fpr: 0, tpr: 0 }, { fpr: 1, tpr: 1 }]} dataKey="tpr" stroke="#cbd5e1" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                                    <Line data={curves.roc} dataKey="tpr" stroke="#2563eb" strokeWidth={2} dot={false} type="linear" isAnimationActive={false} />
+                                    <ReferenceDot x={operatingFpr} y={validationMetrics.recall} r={5} fill="#ef4444" stroke="white" />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        ) : (
+                            <div className="h-full flex items-center justify-center text-xs text-slate-400">Needs both outcomes in the test split</div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Precision-Recall Curve */}
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-semibold text-slate-800">Precision-Recall Curve</h3>
+                        <span className="text-xs font-medium text-slate-500">AUC {curves.prAuc.toFixed(3)} <span className="text-slate-400">({formatInterval(bootstrapIntervals.prAuc, false)})</span></span>
+                    </div>
+                    <div className="h-56">
+                        {curves.pr.length > 0 ? (
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={curves.pr} margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis type="number" dataKey="recall" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} label={{ value: 'Recall', position: 'bottom', offset: 0, fontSize: 11 }} />
+                                    <YAxis type="number" dataKey="precision" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                                    <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                                    <Line dataKey="precision" stroke="#8b5cf6" strokeWidth={2} dot={false} type="stepBefore" isAnimationActive={false} />
+                                    <ReferenceDot x={validationMetrics.recall} y={validationMetrics.precision} r={5} fill="#ef4444" stroke="white" />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        ) : (
+                            <div className="h-full flex items-center justify-center text-xs text-slate-400">No positive outcomes in the test split</div>
+                        )}
+                    </div>
+                </div>
+             </div>
+
+             {/* Next-Therapy Confusion Matrix */}
+             {multiclassConfusion && (
+                <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                    <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                        <h3 className="text-sm font-semibold text-slate-800">Next-Therapy Confusion Matrix (TEST)</h3>
+                        <span className="text-xs text-slate-500">Top-1 accuracy {(multiclassConfusion.accuracy * 100).toFixed(1)}% · rows actual, columns predicted</span>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="text-xs text-slate-500 bg-slate-50 border-b border-slate-100">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium text-left">Actual \ Predicted</th>
+                                    {multiclassConfusion.classes.map(c => <th key={c} className="px-3 py-2 font-medium text-center">{c}</th>)}
+                                    <th className="px-3 py-2 font-medium text-right">Precision</th>
+                                    <th className="px-3 py-2 font-medium text-right">Recall</th>
+                                    <th className="px-3 py-2 font-medium text-right">n</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {multiclassConfusion.classes.map((actual, a) => {
+                                    const rowMax = Math.max(1, ...multiclassConfusion.matrix[a]);
+                                    const metrics = multiclassConfusion.perClass[a];
+                                    return (
+                                        <tr key={actual}>
+                                            <td className="px-4 py-2 font-medium text-slate-700">{actual}</td>
+                                            {multiclassConfusion.matrix[a].map((count, k) => (
+                                                <td
+                                                    key={k}
+                                                    className={`px-3 py-2 text-center ${a === k ? 'font-bold text-emerald-800' : 'text-slate-700'}`}
+                                                    style={{ backgroundColor: count > 0 ? `rgba(${a === k ? '16,185,129' : '239,68,68'}, ${0.08 + 0.4 * (count / rowMax)})` : undefined }}
+                                                >
+                                                    {count}
+                                                </td>
+                                            ))}
+                                            <td className="px-3 py-2 text-right text-slate-600">{(metrics.precision * 100).toFixed(0)}%</td>
+                                            <td className="px-3 py-2 text-right text-slate-600">{(metrics.recall * 100).toFixed(0)}%</td>
+                                            <td className="px-3 py-2 text-right text-slate-400">{metrics.support}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+             )}
+
+             {/* Lift, Gain & Deciles */}
+             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+                    <h3 className="text-sm font-semibold text-slate-800 mb-4">Cumulative Gain</h3>
+                    <div className="h-56">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={gainCurve} margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis type="number" dataKey="population" domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} label={{ value: 'Patients called (top % by score)', position: 'bottom', offset: 0, fontSize: 11 }} />
+                                <YAxis type="number" domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+                                <Tooltip formatter={(v: number) => `${(v * 100).toFixed(1)}%`} labelFormatter={(v: number) => `Top ${Math.round(v * 100)}%`} />
+                                <Legend verticalAlign="top" height={24} />
+                                <Line name="Random" dataKey="random" stroke="#cbd5e1" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                                <Line name="Transitioners captured" dataKey="model" stroke="#2563eb" strokeWidth={2} isAnimationActive={false} />
+                                {cutoffDecile !== null && <ReferenceLine x={cutoffDecile / 10} stroke="#ef4444" strokeDasharray="3 3" />}
+                            </LineChart>
+                        </ResponsiveContainer>
                     </div>
-                     <div className="w-full bg-slate-100 h-1.5 rounded-full mt-4 overflow-hidden">
-                        <div className="bg-pink-600 h-full rounded-full" style={{ width: `${validationMetrics.recall * 100}%` }}></div>
+                </div>
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+                    <h3 className="text-sm font-semibold text-slate-800 mb-4">Lift by Decile</h3>
+                    <div className="h-56">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={deciles} margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                                <XAxis dataKey="decile" label={{ value: 'Decile (1 = highest scores)', position: 'bottom', offset: 0, fontSize: 11 }} />
+                                <YAxis />
+                                <Tooltip formatter={(v: number) => `${v.toFixed(2)}×`} />
+                                <ReferenceLine y={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                                <Bar name="Lift" dataKey="lift" radius={[4, 4, 0, 0]}>
+                                    {deciles.map(d => (
+                                        <Cell key={d.decile} fill={cutoffDecile !== null && d.decile <= cutoffDecile ? '#2563eb' : '#93c5fd'} />
+                                    ))}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
                     </div>
                 </div>
              </div>
+
+             <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                    <h3 className="text-sm font-semibold text-slate-800">Decile Table (TEST)</h3>
+                    <span className="text-xs text-slate-500">Pick a cut-off decile to size the target list</span>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                            <tr>
+                                <th className="px-4 py-2 font-medium">Decile</th>
+                                <th className="px-4 py-2 font-medium text-right">Patients</th>
+                                <th className="px-4 py-2 font-medium text-right">Transitioners</th>
+                                <th className="px-4 py-2 font-medium text-right">Transition Rate</th>
+                                <th className="px-4 py-2 font-medium text-right">Min Score</th>
+                                <th className="px-4 py-2 font-medium text-right">Cum. Capture</th>
+                                <th className="px-4 py-2 font-medium text-right">Cum. Lift</th>
+                                <th className="px-4 py-2 font-medium text-right">Cut-off</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {deciles.map(d => (
+                                <tr key={d.decile} className={cutoffDecile !== null && d.decile <= cutoffDecile ? 'bg-blue-50/60' : 'hover:bg-slate-50'}>
+                                    <td className="px-4 py-2 font-medium text-slate-800">{d.decile}</td>
+                                    <td className="px-4 py-2 text-right text-slate-600">{d.count}</td>
+                                    <td className="px-4 py-2 text-right text-slate-600">{d.positives}</td>
+                                    <td className="px-4 py-2 text-right text-slate-600">{(d.observedRate * 100).toFixed(1)}%</td>
+                                    <td className="px-4 py-2 text-right text-slate-600 font-mono">{d.count > 0 ? d.minScore.toFixed(3) : '—'}</td>
+                                    <td className="px-4 py-2 text-right font-semibold text-slate-800">{(d.cumulativeCapture * 100).toFixed(1)}%</td>
+                                    <td className="px-4 py-2 text-right text-slate-600">{d.cumulativeLift.toFixed(2)}×</td>
+                                    <td className="px-4 py-2 text-right">
+                                        <button
+                                            onClick={() => handleDecileCutoff(d.decile)}
+                                            className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${
+                                                cutoffDecile === d.decile
+                                                    ? 'bg-blue-600 border-blue-600 text-white'
+                                                    : 'border-slate-200 text-slate-600 hover:border-blue-300 hover:text-blue-600'
+                                            }`}
+                                        >
+                                            Top {d.decile * 10}%
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+             </div>
+
+             {/* Calibration */}
+             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm lg:col-span-2">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-semibold text-slate-800">Reliability Diagram</h3>
+                        <span className="text-xs text-slate-500">Observed switch rate per predicted-probability bin (TEST)</span>
+                    </div>
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis type="number" dataKey="meanPredicted" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} label={{ value: 'Mean predicted probability', position: 'bottom', offset: 0, fontSize: 11 }} />
+                                <YAxis type="number" dataKey="observedRate" domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                                <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                                <Legend verticalAlign="top" height={24} />
+                                <Line name="Perfect" data={[{ meanPredicted: 0, observedRate: 0 }, { meanPredicted: 1, observedRate: 1 }]} dataKey="observedRate" stroke="#cbd5e1" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                                {calibrationReport.isCalibrated && (
+                                    <Line name="Raw model" data={calibrationReport.rawBins} dataKey="observedRate" stroke="#f59e0b" strokeWidth={2} isAnimationActive={false} />
+                                )}
+                                <Line name={calibrationReport.isCalibrated ? 'Calibrated' : 'Model'} data={calibrationReport.calibratedBins} dataKey="observedRate" stroke="#2563eb" strokeWidth={2} isAnimationActive={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-800">Calibration Scores</h3>
+                    <p className="text-xs text-slate-500">
+                        {modelSummary?.calibration
+                          ? modelSummary.calibration.fitted
+                            ? `${modelSummary.calibration.method === 'PLATT' ? 'Platt scaling' : 'Isotonic regression'} fitted on ${modelSummary.calibration.holdoutCount} held-out training patients.`
+                            : `Calibration skipped: the ${modelSummary.calibration.holdoutCount} hold-out patients did not include both outcomes.`
+                          : 'No calibration applied. Enable Platt or isotonic calibration in the cohort configuration.'}
+                    </p>
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-500">
+                            <tr>
+                                <th className="text-left font-medium py-1">Metric</th>
+                                {calibrationReport.isCalibrated && <th className="text-right font-medium py-1">Before</th>}
+                                <th className="text-right font-medium py-1">{calibrationReport.isCalibrated ? 'After' : 'Value'}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            <tr>
+                                <td className="py-2 text-slate-700">Brier score</td>
+                                {calibrationReport.isCalibrated && <td className="py-2 text-right text-slate-500">{calibrationReport.rawBrier.toFixed(3)}</td>}
+                                <td className="py-2 text-right font-semibold text-slate-800">{calibrationReport.brier.toFixed(3)}</td>
+                            </tr>
+                            <tr>
+                                <td className="py-2 text-slate-700">Expected calibration error</td>
+                                {calibrationReport.isCalibrated && <td className="py-2 text-right text-slate-500">{calibrationReport.rawEce.toFixed(3)}</td>}
+                                <td className="py-2 text-right font-semibold text-slate-800">{calibrationReport.ece.toFixed(3)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <p className="text-[11px] text-slate-400">Lower is better for both. ECE uses 10 equal-width bins.</p>
+                </div>
+             </div>
+
+             {/* Subgroup Fairness */}
+             <SubgroupFairnessPanel patients={patients} threshold={threshold} />
         </div>
       )}
     </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { AnalystChartSpec } from '../types';
+import {
+  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+
+interface AnalystChartProps {
+  spec: AnalystChartSpec;
+}
+
+const PALETTE = ['#3b82f6', '#8b5cf6', '#f59e0b', '#10b981', '#ef4444', '#06b6d4', '#ec4899', '#64748b'];
+
+export const AnalystChart: React.FC<AnalystChartProps> = ({ spec }) => {
+  const valueName = spec.yLabel || 'Value';
+
+  return (
+    <div className="p-3 bg-white border border-slate-100 rounded-lg">
+      <p className="text-xs font-semibold text-slate-700 mb-2">{spec.title}</p>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          {spec.type === 'pie' ? (
+            <PieChart>
+              <Pie data={spec.data} dataKey="value" nameKey="label" innerRadius={40} outerRadius={75} paddingAngle={2}>
+                {spec.data.map((_, i) => <Cell key={i} fill={PALETTE[i % PALETTE.length]} />)}
+              </Pie>
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+            </PieChart>
+          ) : spec.type === 'line' ? (
+            <LineChart data={spec.data} margin={{ top: 5, right: 10, bottom: spec.xLabel ? 15 : 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} label={spec.xLabel ? { value: spec.xLabel, position: 'insideBottom', offset: -10, fontSize: 11 } : undefined} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Line name={valueName} dataKey="value" stroke={PALETTE[0]} strokeWidth={2} />
+            </LineChart>
+          ) : (
+            <BarChart data={spec.data} margin={{ top: 5, right: 10, bottom: spec.xLabel ? 15 : 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} label={spec.xLabel ? { value: spec.xLabel, position: 'insideBottom', offset: -10, fontSize: 11 } : undefined} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Bar name={valueName} dataKey="value" fill={PALETTE[0]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
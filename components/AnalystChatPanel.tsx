@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AnalystChatMessage } from '../types';
+import { Sparkles, Send, Wrench, Table, ChevronDown, ChevronRight, Trash2, User } from 'lucide-react';
+import { MarkdownView } from './MarkdownView';
+import { AnalystChart } from './AnalystChart';
+
+interface AnalystChatPanelProps {
+  messages: AnalystChatMessage[];
+  isThinking?: boolean;
+  onSend?: (question: string) => void; // Omitted for a saved conversation, which is read-only
+  onClear?: () => void;
+  onShowData?: (rowIds: string[], label: string) => void; // Needs the scored patients loaded
+}
+
+const EXAMPLES = [
+  'Which doctor has the most high-risk patients?',
+  'List the top 3 patients for Dr. Sarah Chen.',
+  'Show the risk distribution as a pie chart.',
+];
+
+export const AnalystChatPanel: React.FC<AnalystChatPanelProps> = ({ messages, isThinking, onSend, onClear, onShowData }) => {
+  const [question, setQuestion] = useState('');
+  const [expandedToolCallId, setExpandedToolCallId] = useState<string | null>(null);
+  const historyRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (historyRef.current) historyRef.current.scrollTop = historyRef.current.scrollHeight;
+  }, [messages.length, isThinking]);
+
+  const handleSend = (text: string) => {
+    if (!onSend || !text.trim() || isThinking) return;
+    onSend(text.trim());
+    setQuestion('');
+  };
+
+  const renderAssistantTurn = (message: AnalystChatMessage) => (
+    <div className="p-4 bg-white rounded-lg border border-slate-200 space-y-3">
+      <MarkdownView text={message.content} />
+      {message.chart && <AnalystChart spec={message.chart} />}
+
+      {/* Executed tool calls: the numbers above come from these */}
+      {message.toolCalls && message.toolCalls.length > 0 && (
+        <div className="pt-3 border-t border-slate-100 space-y-2">
+          <p className="text-xs font-medium text-slate-500 flex items-center gap-1">
+            <Wrench className="w-3 h-3" /> {message.toolCalls.length} tool call{message.toolCalls.length === 1 ? '' : 's'}
+          </p>
+          {message.toolCalls.map(call => {
+            const key = `${message.id}-${call.id}`;
+            return (
+              <div key={key} className="rounded border border-slate-100 bg-slate-50 text-xs">
+                <div className="flex items-center justify-between gap-2 px-3 py-2">
+                  <button
+                    onClick={() => setExpandedToolCallId(expandedToolCallId === key ? null : key)}
+                    className="flex items-center gap-1 min-w-0 text-left text-slate-700"
+                  >
+                    {expandedToolCallId === key ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                    <span className="font-mono font-semibold">{call.name}</span>
+                    <span className="font-mono text-slate-400 truncate">{JSON.stringify(call.arguments)}</span>
+                  </button>
+                  {call.error ? (
+                    <span className="text-red-600 shrink-0">Failed</span>
+                  ) : onShowData && call.rowIds.length > 0 && (
+                    <button
+                      onClick={() => onShowData(call.rowIds, `Analyst: ${call.name}`)}
+                      className="flex items-center gap-1 text-blue-600 hover:underline shrink-0"
+                    >
+                      <Table className="w-3 h-3" /> Show data ({call.rowIds.length} rows)
+                    </button>
+                  )}
+                </div>
+                {expandedToolCallId === key && (
+                  <pre className="px-3 pb-2 max-h-64 overflow-auto font-mono text-[11px] text-slate-600 whitespace-pre-wrap">
+                    {call.error || JSON.stringify(call.result, null, 2)}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-blue-50 rounded-xl border border-blue-100 shadow-sm p-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-white rounded-lg shadow-sm text-blue-600">
+          <Sparkles className="w-6 h-6" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800">AI Data Analyst</h3>
+              <p className="text-sm text-slate-600 mb-4">
+                Ask questions about the cohort, specific doctors (NPI), or risk factors. Follow-up questions keep the conversation's context.
+                <br/><span className="text-xs text-slate-500">Answers are computed by local tools over the scored patients; the tool calls are listed under each answer.</span>
+              </p>
+            </div>
+            {onClear && messages.length > 0 && (
+              <button
+                onClick={onClear}
+                disabled={isThinking}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-red-600 disabled:opacity-50"
+              >
+                <Trash2 className="w-3 h-3" /> Clear
+              </button>
+            )}
+          </div>
+
+          {(messages.length > 0 || isThinking) && (
+            <div ref={historyRef} className="max-h-[640px] overflow-y-auto space-y-4 mb-4 pr-1">
+              {messages.map(message => message.role === 'user' ? (
+                <div key={message.id} className="flex justify-end">
+                  <div className="max-w-[80%] px-4 py-2 bg-blue-600 text-white rounded-lg text-sm flex items-start gap-2">
+                    <User className="w-4 h-4 mt-0.5 shrink-0 opacity-70" />
+                    <span>{message.content}</span>
+                  </div>
+                </div>
+              ) : (
+                <div key={message.id}>{renderAssistantTurn(message)}</div>
+              ))}
+              {isThinking && <p className="text-sm text-slate-500 italic animate-pulse">Thinking…</p>}
+            </div>
+          )}
+
+          {onSend && (
+            <>
+              <div className="relative flex gap-2">
+                <input
+                  type="text"
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSend(question)}
+                  placeholder={messages.length > 0 ? 'Ask a follow-up…' : 'Ask a question about the results...'}
+                  className="flex-1 px-4 py-3 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none shadow-sm"
+                />
+                <button
+                  onClick={() => handleSend(question)}
+                  disabled={isThinking || !question.trim()}
+                  className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+                >
+                  {isThinking ? 'Thinking...' : <><Send className="w-4 h-4" /> Ask</>}
+                </button>
+              </div>
+              {messages.length === 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {EXAMPLES.map(example => (
+                    <button
+                      key={example}
+                      onClick={() => handleSend(example)}
+                      disabled={isThinking}
+                      className="px-3 py-1 text-xs bg-white border border-slate-200 rounded-full text-slate-600 hover:border-blue-300 hover:text-blue-700"
+                    >
+                      {example}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Experiment } from '../types';
+import { MessageSquare, X } from 'lucide-react';
+import { AnalystChatPanel } from './AnalystChatPanel';
+
+interface AnalystConversationDialogProps {
+  experiment: Experiment;
+  onClose: () => void;
+}
+
+// Saved experiments keep their analyst conversation but not the scored patients,
+// so the transcript reopens read-only and without "show data" links
+export const AnalystConversationDialog: React.FC<AnalystConversationDialogProps> = ({ experiment, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+      <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-blue-600" />
+          Analyst Conversation · {experiment.name}
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="p-6 overflow-y-auto">
+        <AnalystChatPanel messages={experiment.conversation || []} />
+      </div>
+    </div>
+  </div>
+);
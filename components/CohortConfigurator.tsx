@@ -1,25 +1,57 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Settings, Calendar, Filter, ArrowRight, ShieldCheck, PieChart, AlertTriangle, CheckCircle, Cpu, Scale, Split, BookmarkCheck } from 'lucide-react';
-import { OntologyMapping, CohortConfig, PatientProfile, ModelType, ImbalanceStrategy, DiseasePreset } from '../types';
+import { Settings, Calendar, Filter, ArrowRight, ShieldCheck, PieChart, AlertTriangle, CheckCircle, Cpu, Scale, Split, BookmarkCheck, UserX, FlaskConical, Trophy, Loader2 } from 'lucide-react';
+import { OntologyMapping, CohortConfig, PatientProfile, ModelType, ImbalanceStrategy, DiseasePreset, GradientBoostingParams, SmoteParams, CalibrationConfig, CalibrationMethod, SplitConfig, SplitStrategy, HyperparameterSearchConfig, SearchMethod, SearchSpace, TuningMetric, TuningTrial } from '../types';
 import { ResponsiveContainer, PieChart as RechartsPie, Pie, Cell, Tooltip } from 'recharts';
+import { buildCohort } from '../services/cohortBuilder';
+import { DEFAULT_BOOSTING_PARAMS } from '../services/gradientBoosting';
+import { DEFAULT_SMOTE_PARAMS, countSyntheticRows } from '../services/smote';
+import { hasObservedOutcome, labelTransitionOutcomes } from '../services/outcomeLabeling';
+import { DEFAULT_SPLIT_CONFIG } from '../services/dataSplit';
+import { DEFAULT_SEARCH_CONFIG, runHyperparameterSearch, toTrialConfig } from '../services/hyperparameterSearch';
 
 interface CohortConfiguratorProps {
   ontology: OntologyMapping;
   patients: PatientProfile[];
   onConfigReady: (config: CohortConfig) => void;
+  onPromoteTrial: (trial: TuningTrial, config: CohortConfig) => void;
   diseasePresets: DiseasePreset[];
 }
 
-export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology, patients, onConfigReady, diseasePresets }) => {
+type NumericSearchKey = Exclude<keyof SearchSpace, 'imbalanceStrategy'>;
+
+const formatValueList = (values: number[]) => values.join(', ');
+const parseValueList = (text: string) =>
+  text.split(',').map(v => parseFloat(v.trim())).filter(v => !isNaN(v) && v > 0);
+
+export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology, patients, onConfigReady, onPromoteTrial, diseasePresets }) => {
   const [lookbackMonths, setLookbackMonths] = useState(6);
   const [predictionWindowMonths, setPredictionWindowMonths] = useState(3);
   const [minClaimsCount, setMinClaimsCount] = useState(2);
   const [appliedPreset, setAppliedPreset] = useState<string | null>(null);
+  const [showExclusions, setShowExclusions] = useState(false);
   
   // ML Model Settings
   const [modelType, setModelType] = useState<ModelType>('GENAI_REASONING');
   const [imbalanceStrategy, setImbalanceStrategy] = useState<ImbalanceStrategy>('NONE');
   const [trainTestSplit, setTrainTestSplit] = useState(0.2); // 20% default
+  const [splitConfig, setSplitConfig] = useState<SplitConfig>({ ...DEFAULT_SPLIT_CONFIG });
+  const [boostingParams, setBoostingParams] = useState<GradientBoostingParams>({ ...DEFAULT_BOOSTING_PARAMS });
+  const [smoteParams, setSmoteParams] = useState<SmoteParams>({ ...DEFAULT_SMOTE_PARAMS });
+  const [calibration, setCalibration] = useState<CalibrationConfig>({ method: 'NONE', holdoutFraction: 0.2 });
+
+  // Hyperparameter tuning (XGBOOST only)
+  const [showTuning, setShowTuning] = useState(false);
+  const [searchConfig, setSearchConfig] = useState<HyperparameterSearchConfig>({ ...DEFAULT_SEARCH_CONFIG });
+  const [searchSpaceText, setSearchSpaceText] = useState<Record<NumericSearchKey, string>>({
+    maxDepth: formatValueList(DEFAULT_SEARCH_CONFIG.space.maxDepth),
+    learningRate: formatValueList(DEFAULT_SEARCH_CONFIG.space.learningRate),
+    nEstimators: formatValueList(DEFAULT_SEARCH_CONFIG.space.nEstimators),
+  });
+  const [trials, setTrials] = useState<TuningTrial[]>([]);
+  const [tuningSearch, setTuningSearch] = useState<HyperparameterSearchConfig | null>(null); // Search the leaderboard came from
+  const [tuningProgress, setTuningProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [tuningError, setTuningError] = useState<string | null>(null);
+  const [promotedTrialIds, setPromotedTrialIds] = useState<number[]>([]);
 
   // Apply Presets based on Ontology Disease Name
   useEffect(() => {
@@ -66,6 +98,24 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
     };
   }, [patients]);
 
+  // Apply the cohort definition live so exclusions track the lookback / min claims inputs
+  const cohort = useMemo(
+    () => buildCohort(patients, ontology, { lookbackMonths, minClaimsCount }),
+    [patients, ontology, lookbackMonths, minClaimsCount]
+  );
+
+  // Expected SMOTE output for the training split (the exact count is reported after the run)
+  const smotePreview = useMemo(() => {
+    const observed = labelTransitionOutcomes(cohort.included, ontology, { predictionWindowMonths }).filter(hasObservedOutcome);
+    const positives = observed.filter(p => p.actualOutcome).length;
+    const trainShare = splitConfig.strategy === 'GROUPED_KFOLD' ? 1 - 1 / splitConfig.folds : 1 - trainTestSplit;
+    const trainPositives = Math.round(positives * trainShare);
+    const trainNegatives = Math.round((observed.length - positives) * trainShare);
+    const minority = Math.min(trainPositives, trainNegatives);
+    const majority = Math.max(trainPositives, trainNegatives);
+    return { minority, majority, synthetic: countSyntheticRows(minority, majority, smoteParams.targetRatio) };
+  }, [cohort, ontology, predictionWindowMonths, trainTestSplit, splitConfig, smoteParams.targetRatio]);
+
   // Auto-recommend XGBoost + Class Weights if imbalance is detected
   useEffect(() => {
     if (stats.isImbalanced) {
@@ -80,15 +130,97 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [stats.isImbalanced]);
 
-  const handleSubmit = () => {
-    onConfigReady({
+  const buildConfig = (): CohortConfig => ({
       lookbackMonths,
       predictionWindowMonths,
       minClaimsCount,
       modelType,
       imbalanceStrategy,
-      trainTestSplit
-    });
+      trainTestSplit,
+      split: splitConfig,
+      boostingParams,
+      smoteParams,
+      calibration
+  });
+
+  const handleSubmit = () => {
+    onConfigReady(buildConfig());
+  };
+
+  const searchSpace: SearchSpace = {
+    maxDepth: parseValueList(searchSpaceText.maxDepth).map(Math.round),
+    learningRate: parseValueList(searchSpaceText.learningRate),
+    nEstimators: parseValueList(searchSpaceText.nEstimators).map(Math.round),
+    imbalanceStrategy: searchConfig.space.imbalanceStrategy,
+  };
+  const gridSize = searchSpace.maxDepth.length * searchSpace.learningRate.length * searchSpace.nEstimators.length * searchSpace.imbalanceStrategy.length;
+  const trialCount = Math.min(gridSize, searchConfig.maxTrials);
+
+  const handleToggleClassWeight = (strategy: ImbalanceStrategy) => {
+    const current = searchConfig.space.imbalanceStrategy;
+    const next = current.includes(strategy) ? current.filter(s => s !== strategy) : [...current, strategy];
+    setSearchConfig({ ...searchConfig, space: { ...searchConfig.space, imbalanceStrategy: next } });
+  };
+
+  const handleRunSearch = async () => {
+    const search = { ...searchConfig, space: searchSpace };
+    setTrials([]);
+    setPromotedTrialIds([]);
+    setTuningError(null);
+    setTuningSearch(search);
+    setTuningProgress({ completed: 0, total: trialCount });
+    try {
+      // Trials see the same labeled cohort the full run would
+      const labeledPatients = labelTransitionOutcomes(cohort.included, ontology, { predictionWindowMonths });
+      const ranked = await runHyperparameterSearch(labeledPatients, ontology, buildConfig(), search, (trial, completed, total) => {
+        setTrials(prev => [...prev, trial].sort((a, b) => b.score - a.score));
+        setTuningProgress({ completed, total });
+      });
+      setTrials(ranked);
+    } catch (error) {
+      console.error("Hyperparameter search failed", error);
+      setTuningError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setTuningProgress(null);
+    }
+  };
+
+  const handleApplyTrial = (trial: TuningTrial) => {
+    setBoostingParams({ ...trial.boostingParams });
+    setImbalanceStrategy(trial.imbalanceStrategy);
+  };
+
+  const handlePromoteTrial = (trial: TuningTrial) => {
+    if (!tuningSearch) return;
+    onPromoteTrial(trial, toTrialConfig(buildConfig(), tuningSearch, trial));
+    setPromotedTrialIds(prev => [...prev, trial.id]);
+  };
+
+  const tuningMetricLabel = (search: HyperparameterSearchConfig) =>
+    search.metric === 'ROC_AUC' ? 'ROC AUC' : `Recall @ ${(search.targetPrecision * 100).toFixed(0)}% precision`;
+
+  const splitStrategyOptions: { id: SplitStrategy; label: string; description: string }[] = [
+    { id: 'STRATIFIED', label: 'Stratified', description: 'Random, with the same transition rate in TRAIN and TEST.' },
+    { id: 'RANDOM', label: 'Random', description: 'Seeded random hold-out.' },
+    { id: 'OUT_OF_TIME', label: 'Out-of-time', description: 'The latest index dates are held out, mimicking deployment on future patients.' },
+    { id: 'GROUPED_KFOLD', label: 'Grouped k-fold CV', description: 'All patients of a prescriber are held out together, once; metrics are reported as mean ± std across folds.' },
+  ];
+
+  const boostingParamFields: { key: keyof GradientBoostingParams; label: string; min: number; max: number; step: number; integer?: boolean }[] = [
+    { key: 'nEstimators', label: 'Trees', min: 10, max: 500, step: 10, integer: true },
+    { key: 'maxDepth', label: 'Max Depth', min: 1, max: 8, step: 1, integer: true },
+    { key: 'learningRate', label: 'Learning Rate', min: 0.01, max: 1, step: 0.01 },
+    { key: 'subsample', label: 'Row Subsample', min: 0.1, max: 1, step: 0.05 },
+    { key: 'colsampleByTree', label: 'Column Subsample', min: 0.1, max: 1, step: 0.05 },
+    { key: 'seed', label: 'Seed', min: 0, max: 99999, step: 1, integer: true },
+  ];
+
+  // Typed values are kept inside each field's range so training never sees invalid params
+  const handleBoostingParamChange = (field: typeof boostingParamFields[number], value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const clamped = Math.min(field.max, Math.max(field.min, field.integer ? Math.round(parsed) : parsed));
+    setBoostingParams(prev => ({ ...prev, [field.key]: clamped }));
   };
 
   return (
@@ -189,6 +321,78 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
         </div>
       </div>
 
+      {/* Cohort Attrition Funnel & Exclusion Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg text-emerald-600">
+              <UserX className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">Cohort Attrition</h2>
+              <p className="text-xs text-slate-500">Inclusion and exclusion rules applied before modeling. Updates as you edit the cohort definition.</p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-slate-500">Final Cohort</p>
+            <p className="text-xl font-bold text-emerald-600">{cohort.included.length} <span className="text-sm font-normal text-slate-400">/ {cohort.initialCount}</span></p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Attrition Funnel: one bar per rule, width = share of the starting population retained */}
+          <div className="space-y-2">
+            {[{ rule: 'ALL', label: 'All patients in claims data', remaining: cohort.initialCount, excluded: 0 }, ...cohort.steps].map((step, index) => {
+              const retained = cohort.initialCount > 0 ? step.remaining / cohort.initialCount : 0;
+              return (
+                <div key={step.rule} className="grid grid-cols-12 gap-3 items-center text-sm">
+                  <div className="col-span-4 text-slate-700 truncate" title={step.label}>
+                    <span className="text-xs text-slate-400 mr-2">{index === 0 ? 'N' : index}</span>
+                    {step.label}
+                  </div>
+                  <div className="col-span-5 bg-slate-100 h-6 rounded overflow-hidden">
+                    <div
+                      className={`h-full rounded transition-all duration-500 ${index === cohort.steps.length ? 'bg-emerald-500' : 'bg-blue-500'}`}
+                      style={{ width: `${retained * 100}%` }}
+                    />
+                  </div>
+                  <div className="col-span-3 flex items-center justify-end gap-3">
+                    {step.excluded > 0 && <span className="text-xs text-red-500">-{step.excluded}</span>}
+                    <span className="font-semibold text-slate-800">{step.remaining}</span>
+                    <span className="text-xs text-slate-500 w-12 text-right">{(retained * 100).toFixed(1)}%</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {cohort.excluded.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowExclusions(!showExclusions)}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                {showExclusions ? 'Hide' : 'Show'} excluded patients ({cohort.excluded.length})
+              </button>
+              {showExclusions && (
+                <div className="mt-2 max-h-60 overflow-y-auto border border-slate-100 rounded-lg">
+                  <table className="w-full text-xs text-left">
+                    <tbody className="divide-y divide-slate-100">
+                      {cohort.excluded.map(ex => (
+                        <tr key={ex.patientId}>
+                          <td className="px-3 py-1.5 font-medium text-slate-700">{ex.patientId}</td>
+                          <td className="px-3 py-1.5 text-slate-500">{ex.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* 2. Configuration Form */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
         {/* Header */}
@@ -241,6 +445,28 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
                             </div>
                             <div className="text-xs opacity-70">Tree-based model optimized for structured claims.</div>
                         </button>
+                        <button
+                             onClick={() => setModelType('SURVIVAL')}
+                             className={`px-4 py-3 rounded-lg border text-left transition-all ${
+                                modelType === 'SURVIVAL' 
+                                ? 'border-blue-500 bg-blue-50 text-blue-700 ring-1 ring-blue-500' 
+                                : 'border-slate-200 hover:border-slate-300'
+                            }`}
+                        >
+                            <div className="font-semibold text-sm">Survival (Cox Proportional Hazards)</div>
+                            <div className="text-xs opacity-70">Models time to next line with censoring; forecasts 3, 6 and 12 months.</div>
+                        </button>
+                        <button
+                             onClick={() => setModelType('NEXT_THERAPY')}
+                             className={`px-4 py-3 rounded-lg border text-left transition-all ${
+                                modelType === 'NEXT_THERAPY' 
+                                ? 'border-blue-500 bg-blue-50 text-blue-700 ring-1 ring-blue-500' 
+                                : 'border-slate-200 hover:border-slate-300'
+                            }`}
+                        >
+                            <div className="font-semibold text-sm">Next Therapy (Multi-class)</div>
+                            <div className="text-xs opacity-70">Predicts which regimen the next line will be, or no transition.</div>
+                        </button>
                     </div>
                 </div>
 
@@ -261,12 +487,270 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
                         <option value="SMOTE">SMOTE (Synthetic Over-sampling)</option>
                     </select>
                     <p className="text-xs text-slate-500">
-                        {imbalanceStrategy === 'CLASS_WEIGHTS' && "Penalizes false negatives heavily. Useful for rare disease detection."}
-                        {imbalanceStrategy === 'SMOTE' && "Generates synthetic examples of the minority class to balance training."}
+                        {imbalanceStrategy === 'CLASS_WEIGHTS' && "scale_pos_weight = negatives / positives in the training split. Useful for rare disease detection."}
+                        {imbalanceStrategy === 'SMOTE' && `Adds ~${smotePreview.synthetic} synthetic minority rows to the training split (${smotePreview.minority} minority vs ${smotePreview.majority} majority). The test split is never resampled.`}
                         {imbalanceStrategy === 'NONE' && "Standard objective function. May bias towards majority class."}
                     </p>
+                    {modelType === 'XGBOOST' && imbalanceStrategy === 'SMOTE' && (
+                        <div className="grid grid-cols-3 gap-3 pt-1">
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Variant</label>
+                                <select
+                                    value={smoteParams.variant}
+                                    onChange={(e) => setSmoteParams({ ...smoteParams, variant: e.target.value as SmoteParams['variant'] })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    <option value="SMOTE">SMOTE</option>
+                                    <option value="BORDERLINE">Borderline</option>
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">k Neighbours</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="20"
+                                    value={smoteParams.kNeighbors}
+                                    onChange={(e) => setSmoteParams({ ...smoteParams, kNeighbors: parseInt(e.target.value) || 1 })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Target Ratio</label>
+                                <input
+                                    type="number"
+                                    min="0.1"
+                                    max="1"
+                                    step="0.1"
+                                    value={smoteParams.targetRatio}
+                                    onChange={(e) => setSmoteParams({ ...smoteParams, targetRatio: Math.min(1, parseFloat(e.target.value) || 0) })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
+
+            {/* Boosting Hyperparameters */}
+            {(modelType === 'XGBOOST' || modelType === 'NEXT_THERAPY') && (
+                <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                    <p className="text-xs font-semibold text-slate-600 uppercase mb-3">Boosting Hyperparameters</p>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {boostingParamFields.map(field => (
+                            <div key={field.key} className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">{field.label}</label>
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    max={field.max}
+                                    step={field.step}
+                                    value={boostingParams[field.key]}
+                                    onChange={(e) => handleBoostingParamChange(field, e.target.value)}
+                                    className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-3">Trained in the browser on the training split. The same seed reproduces the same model.</p>
+                </div>
+            )}
+
+            {/* Hyperparameter Tuning */}
+            {modelType === 'XGBOOST' && (
+                <div className="p-4 bg-white rounded-lg border border-slate-200">
+                    <button
+                        onClick={() => setShowTuning(!showTuning)}
+                        className="w-full flex items-center justify-between text-left"
+                    >
+                        <span className="flex items-center gap-2 text-xs font-semibold text-slate-600 uppercase">
+                            <FlaskConical className="w-4 h-4 text-indigo-500" />
+                            Hyperparameter Tuning
+                        </span>
+                        <span className="text-xs text-blue-600">{showTuning ? 'Hide' : 'Show'}</span>
+                    </button>
+
+                    {showTuning && (
+                    <div className="mt-4 space-y-4">
+                        <p className="text-xs text-slate-500">
+                            Each trial trains the model with {searchConfig.folds}-fold grouped cross-validation on the current cohort and is ranked on its out-of-fold mean.
+                        </p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Search</label>
+                                <select
+                                    value={searchConfig.method}
+                                    onChange={(e) => setSearchConfig({ ...searchConfig, method: e.target.value as SearchMethod })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    <option value="RANDOM">Random</option>
+                                    <option value="GRID">Grid</option>
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Rank By</label>
+                                <select
+                                    value={searchConfig.metric}
+                                    onChange={(e) => setSearchConfig({ ...searchConfig, metric: e.target.value as TuningMetric })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    <option value="ROC_AUC">ROC AUC</option>
+                                    <option value="RECALL_AT_PRECISION">Recall @ target precision</option>
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Target Precision</label>
+                                <input
+                                    type="number"
+                                    min={0.05}
+                                    max={0.95}
+                                    step={0.05}
+                                    value={searchConfig.targetPrecision}
+                                    disabled={searchConfig.metric !== 'RECALL_AT_PRECISION'}
+                                    onChange={(e) => setSearchConfig({ ...searchConfig, targetPrecision: parseFloat(e.target.value) || searchConfig.targetPrecision })}
+                                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Folds / Max Trials</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min={2}
+                                        max={10}
+                                        value={searchConfig.folds}
+                                        onChange={(e) => setSearchConfig({ ...searchConfig, folds: Math.min(10, Math.max(2, parseInt(e.target.value) || 2)) })}
+                                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={100}
+                                        value={searchConfig.maxTrials}
+                                        onChange={(e) => setSearchConfig({ ...searchConfig, maxTrials: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            {([
+                                { key: 'maxDepth', label: 'Max Depth values' },
+                                { key: 'learningRate', label: 'Learning Rate values' },
+                                { key: 'nEstimators', label: 'Trees values' },
+                            ] as { key: NumericSearchKey; label: string }[]).map(field => (
+                                <div key={field.key} className="space-y-1">
+                                    <label className="block text-xs font-medium text-slate-600">{field.label}</label>
+                                    <input
+                                        type="text"
+                                        value={searchSpaceText[field.key]}
+                                        onChange={(e) => setSearchSpaceText({ ...searchSpaceText, [field.key]: e.target.value })}
+                                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                            <div className="space-y-1">
+                                <label className="block text-xs font-medium text-slate-600">Class Weight</label>
+                                <div className="flex gap-3 py-2">
+                                    {(['NONE', 'CLASS_WEIGHTS'] as ImbalanceStrategy[]).map(strategy => (
+                                        <label key={strategy} className="flex items-center gap-1.5 text-sm text-slate-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={searchConfig.space.imbalanceStrategy.includes(strategy)}
+                                                onChange={() => handleToggleClassWeight(strategy)}
+                                                className="accent-blue-600"
+                                            />
+                                            {strategy === 'NONE' ? 'Off' : 'Balanced'}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-slate-500">
+                                {gridSize} combinations, {trialCount} trial{trialCount === 1 ? '' : 's'} × {searchConfig.folds} folds
+                            </span>
+                            <button
+                                onClick={handleRunSearch}
+                                disabled={!!tuningProgress || gridSize === 0 || cohort.included.length === 0}
+                                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {tuningProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                                {tuningProgress ? `Trial ${tuningProgress.completed + 1} of ${tuningProgress.total}` : 'Run Search'}
+                            </button>
+                        </div>
+
+                        {tuningError && (
+                            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">{tuningError}</div>
+                        )}
+
+                        {trials.length > 0 && tuningSearch && (
+                            <div className="border border-slate-200 rounded-lg overflow-hidden">
+                                <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+                                    <Trophy className="w-4 h-4 text-amber-500" />
+                                    <span className="text-xs font-semibold text-slate-700">Leaderboard: {tuningMetricLabel(tuningSearch)} (mean ± std over {tuningSearch.folds} folds)</span>
+                                </div>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                                            <tr>
+                                                <th className="px-3 py-2 font-medium">#</th>
+                                                <th className="px-3 py-2 font-medium text-right">Depth</th>
+                                                <th className="px-3 py-2 font-medium text-right">LR</th>
+                                                <th className="px-3 py-2 font-medium text-right">Trees</th>
+                                                <th className="px-3 py-2 font-medium">Class Weight</th>
+                                                <th className="px-3 py-2 font-medium text-right">Score</th>
+                                                <th className="px-3 py-2 font-medium text-right">AUC</th>
+                                                <th className="px-3 py-2 font-medium text-right">Recall@P</th>
+                                                <th className="px-3 py-2 font-medium text-right">F1</th>
+                                                <th className="px-3 py-2 font-medium text-right"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {trials.map((trial, rank) => (
+                                                <tr key={trial.id} className={rank === 0 ? 'bg-amber-50/50' : 'hover:bg-slate-50'}>
+                                                    <td className="px-3 py-2 text-slate-500 font-mono text-xs">{rank + 1}</td>
+                                                    <td className="px-3 py-2 text-right text-slate-700">{trial.boostingParams.maxDepth}</td>
+                                                    <td className="px-3 py-2 text-right text-slate-700">{trial.boostingParams.learningRate}</td>
+                                                    <td className="px-3 py-2 text-right text-slate-700">{trial.boostingParams.nEstimators}</td>
+                                                    <td className="px-3 py-2 text-slate-600 text-xs">{trial.imbalanceStrategy === 'CLASS_WEIGHTS' ? 'Balanced' : 'Off'}</td>
+                                                    <td className="px-3 py-2 text-right font-semibold text-slate-800">
+                                                        {trial.score.toFixed(3)} <span className="text-xs font-normal text-slate-400">± {trial.scoreStd.toFixed(3)}</span>
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right text-slate-600">{trial.rocAuc.toFixed(3)}</td>
+                                                    <td className="px-3 py-2 text-right text-slate-600">{trial.recallAtPrecision.toFixed(3)}</td>
+                                                    <td className="px-3 py-2 text-right text-slate-600">{trial.metrics.f1.toFixed(3)}</td>
+                                                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                                                        <button
+                                                            onClick={() => handleApplyTrial(trial)}
+                                                            className="text-xs text-blue-600 hover:underline mr-3"
+                                                        >
+                                                            Use params
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handlePromoteTrial(trial)}
+                                                            disabled={promotedTrialIds.includes(trial.id)}
+                                                            className="text-xs font-medium text-indigo-600 hover:underline disabled:text-emerald-600 disabled:no-underline"
+                                                        >
+                                                            {promotedTrialIds.includes(trial.id) ? 'Saved' : 'Promote'}
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                <p className="px-4 py-2 text-xs text-slate-500 border-t border-slate-100">
+                                    Promote saves the trial as an experiment in this study with its cross-validated metrics. Use params copies it into the run above.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                    )}
+                </div>
+            )}
            </div>
 
            <div className="h-px bg-slate-100" />
@@ -277,6 +761,49 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
                 <Split className="w-4 h-4 text-pink-500" />
                 Validation Strategy
              </h3>
+             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-2xl">
+                <div className="space-y-2 md:col-span-2">
+                    <label className="block text-sm font-medium text-slate-700">Split Strategy</label>
+                    <select
+                        value={splitConfig.strategy}
+                        onChange={(e) => setSplitConfig({ ...splitConfig, strategy: e.target.value as SplitStrategy })}
+                        className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        {splitStrategyOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                    </select>
+                    <p className="text-xs text-slate-500">{splitStrategyOptions.find(o => o.id === splitConfig.strategy)?.description}</p>
+                </div>
+                <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-700">Random Seed</label>
+                    <input
+                        type="number"
+                        value={splitConfig.seed}
+                        onChange={(e) => setSplitConfig({ ...splitConfig, seed: parseInt(e.target.value) || 0 })}
+                        className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <p className="text-xs text-slate-500">Same seed, same split.</p>
+                </div>
+             </div>
+             {splitConfig.strategy === 'GROUPED_KFOLD' ? (
+             <div className="space-y-2 max-w-md">
+                <label className="block text-sm font-medium text-slate-700 flex justify-between">
+                    <span>Folds</span>
+                    <span className="text-blue-600 font-semibold">{splitConfig.folds}</span>
+                </label>
+                <input
+                    type="range"
+                    min="2"
+                    max="10"
+                    step="1"
+                    value={splitConfig.folds}
+                    onChange={(e) => setSplitConfig({ ...splitConfig, folds: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+                <p className="text-xs text-slate-500">
+                    Trained models are fitted once per fold. LLM scoring runs once; folds only partition the evaluation.
+                </p>
+             </div>
+             ) : (
              <div className="space-y-2 max-w-md">
                 <label className="block text-sm font-medium text-slate-700 flex justify-between">
                     <span>Test Set Split (Hold-out)</span>
@@ -299,6 +826,41 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
                     Percentage of data held out for validating model performance accuracy.
                 </p>
              </div>
+             )}
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-2xl">
+                <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-700">Probability Calibration</label>
+                    <select
+                        value={calibration.method}
+                        onChange={(e) => setCalibration({ ...calibration, method: e.target.value as CalibrationMethod })}
+                        className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        <option value="NONE">None (raw model scores)</option>
+                        <option value="PLATT">Platt Scaling (logistic)</option>
+                        <option value="ISOTONIC">Isotonic Regression</option>
+                    </select>
+                    <p className="text-xs text-slate-500">
+                        Maps scores to observed switch rates so a 0.8 means about 80%. Isotonic needs a larger hold-out than Platt.
+                    </p>
+                </div>
+                <div className={`space-y-2 transition-opacity ${calibration.method === 'NONE' ? 'opacity-50' : 'opacity-100'}`}>
+                    <label className="block text-sm font-medium text-slate-700 flex justify-between">
+                        <span>Calibration Hold-out</span>
+                        <span className="text-blue-600 font-semibold">{(calibration.holdoutFraction * 100).toFixed(0)}% of train</span>
+                    </label>
+                    <input
+                        type="range"
+                        min="0.1"
+                        max="0.4"
+                        step="0.05"
+                        value={calibration.holdoutFraction}
+                        disabled={calibration.method === 'NONE'}
+                        onChange={(e) => setCalibration({ ...calibration, holdoutFraction: parseFloat(e.target.value) })}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <p className="text-xs text-slate-500">Training patients set aside to fit the calibrator; the model is not trained on them.</p>
+                </div>
+             </div>
            </div>
 
            <div className="h-px bg-slate-100" />
@@ -376,7 +938,7 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
                  <div className="space-y-1">
                    <p className="text-sm font-medium text-slate-700">Standard Exclusion Rules</p>
                    <p className="text-xs text-slate-500">
-                     Automatically excludes patients with incomplete enrollment data during the defined lookback period.
+                     Requires a matching diagnosis, study drug exposure, the index line of therapy, continuous history over the lookback and enough qualifying claims before the index date.
                    </p>
                  </div>
                </div>
@@ -386,7 +948,8 @@ export const CohortConfigurator: React.FC<CohortConfiguratorProps> = ({ ontology
           <div className="pt-4 flex justify-end">
             <button
               onClick={handleSubmit}
-              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg font-medium transition-colors shadow-sm"
+              disabled={cohort.included.length === 0}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-8 py-3 rounded-lg font-medium transition-colors shadow-sm"
             >
               Run Classification Model
               <ArrowRight className="w-4 h-4" />
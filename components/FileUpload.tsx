@@ -1,9 +1,11 @@
 import React, { useState, useRef } from 'react';
 import { Upload, FileText, Database, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { ColumnKeywords } from '../types';
+import { ColumnKeywords, PatientProfile } from '../types';
+import { buildPatientProfiles, parseClaimsCsv } from '../services/claimsIngestion';
+import { generateSampleClaims } from '../services/sampleData';
 
 interface FileUploadProps {
-  onDataLoaded: (data: any[]) => void;
+  onDataLoaded: (data: PatientProfile[]) => void;
   columnKeywords: ColumnKeywords;
 }
 
@@ -21,31 +23,6 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, columnKeyw
     setIsDragging(false);
   };
 
-  // Helper to find column index loosely
-  const findColumnIndex = (headers: string[], keywords: string[]): number => {
-    const lowerHeaders = headers.map(h => h.toLowerCase().trim().replace(/[^a-z0-9]/g, ''));
-    
-    // 1. Exact match attempt
-    for (const keyword of keywords) {
-      const idx = lowerHeaders.findIndex(h => h === keyword);
-      if (idx !== -1) return idx;
-    }
-    
-    // 2. Starts with match
-    for (const keyword of keywords) {
-      const idx = lowerHeaders.findIndex(h => h.startsWith(keyword));
-      if (idx !== -1) return idx;
-    }
-    
-    // 3. Partial match attempt (includes)
-    for (const keyword of keywords) {
-      const idx = lowerHeaders.findIndex(h => h.includes(keyword));
-      if (idx !== -1) return idx;
-    }
-
-    return -1;
-  };
-
   const processFile = (file: File) => {
     setError(null);
     if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
@@ -56,74 +33,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, columnKeyw
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      const lines = text.split('\n');
-      
-      if (lines.length < 2) {
-        setError("File appears to be empty or missing headers.");
-        return;
-      }
-
-      // Pre-process headers to handle potential BOM or weird encoding
-      const headerLine = lines[0].replace(/^\uFEFF/, ''); 
-      const headers = headerLine.split(',').map(h => h.trim());
-      
-      // Use dynamic keywords from props
-      const idKeywords = columnKeywords.id;
-      const dxKeywords = columnKeywords.diagnosis;
-      const rxKeywords = columnKeywords.prescription;
-      const pxKeywords = columnKeywords.procedure;
-      const dateKeywords = columnKeywords.date;
-
-      const idIndex = findColumnIndex(headers, idKeywords);
-      const dxIndex = findColumnIndex(headers, dxKeywords);
-      
-      // Try to find explicit Drug column, otherwise look for Procedure codes (common in oncology Px)
-      let rxIndex = findColumnIndex(headers, rxKeywords);
-      if (rxIndex === -1) {
-        rxIndex = findColumnIndex(headers, pxKeywords);
+      try {
+        // Claim rows are grouped per patient into longitudinal histories
+        const records = parseClaimsCsv(text, columnKeywords);
+        onDataLoaded(buildPatientProfiles(records));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to parse claims file.");
       }
-
-      const dateIndex = findColumnIndex(headers, dateKeywords);
-
-      const missing = [];
-      if (idIndex === -1) missing.push(`Patient ID (keywords: ${idKeywords.slice(0, 3).join(', ')}...)`);
-      if (dxIndex === -1) missing.push(`Diagnosis (keywords: ${dxKeywords.slice(0, 3).join(', ')}...)`);
-      if (rxIndex === -1) missing.push(`Drug/Procedure (keywords: ${rxKeywords.slice(0, 3).join(', ')}...)`);
-      if (dateIndex === -1) missing.push(`Date (keywords: ${dateKeywords.slice(0, 3).join(', ')}...)`);
-
-      if (missing.length > 0) {
-        setError(`Mapping Error: Could not identify columns for: \n${missing.join('\n')}. \n\nPlease check Admin Settings for allowed column names.`);
-        return;
-      }
-
-      // Robust CSV Parse
-      const parsedData = lines.slice(1)
-        .filter(l => l.trim())
-        .map((line, i) => {
-          const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/^"|"$/g, ''));
-          
-          const maxIdx = Math.max(idIndex, dxIndex, rxIndex, dateIndex);
-          if (values.length <= maxIdx) return null;
-
-          return {
-            id: values[idIndex] || `P-${1000 + i}`,
-            diagnosisCode: values[dxIndex] || 'Unknown',
-            drugId: values[rxIndex] || 'Unknown',
-            lastVisitDate: values[dateIndex] || new Date().toISOString(),
-            
-            // Mocking derived fields for demo purposes 
-            age: Math.floor(Math.random() * (85 - 30) + 30),
-            gender: Math.random() > 0.5 ? 'F' : 'M',
-            currentTherapyLine: Math.random() > 0.7 ? 2 : 1,
-            monthsOnCurrentTherapy: Math.floor(Math.random() * 24),
-            npiSpecialty: 'Oncology',
-            doctorName: 'External Provider',
-            npiId: '9999999999'
-          };
-        })
-        .filter(item => item !== null); 
-
-      onDataLoaded(parsedData);
     };
     reader.onerror = () => setError("Failed to read file.");
     reader.readAsText(file);
@@ -145,33 +61,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, columnKeyw
 
   const loadSampleData = () => {
     setError(null);
-    const doctors = [
-      { name: "Dr. Sarah Chen", npi: "1457890123" },
-      { name: "Dr. Michael Ross", npi: "1890234567" },
-      { name: "Dr. Emily Wei", npi: "1678901234" },
-      { name: "Dr. James Wilson", npi: "1234567890" },
-      { name: "Dr. Lisa Patel", npi: "1567890123" }
-    ];
-
-    const mockData = Array.from({ length: 200 }).map((_, i) => {
-      const doc = doctors[Math.floor(Math.random() * doctors.length)];
-      const line = Math.random() > 0.8 ? 2 : (Math.random() > 0.9 ? 3 : 1); 
-      
-      return {
-        id: `P-${1000 + i}`,
-        age: Math.floor(Math.random() * (85 - 30) + 30),
-        gender: Math.random() > 0.5 ? 'F' : 'M',
-        diagnosisCode: 'C50.911',
-        currentTherapyLine: line,
-        monthsOnCurrentTherapy: Math.floor(Math.random() * 24),
-        lastVisitDate: new Date(Date.now() - Math.floor(Math.random() * 10000000000)).toISOString().split('T')[0],
-        npiSpecialty: Math.random() > 0.3 ? 'Oncology' : 'Internal Medicine',
-        drugId: Math.random() > 0.5 ? 'Tamoxifen' : 'Letrozole',
-        doctorName: doc.name,
-        npiId: doc.npi
-      };
-    });
-    onDataLoaded(mockData);
+    onDataLoaded(buildPatientProfiles(generateSampleClaims()));
   };
 
   return (
@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { HcpRankMetric, HcpTier, HcpTieringConfig, PatientProfile } from '../types';
+import { Stethoscope, Search } from 'lucide-react';
+import { summarizeHcps } from '../services/hcpTargeting';
+
+interface HcpTargetingPanelProps {
+  patients: PatientProfile[];
+  threshold: number;
+  tiering: HcpTieringConfig;
+  onTieringChange: (tiering: HcpTieringConfig) => void;
+}
+
+const RANK_OPTIONS: { id: HcpRankMetric; label: string }[] = [
+  { id: 'EXPECTED_TRANSITIONS', label: 'Expected transitions' },
+  { id: 'HIGH_RISK_COUNT', label: 'High-risk patients' },
+  { id: 'PATIENT_COUNT', label: 'Patient volume' },
+];
+
+const TIER_STYLES: Record<HcpTier, string> = {
+  A: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  B: 'bg-blue-100 text-blue-700 border-blue-200',
+  C: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+export const HcpTargetingPanel: React.FC<HcpTargetingPanelProps> = ({ patients, threshold, tiering, onTieringChange }) => {
+  const [search, setSearch] = useState('');
+  const [tierFilter, setTierFilter] = useState<HcpTier | 'ALL'>('ALL');
+
+  const hcps = useMemo(() => summarizeHcps(patients, threshold, tiering), [patients, threshold, tiering]);
+  const totalExpected = hcps.reduce((acc, h) => acc + h.expectedTransitions, 0);
+
+  const tierSummary = (['A', 'B', 'C'] as HcpTier[]).map(tier => {
+    const members = hcps.filter(h => h.tier === tier);
+    const expected = members.reduce((acc, h) => acc + h.expectedTransitions, 0);
+    return {
+      tier,
+      hcps: members.length,
+      patients: members.reduce((acc, h) => acc + h.patientCount, 0),
+      highRisk: members.reduce((acc, h) => acc + h.highRiskCount, 0),
+      expected,
+      share: totalExpected > 0 ? expected / totalExpected : 0,
+    };
+  });
+
+  const query = search.trim().toLowerCase();
+  const shown = hcps.filter(h =>
+    (tierFilter === 'ALL' || h.tier === tierFilter)
+    && (!query || [h.npiId, h.doctorName, h.npiSpecialty].join(' ').toLowerCase().includes(query)));
+
+  const tierLabel = (tier: HcpTier) =>
+    tier === 'A' ? `Deciles 1–${tiering.tierADeciles}`
+      : tier === 'B' ? `Deciles ${tiering.tierADeciles + 1}–${tiering.tierBDeciles}`
+        : `Deciles ${tiering.tierBDeciles + 1}–10`;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-right-2">
+      {/* Tiering Controls */}
+      <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <Stethoscope className="w-5 h-5 text-blue-600" />
+            <h3 className="text-sm font-semibold text-slate-800">Prescriber Ranking</h3>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {hcps.length} prescribers. Expected transitions = sum of patient probabilities; high risk = score ≥ {threshold.toFixed(2)}.
+          </p>
+        </div>
+        <label className="text-xs text-slate-600 space-y-1">
+          <span className="block font-medium">Rank by</span>
+          <select
+            value={tiering.rankBy}
+            onChange={(e) => onTieringChange({ ...tiering, rankBy: e.target.value as HcpRankMetric })}
+            className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {RANK_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-slate-600 space-y-1">
+          <span className="block font-medium">Tier A: top deciles</span>
+          <input
+            type="number"
+            min={1}
+            max={tiering.tierBDeciles}
+            value={tiering.tierADeciles}
+            onChange={(e) => onTieringChange({ ...tiering, tierADeciles: Math.min(tiering.tierBDeciles, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className="w-24 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </label>
+        <label className="text-xs text-slate-600 space-y-1">
+          <span className="block font-medium">Tier B: through decile</span>
+          <input
+            type="number"
+            min={tiering.tierADeciles}
+            max={10}
+            value={tiering.tierBDeciles}
+            onChange={(e) => onTieringChange({ ...tiering, tierBDeciles: Math.min(10, Math.max(tiering.tierADeciles, parseInt(e.target.value) || tiering.tierADeciles)) })}
+            className="w-24 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </label>
+      </div>
+
+      {/* Tier Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {tierSummary.map(t => (
+          <button
+            key={t.tier}
+            onClick={() => setTierFilter(tierFilter === t.tier ? 'ALL' : t.tier)}
+            className={`text-left bg-white p-5 rounded-xl border shadow-sm transition-colors ${tierFilter === t.tier ? 'border-blue-400 ring-2 ring-blue-100' : 'border-slate-100 hover:border-slate-200'}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className={`px-2 py-0.5 text-xs font-bold rounded border ${TIER_STYLES[t.tier]}`}>Tier {t.tier}</span>
+              <span className="text-xs text-slate-400">{tierLabel(t.tier)}</span>
+            </div>
+            <div className="text-2xl font-bold text-slate-800">{t.hcps} <span className="text-sm font-normal text-slate-400">HCPs</span></div>
+            <div className="text-xs text-slate-500 mt-1">
+              {t.patients} patients · {t.highRisk} high risk · {t.expected.toFixed(1)} expected transitions ({(t.share * 100).toFixed(0)}%)
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* HCP Table */}
+      <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center gap-3">
+          <h3 className="text-sm font-semibold text-slate-800">
+            Prescribers {tierFilter !== 'ALL' && `· Tier ${tierFilter}`} <span className="font-normal text-slate-400">({shown.length})</span>
+          </h3>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search NPI, name, specialty…"
+              className="pl-9 pr-3 py-1.5 w-60 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+        </div>
+        <div className="overflow-auto max-h-[520px]">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-medium text-right">Rank</th>
+                <th className="px-4 py-2 font-medium text-left">Prescriber</th>
+                <th className="px-4 py-2 font-medium text-left">Specialty</th>
+                <th className="px-4 py-2 font-medium text-right">Patients</th>
+                <th className="px-4 py-2 font-medium text-right">High Risk</th>
+                <th className="px-4 py-2 font-medium text-right">Expected Transitions</th>
+                <th className="px-4 py-2 font-medium text-right">Avg Months on Tx</th>
+                <th className="px-4 py-2 font-medium text-right">Decile</th>
+                <th className="px-4 py-2 font-medium text-left">Tier</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {shown.map(h => (
+                <tr key={h.npiId} className="hover:bg-slate-50 text-slate-600">
+                  <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">{h.rank}</td>
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-slate-800">{h.doctorName}</div>
+                    <div className="text-xs text-slate-400">{h.npiId}</div>
+                  </td>
+                  <td className="px-4 py-2">{h.npiSpecialty}</td>
+                  <td className="px-4 py-2 text-right">{h.patientCount}</td>
+                  <td className="px-4 py-2 text-right font-semibold text-slate-800">{h.highRiskCount}</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs">{h.expectedTransitions.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right">{h.avgMonthsOnTherapy.toFixed(1)}</td>
+                  <td className="px-4 py-2 text-right text-slate-400">{h.decile}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 text-xs font-bold rounded border ${TIER_STYLES[h.tier]}`}>{h.tier}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {shown.length === 0 && <p className="px-6 py-8 text-center text-sm text-slate-400">No prescribers match.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
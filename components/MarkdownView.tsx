@@ -0,0 +1,75 @@
+import React from 'react';
+import { parseMarkdownBlocks, parseInline } from '../services/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+}
+
+const HEADING_STYLES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium'];
+
+const Inline: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseInline(text).map((span, i) => {
+      switch (span.type) {
+        case 'bold':
+          return <strong key={i} className="font-semibold text-slate-900">{span.text}</strong>;
+        case 'italic':
+          return <em key={i}>{span.text}</em>;
+        case 'code':
+          return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 font-mono text-[0.85em]">{span.text}</code>;
+        default:
+          return <React.Fragment key={i}>{span.text}</React.Fragment>;
+      }
+    })}
+  </>
+);
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ text }) => (
+  <div className="space-y-2 text-sm text-slate-800 leading-relaxed">
+    {parseMarkdownBlocks(text).map((block, i) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <p key={i} className={`${HEADING_STYLES[Math.min(block.level, HEADING_STYLES.length) - 1]} text-slate-900`}>
+              <Inline text={block.text} />
+            </p>
+          );
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}><Inline text={item} /></li>)}
+            </List>
+          );
+        }
+        case 'table':
+          return (
+            <div key={i} className="overflow-x-auto border border-slate-100 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    {block.header.map((cell, j) => (
+                      <th key={j} className="px-3 py-1.5 font-medium" style={{ textAlign: block.align[j] || 'left' }}><Inline text={cell} /></th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {block.rows.map((row, r) => (
+                    <tr key={r}>
+                      {block.header.map((_, j) => (
+                        <td key={j} className="px-3 py-1.5 text-slate-700" style={{ textAlign: block.align[j] || 'left' }}><Inline text={row[j] ?? ''} /></td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'code':
+          return <pre key={i} className="p-3 rounded-lg bg-slate-50 font-mono text-xs text-slate-700 overflow-x-auto">{block.text}</pre>;
+        default:
+          return <p key={i}><Inline text={block.text} /></p>;
+      }
+    })}
+  </div>
+);
@@ -0,0 +1,55 @@
+import React from 'react';
+import { PatientExplanation } from '../types';
+
+interface PatientExplanationViewProps {
+  explanation: PatientExplanation;
+  maxFactors?: number;
+}
+
+// Signed contribution bars for one patient: red raises the score, green lowers it
+export const PatientExplanationView: React.FC<PatientExplanationViewProps> = ({ explanation, maxFactors = 6 }) => {
+  const shown = explanation.contributions.slice(0, maxFactors);
+  const maxMagnitude = Math.max(...shown.map(c => Math.abs(c.contribution)));
+
+  return (
+    <div>
+      {explanation.target && (
+        <p className="text-xs font-medium text-slate-600 mb-2">Why {explanation.target} is the most likely next therapy:</p>
+      )}
+      {explanation.rationale && (
+        <p className="text-sm text-slate-700 mb-3 italic">"{explanation.rationale}"</p>
+      )}
+      {shown.length === 0 ? (
+        <p className="text-xs text-slate-500">No individual factors were reported for this patient.</p>
+      ) : (
+        <div className="space-y-1.5 max-w-2xl">
+          {shown.map(c => (
+            <div key={c.feature} className="flex items-center gap-3 text-xs">
+              <span className="w-56 truncate text-slate-600" title={c.label}>
+                {c.label}{c.value !== undefined && <span className="text-slate-400"> = {Number.isInteger(c.value) ? c.value : c.value.toFixed(2)}</span>}
+              </span>
+              <div className="flex-1 flex">
+                <div className="w-1/2 flex justify-end">
+                  {c.contribution < 0 && <div className="h-2 bg-emerald-400 rounded-l" style={{ width: `${(Math.abs(c.contribution) / maxMagnitude) * 100}%` }} />}
+                </div>
+                <div className="w-1/2 border-l border-slate-300">
+                  {c.contribution > 0 && <div className="h-2 bg-red-400 rounded-r" style={{ width: `${(c.contribution / maxMagnitude) * 100}%` }} />}
+                </div>
+              </div>
+              <span className={`w-14 text-right font-mono ${c.contribution > 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                {c.contribution > 0 ? '+' : ''}{c.contribution.toFixed(2)}
+              </span>
+            </div>
+          ))}
+          <p className="text-[11px] text-slate-400 pt-1">
+            {explanation.method === 'TREE_CONTRIBUTIONS'
+              ? `Log-odds contributions to the raw model score, from a baseline of ${explanation.baseValue?.toFixed(2)}. Red raises risk, green lowers it.`
+              : explanation.method === 'COX_LOG_HAZARD'
+                ? 'Log-hazard contributions relative to the average patient. Red means an earlier transition, green a later one.'
+                : 'Factor weights reported by the LLM. Red raises risk, green lowers it.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
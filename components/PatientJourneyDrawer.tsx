@@ -0,0 +1,224 @@
+import React, { useMemo } from 'react';
+import { PatientProfile } from '../types';
+import { X, User, Stethoscope, Pill, Syringe, FileText, Flag } from 'lucide-react';
+import { buildPatientJourney, toTimelinePercent, JourneyPhase } from '../services/patientJourney';
+import { hasObservedOutcome } from '../services/outcomeLabeling';
+import { PatientExplanationView } from './PatientExplanationView';
+
+interface PatientJourneyDrawerProps {
+  patient: PatientProfile;
+  lookbackMonths?: number;
+  onClose: () => void;
+}
+
+const LINE_COLORS = ['bg-blue-500', 'bg-violet-500', 'bg-amber-500', 'bg-pink-500', 'bg-teal-500'];
+
+const CLAIM_LANES: { type: 'DX' | 'RX' | 'PX'; label: string; color: string }[] = [
+  { type: 'DX', label: 'Dx', color: 'bg-slate-500' },
+  { type: 'RX', label: 'Rx', color: 'bg-blue-600' },
+  { type: 'PX', label: 'Px', color: 'bg-emerald-600' },
+];
+
+const PHASE_LABELS: Record<JourneyPhase, { label: string; className: string }> = {
+  BEFORE_LOOKBACK: { label: 'Before lookback', className: 'text-slate-400' },
+  LOOKBACK: { label: 'Lookback', className: 'text-indigo-600' },
+  PREDICTION_WINDOW: { label: 'Prediction window', className: 'text-amber-600' },
+  AFTER_WINDOW: { label: 'After window', className: 'text-slate-400' },
+};
+
+const CLAIM_ICONS = { DX: Stethoscope, RX: Pill, PX: Syringe };
+
+export const PatientJourneyDrawer: React.FC<PatientJourneyDrawerProps> = ({ patient, lookbackMonths, onClose }) => {
+  const journey = useMemo(() => buildPatientJourney(patient, lookbackMonths), [patient, lookbackMonths]);
+  const label = patient.outcomeLabel;
+  const pct = (date: string) => toTimelinePercent(journey, date);
+
+  const outcomeText = !label
+    ? 'Not labeled'
+    : !hasObservedOutcome(patient)
+      ? 'Censored: follow-up ended before the window closed'
+      : patient.actualOutcome
+        ? `Transitioned to line ${label.toLine} on ${label.triggerDate}`
+        : `Stayed on line ${label.fromLine} through ${label.windowEndDate}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <div className="relative w-full max-w-3xl h-full bg-white shadow-2xl overflow-y-auto animate-in slide-in-from-right duration-300">
+        {/* Header */}
+        <div className="sticky top-0 z-10 px-6 py-4 bg-white border-b border-slate-100 flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 rounded-lg">
+              <User className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">{patient.id}</h2>
+              <p className="text-xs text-slate-500">
+                {patient.age ?? '—'} / {patient.gender} · {patient.doctorName} ({patient.npiSpecialty}, NPI {patient.npiId})
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Score & Outcome */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 rounded-lg border border-slate-100 bg-slate-50">
+              <p className="text-xs font-medium text-slate-500">Transition Probability</p>
+              <p className="text-2xl font-bold text-slate-800">{((patient.riskScore || 0) * 100).toFixed(1)}%</p>
+              <p className="text-xs text-slate-500">
+                {patient.riskCategory} risk{patient.split && ` · ${patient.split}`}
+                {patient.rawRiskScore !== undefined && ` · raw ${(patient.rawRiskScore * 100).toFixed(1)}%`}
+              </p>
+            </div>
+            <div className="p-4 rounded-lg border border-slate-100 bg-slate-50">
+              <p className="text-xs font-medium text-slate-500">Actual Outcome</p>
+              <p className={`text-sm font-semibold mt-1 ${patient.actualOutcome ? 'text-red-600' : 'text-slate-800'}`}>{outcomeText}</p>
+              {label?.triggerCode && <p className="text-xs text-slate-500 mt-1">Trigger claim: {label.triggerCode}</p>}
+            </div>
+            <div className="p-4 rounded-lg border border-slate-100 bg-slate-50">
+              {patient.transitionForecast ? (
+                <>
+                  <p className="text-xs font-medium text-slate-500">Forecast</p>
+                  <div className="flex gap-3 mt-1">
+                    {patient.transitionForecast.map(f => (
+                      <div key={f.horizonMonths}>
+                        <p className="text-sm font-bold text-slate-800">{(f.probability * 100).toFixed(0)}%</p>
+                        <p className="text-[10px] text-slate-500">by {f.horizonMonths}m</p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : patient.predictedNextTherapy ? (
+                <>
+                  <p className="text-xs font-medium text-slate-500">Likely Next Therapy</p>
+                  <p className="text-sm font-semibold text-slate-800 mt-1">{patient.predictedNextTherapy}</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-xs font-medium text-slate-500">Index</p>
+                  <p className="text-sm font-semibold text-slate-800 mt-1">
+                    {label ? `Line ${label.fromLine} from ${label.indexDate}` : `Line ${patient.currentTherapyLine}`}
+                  </p>
+                  {label && <p className="text-xs text-slate-500">{label.indexRegimen.join(' + ')}</p>}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-800 mb-1">Journey Timeline</h3>
+            <p className="text-xs text-slate-500 mb-3">
+              {journey.startDate} to {journey.endDate}.
+              {journey.lookbackStartDate && ' Indigo = lookback,'}
+              {journey.windowEndDate && ' amber = prediction window,'} line = index date.
+            </p>
+            <div className="relative border border-slate-100 rounded-lg p-3 pl-14 space-y-2 bg-white">
+              {/* Window shading */}
+              <div className="absolute inset-y-0 left-14 right-3 pointer-events-none">
+                {journey.lookbackStartDate && journey.indexDate && (
+                  <div
+                    className="absolute inset-y-0 bg-indigo-50"
+                    style={{ left: `${pct(journey.lookbackStartDate)}%`, width: `${pct(journey.indexDate) - pct(journey.lookbackStartDate)}%` }}
+                  />
+                )}
+                {journey.indexDate && journey.windowEndDate && (
+                  <div
+                    className="absolute inset-y-0 bg-amber-50"
+                    style={{ left: `${pct(journey.indexDate)}%`, width: `${pct(journey.windowEndDate) - pct(journey.indexDate)}%` }}
+                  />
+                )}
+                {journey.indexDate && (
+                  <div className="absolute inset-y-0 border-l-2 border-slate-700" style={{ left: `${pct(journey.indexDate)}%` }} />
+                )}
+              </div>
+
+              {/* Therapy lines */}
+              {journey.lines.map((line, i) => (
+                <div key={line.lineNumber} className="relative h-6">
+                  <span className="absolute -left-11 top-1 text-[10px] font-medium text-slate-500">L{line.lineNumber}</span>
+                  <div
+                    className={`absolute top-0 h-6 rounded ${LINE_COLORS[i % LINE_COLORS.length]} text-white text-[10px] px-1.5 flex items-center overflow-hidden whitespace-nowrap`}
+                    style={{
+                      left: `${pct(line.startDate)}%`,
+                      width: `${Math.max(1, pct(line.endDate ?? line.lastClaimDate) - pct(line.startDate))}%`,
+                    }}
+                    title={`Line ${line.lineNumber}: ${line.regimen.join(' + ')} (${line.startDate} – ${line.endDate ?? 'ongoing'}, ${line.endReason.toLowerCase()})`}
+                  >
+                    {line.regimen.join(' + ')}
+                  </div>
+                </div>
+              ))}
+
+              {/* Claim lanes */}
+              {CLAIM_LANES.map(lane => (
+                <div key={lane.type} className="relative h-4">
+                  <span className="absolute -left-11 top-0 text-[10px] font-medium text-slate-500">{lane.label}</span>
+                  {journey.events.filter(e => e.type === lane.type).map(e => (
+                    <div
+                      key={`${e.claimId}-${e.type}-${e.code}`}
+                      className={`absolute top-0.5 w-1.5 h-3 -ml-0.5 rounded-sm ${e.isTrigger ? 'bg-red-500 ring-2 ring-red-200' : lane.color}`}
+                      style={{ left: `${pct(e.date)}%` }}
+                      title={`${e.date} ${e.type} ${e.code}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Explanation */}
+          {patient.explanation && (
+            <div>
+              <h3 className="text-sm font-semibold text-slate-800 mb-3">Why this score</h3>
+              <PatientExplanationView explanation={patient.explanation} maxFactors={8} />
+            </div>
+          )}
+
+          {/* Claims */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+              <FileText className="w-4 h-4 text-slate-500" /> Claims ({journey.events.length})
+            </h3>
+            <div className="border border-slate-100 rounded-lg overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                  <tr>
+                    <th className="px-3 py-2 font-medium text-left">Date</th>
+                    <th className="px-3 py-2 font-medium text-left">Type</th>
+                    <th className="px-3 py-2 font-medium text-left">Code</th>
+                    <th className="px-3 py-2 font-medium text-left">Line</th>
+                    <th className="px-3 py-2 font-medium text-left">Window</th>
+                    <th className="px-3 py-2 font-medium text-left">Provider</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {journey.events.map(e => {
+                    const Icon = CLAIM_ICONS[e.type];
+                    return (
+                      <tr key={`${e.claimId}-${e.type}-${e.code}`} className={e.isTrigger ? 'bg-red-50' : e.date === journey.indexDate ? 'bg-slate-50' : ''}>
+                        <td className="px-3 py-1.5 font-mono text-slate-600">{e.date}</td>
+                        <td className="px-3 py-1.5 text-slate-600"><span className="inline-flex items-center gap-1"><Icon className="w-3 h-3" /> {e.type}</span></td>
+                        <td className="px-3 py-1.5 text-slate-800 font-medium">
+                          {e.code}
+                          {e.isTrigger && <span className="ml-2 inline-flex items-center gap-0.5 text-red-600"><Flag className="w-3 h-3" /> next line</span>}
+                        </td>
+                        <td className="px-3 py-1.5 text-slate-600">{e.lineNumber !== undefined ? `L${e.lineNumber}` : ''}</td>
+                        <td className={`px-3 py-1.5 ${e.phase ? PHASE_LABELS[e.phase].className : ''}`}>{e.phase ? PHASE_LABELS[e.phase].label : ''}</td>
+                        <td className="px-3 py-1.5 text-slate-500">{e.doctorName || e.npiId || ''}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,383 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { PatientProfile, RiskCategory } from '../types';
+import { Search, Columns, Download, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, X, Sparkles } from 'lucide-react';
+import {
+  RESULTS_COLUMNS, DEFAULT_VISIBLE_COLUMNS, EMPTY_RESULTS_FILTERS, ResultsColumnId, ResultsFilters,
+  filterResults, sortResults, toResultsCsv
+} from '../services/resultsGrid';
+import { PatientExplanationView } from './PatientExplanationView';
+
+interface PatientResultsGridProps {
+  patients: PatientProfile[]; // Already categorized at the current threshold
+  hasForecast: boolean;
+  hasNextTherapy: boolean;
+  onSelectPatient?: (patient: PatientProfile) => void;
+  rowSelection?: { ids: string[]; label: string } | null; // e.g. the patients behind an analyst answer
+  onClearRowSelection?: () => void;
+}
+
+// Rows are a fixed height so only the ones in view are rendered
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 8;
+const PAGE_SIZES = [100, 250, 1000];
+
+const RISK_BADGE: Record<RiskCategory, string> = {
+  High: 'bg-red-100 text-red-700',
+  Medium: 'bg-orange-100 text-orange-700',
+  Low: 'bg-emerald-100 text-emerald-700',
+};
+
+export const PatientResultsGrid: React.FC<PatientResultsGridProps> = ({
+  patients, hasForecast, hasNextTherapy, onSelectPatient, rowSelection, onClearRowSelection
+}) => {
+  const [filters, setFilters] = useState<ResultsFilters>({ ...EMPTY_RESULTS_FILTERS });
+  const [sort, setSort] = useState<{ column: ResultsColumnId; direction: 'asc' | 'desc' }>({ column: 'riskScore', direction: 'desc' });
+  const [visibleColumns, setVisibleColumns] = useState<ResultsColumnId[]>(() => [
+    ...DEFAULT_VISIBLE_COLUMNS,
+    ...(hasForecast ? ['forecast' as const] : []),
+    ...(hasNextTherapy ? ['predictedNextTherapy' as const] : []),
+  ]);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [page, setPage] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [explainedPatientId, setExplainedPatientId] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const drugOptions = useMemo(() => Array.from(new Set(patients.map(p => p.drugId))).sort(), [patients]);
+  const specialtyOptions = useMemo(() => Array.from(new Set(patients.map(p => p.npiSpecialty))).sort(), [patients]);
+
+  const scoped = useMemo(() => {
+    if (!rowSelection) return patients;
+    const ids = new Set(rowSelection.ids);
+    return patients.filter(p => ids.has(p.id));
+  }, [patients, rowSelection]);
+  const rows = useMemo(
+    () => sortResults(filterResults(scoped, filters), sort.column, sort.direction),
+    [scoped, filters, sort]
+  );
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const renderedRows = pageRows.slice(firstRow, lastRow);
+
+  const columns = RESULTS_COLUMNS.filter(c => visibleColumns.includes(c.id));
+  const explainedPatient = explainedPatientId ? patients.find(p => p.id === explainedPatientId) : undefined;
+
+  const resetScroll = () => {
+    setPage(0);
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  };
+
+  useEffect(resetScroll, [rowSelection]);
+
+  const updateFilters = (next: Partial<ResultsFilters>) => {
+    setFilters(prev => ({ ...prev, ...next }));
+    resetScroll();
+  };
+
+  const toggleInList = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleSort = (column: ResultsColumnId) => {
+    setSort(prev => ({ column, direction: prev.column === column && prev.direction === 'desc' ? 'asc' : 'desc' }));
+  };
+
+  const handlePageChange = (next: number) => {
+    setPage(next);
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  };
+
+  // Every filtered row in the current sort order and visible columns, not just this page
+  const handleExport = () => {
+    const csv = toResultsCsv(rows, columns.map(c => c.id));
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `patient-results-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderCell = (patient: PatientProfile, columnId: ResultsColumnId) => {
+    switch (columnId) {
+      case 'id':
+        return <span className="font-medium text-slate-900">{patient.id}</span>;
+      case 'riskScore':
+        return <span className="font-semibold text-slate-800">{((patient.riskScore || 0) * 100).toFixed(1)}%</span>;
+      case 'riskCategory':
+        return patient.riskCategory && (
+          <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${RISK_BADGE[patient.riskCategory]}`}>
+            {patient.riskCategory}
+          </span>
+        );
+      case 'predictedNextTherapy':
+        return patient.predictedNextTherapy ? (
+          <span className="text-slate-700">
+            {patient.predictedNextTherapy}{' '}
+            <span className="text-xs text-slate-400">
+              {((patient.nextTherapyProbabilities?.find(t => t.therapy === patient.predictedNextTherapy)?.probability || 0) * 100).toFixed(0)}%
+            </span>
+          </span>
+        ) : '—';
+      case 'forecast':
+        return <span className="font-mono text-xs">{(patient.transitionForecast || []).map(f => `${Math.round(f.probability * 100)}%`).join(' / ') || '—'}</span>;
+      default: {
+        const value = RESULTS_COLUMNS.find(c => c.id === columnId)!.value(patient);
+        return value ?? '—';
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Patient Results</h3>
+          <span className="text-xs text-slate-500">{rows.length} of {patients.length} scored patients{onSelectPatient && ' · click a row for the patient journey'}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              placeholder="Search ID, provider, NPI, drug…"
+              className="pl-9 pr-3 py-2 w-64 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <Columns className="w-4 h-4" /> Columns
+            </button>
+            {showColumnMenu && (
+              <div className="absolute right-0 mt-1 w-56 bg-white border border-slate-200 rounded-lg shadow-lg z-20 p-2 max-h-80 overflow-y-auto">
+                {RESULTS_COLUMNS.map(column => (
+                  <label key={column.id} className="flex items-center gap-2 px-2 py-1 text-sm text-slate-700 hover:bg-slate-50 rounded">
+                    <input
+                      type="checkbox"
+                      checked={visibleColumns.includes(column.id)}
+                      disabled={column.id === 'id'}
+                      onChange={() => setVisibleColumns(toggleInList(visibleColumns, column.id))}
+                      className="accent-blue-600"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> Export View
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-3 text-xs text-slate-600">
+        {rowSelection && (
+          <span className="flex items-center gap-1 px-2 py-1 rounded border border-indigo-200 bg-indigo-50 text-indigo-700">
+            <Sparkles className="w-3 h-3" /> {rowSelection.label} ({rowSelection.ids.length})
+            {onClearRowSelection && (
+              <button onClick={onClearRowSelection} className="ml-1 hover:text-indigo-900">
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        )}
+        <div className="flex items-center gap-1">
+          {(['High', 'Medium', 'Low'] as RiskCategory[]).map(category => (
+            <button
+              key={category}
+              onClick={() => updateFilters({ riskCategories: toggleInList(filters.riskCategories, category) })}
+              className={`px-2 py-1 rounded border ${filters.riskCategories.includes(category) ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-500'}`}
+            >
+              {category}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {(['TRAIN', 'TEST'] as const).map(split => (
+            <button
+              key={split}
+              onClick={() => updateFilters({ splits: toggleInList(filters.splits, split) })}
+              className={`px-2 py-1 rounded border ${filters.splits.includes(split) ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-500'}`}
+            >
+              {split}
+            </button>
+          ))}
+        </div>
+        <select
+          value={filters.drugId}
+          onChange={(e) => updateFilters({ drugId: e.target.value })}
+          className="px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+        >
+          <option value="">All drugs</option>
+          {drugOptions.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select
+          value={filters.npiSpecialty}
+          onChange={(e) => updateFilters({ npiSpecialty: e.target.value })}
+          className="px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+        >
+          <option value="">All specialties</option>
+          {specialtyOptions.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input
+          type="text"
+          value={filters.npiId}
+          onChange={(e) => updateFilters({ npiId: e.target.value })}
+          placeholder="NPI"
+          className="w-28 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+        />
+        <label className="flex items-center gap-1">
+          Score
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={filters.minScore}
+            onChange={(e) => updateFilters({ minScore: parseFloat(e.target.value) || 0 })}
+            className="w-16 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+          />
+          –
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={filters.maxScore}
+            onChange={(e) => updateFilters({ maxScore: e.target.value === '' ? 1 : parseFloat(e.target.value) })}
+            className="w-16 px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+          />
+        </label>
+        <button
+          onClick={() => {
+            updateFilters({ ...EMPTY_RESULTS_FILTERS });
+            onClearRowSelection?.();
+          }}
+          className="flex items-center gap-1 text-blue-600 hover:underline"
+        >
+          <X className="w-3 h-3" /> Clear
+        </button>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100 sticky top-0 z-10">
+            <tr>
+              {columns.map(column => (
+                <th key={column.id} className={`px-4 py-3 font-medium whitespace-nowrap ${column.numeric ? 'text-right' : ''}`}>
+                  <button onClick={() => handleSort(column.id)} className="inline-flex items-center gap-1 uppercase hover:text-slate-800">
+                    {column.label}
+                    {sort.column === column.id && (sort.direction === 'desc' ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-3 font-medium text-right">Why</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {renderedRows.map(patient => (
+              <tr
+                key={patient.id}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onSelectPatient?.(patient)}
+                className={`transition-colors ${onSelectPatient ? 'cursor-pointer ' : ''}${explainedPatientId === patient.id ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}
+              >
+                {columns.map(column => (
+                  <td key={column.id} className={`px-4 py-2 whitespace-nowrap text-slate-600 ${column.numeric ? 'text-right' : ''}`}>
+                    {renderCell(patient, column.id)}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right">
+                  {patient.explanation && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setExplainedPatientId(explainedPatientId === patient.id ? null : patient.id); }}
+                      className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {explainedPatientId === patient.id ? 'Hide' : 'Why'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {lastRow < pageRows.length && <tr style={{ height: (pageRows.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="px-6 py-8 text-center text-sm text-slate-400">No patients match the current filters.</p>
+        )}
+      </div>
+
+      {/* Paging */}
+      <div className="px-6 py-3 border-t border-slate-100 bg-slate-50 flex items-center justify-between text-xs text-slate-600">
+        <label className="flex items-center gap-2">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => { setPageSize(parseInt(e.target.value)); resetScroll(); }}
+            className="px-2 py-1 bg-white border border-slate-200 rounded text-xs outline-none"
+          >
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-3">
+          <span>
+            {rows.length === 0 ? 0 : currentPage * pageSize + 1}–{Math.min(rows.length, (currentPage + 1) * pageSize)} of {rows.length}
+          </span>
+          <button
+            onClick={() => handlePageChange(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="p-1 rounded hover:bg-slate-200 disabled:opacity-40"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => handlePageChange(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="p-1 rounded hover:bg-slate-200 disabled:opacity-40"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {explainedPatient?.explanation && (
+        <div className="px-6 py-4 border-t border-slate-100 bg-slate-50/70">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm font-semibold text-slate-800">
+              {explainedPatient.id} · {((explainedPatient.riskScore || 0) * 100).toFixed(1)}% transition probability
+            </p>
+            <button onClick={() => setExplainedPatientId(null)} className="text-slate-400 hover:text-slate-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <PatientExplanationView explanation={explainedPatient.explanation} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,28 +1,40 @@
 import React, { useState } from 'react';
-import { Cloud, Share2, Server, Download, X, Check } from 'lucide-react';
-import { PublishConfig, PublishDestination } from '../types';
+import { Cloud, Share2, Server, Download, X, Check, Users, Stethoscope } from 'lucide-react';
+import { HcpTier, HcpTieringConfig, PublishConfig, PublishDestination, PublishLevel } from '../types';
 
 interface PublishDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onPublish: (config: PublishConfig) => void;
   targetCount: number;
+  threshold: number;
+  cutoffDecile?: number; // Set when the target list was sized from the decile table
+  hcpTiering: HcpTieringConfig;
+  hcpTierCounts: Record<HcpTier, number>;
 }
 
-export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onClose, onPublish, targetCount }) => {
+export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onClose, onPublish, targetCount, threshold, cutoffDecile, hcpTiering, hcpTierCounts }) => {
   const [destination, setDestination] = useState<PublishDestination>('S3');
   const [path, setPath] = useState('');
   const [format, setFormat] = useState<'CSV' | 'JSON' | 'PARQUET'>('CSV');
   const [isPublishing, setIsPublishing] = useState(false);
+  const [level, setLevel] = useState<PublishLevel>('PATIENT');
+  const [hcpTiers, setHcpTiers] = useState<HcpTier[]>(['A']);
 
   if (!isOpen) return null;
 
+  const hcpCount = hcpTiers.reduce((acc, tier) => acc + hcpTierCounts[tier], 0);
+  const toggleTier = (tier: HcpTier) =>
+    setHcpTiers(hcpTiers.includes(tier) ? hcpTiers.filter(t => t !== tier) : [...hcpTiers, tier].sort());
+
   const handlePublish = () => {
     setIsPublishing(true);
     // Simulate API call
     setTimeout(() => {
         setIsPublishing(false);
-        onPublish({ destination, path, format });
+        onPublish(level === 'HCP'
+          ? { destination, path, format, threshold, level, hcpTiers, hcpTiering }
+          : { destination, path, format, threshold, level });
     }, 1500);
   };
 
@@ -46,8 +58,47 @@ export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onClose, o
                 </div>
                 <div>
                     <p className="text-sm font-medium text-slate-900">Ready to Export</p>
-                    <p className="text-xs text-slate-600">{targetCount} high-risk patient profiles identified.</p>
+                    {level === 'PATIENT' ? (
+                        <p className="text-xs text-slate-600">{targetCount} patient profiles scoring at or above the {threshold.toFixed(2)} threshold{cutoffDecile ? ` (top ${cutoffDecile * 10}% of the cohort)` : ''}.</p>
+                    ) : (
+                        <p className="text-xs text-slate-600">{hcpCount} prescribers in tier{hcpTiers.length === 1 ? '' : 's'} {hcpTiers.join(', ') || '(none selected)'}, with patient risk rolled up per NPI.</p>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <label className="text-sm font-medium text-slate-700 block">Target Level</label>
+                <div className="grid grid-cols-2 gap-3">
+                    <button
+                        onClick={() => setLevel('PATIENT')}
+                        className={`p-3 rounded-lg border text-center transition-all ${level === 'PATIENT' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 hover:border-slate-300'}`}
+                    >
+                        <Users className="w-5 h-5 mx-auto mb-1" />
+                        <span className="text-xs font-medium">Patients</span>
+                    </button>
+                    <button
+                        onClick={() => setLevel('HCP')}
+                        className={`p-3 rounded-lg border text-center transition-all ${level === 'HCP' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 hover:border-slate-300'}`}
+                    >
+                        <Stethoscope className="w-5 h-5 mx-auto mb-1" />
+                        <span className="text-xs font-medium">HCPs (NPI)</span>
+                    </button>
                 </div>
+                {level === 'HCP' && (
+                    <div className="flex items-center gap-4">
+                        {(['A', 'B', 'C'] as HcpTier[]).map(tier => (
+                            <label key={tier} className="flex items-center gap-1.5 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={hcpTiers.includes(tier)}
+                                    onChange={() => toggleTier(tier)}
+                                    className="accent-blue-600"
+                                />
+                                Tier {tier} <span className="text-xs text-slate-400">({hcpTierCounts[tier]})</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
             </div>
 
             <div className="space-y-3">
@@ -114,7 +165,7 @@ export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onClose, o
             </button>
             <button 
                 onClick={handlePublish}
-                disabled={isPublishing || !path}
+                disabled={isPublishing || !path || (level === 'HCP' && hcpCount === 0)}
                 className="px-6 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
             >
                 {isPublishing ? 'Uploading...' : <><Download className="w-4 h-4" /> Publish List</>}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Search, ArrowRight, Loader2, BookOpen, Activity, Pill } from 'lucide-react';
-import { parseResearchIntent } from '../services/geminiService';
+import { parseResearchIntent } from '../services/inferenceService';
 import { OntologyMapping } from '../types';
 
 interface QueryBuilderProps {
@@ -1,6 +1,13 @@
 import React, { useState } from 'react';
-import { Study, Experiment } from '../types';
-import { FolderPlus, FileText, Tag, Calendar, Plus, ChevronRight, Trophy, LayoutGrid, FlaskConical, ArrowRight } from 'lucide-react';
+import { Study, Experiment, ModelType } from '../types';
+import { FolderPlus, FileText, Tag, Calendar, Plus, ChevronRight, Trophy, LayoutGrid, FlaskConical, ArrowRight, MessageSquare } from 'lucide-react';
+
+const MODEL_TYPE_LABELS: Record<ModelType, string> = {
+  GENAI_REASONING: 'GenAI',
+  XGBOOST: 'XGBoost',
+  SURVIVAL: 'Cox PH',
+  NEXT_THERAPY: 'Next therapy',
+};
 
 interface StudyDashboardProps {
   studies: Study[];
@@ -188,21 +195,41 @@ export const StudyDashboard: React.FC<StudyDashboardProps> = ({
                               {new Date(exp.timestamp).toLocaleDateString()}
                             </span>
                             <span>
-                               Config: <strong>{exp.config.modelType === 'XGBOOST' ? 'XGBoost' : 'GenAI'}</strong>
+                               Config: <strong>{MODEL_TYPE_LABELS[exp.config.modelType]}</strong>
                             </span>
                             <span>
                                Cohort: <strong>{exp.patientCount}</strong> patients
                             </span>
+                            {exp.conversation && exp.conversation.length > 0 && (
+                               <span className="flex items-center gap-1.5">
+                                 <MessageSquare className="w-3.5 h-3.5" />
+                                 {exp.conversation.filter(m => m.role === 'user').length} analyst questions
+                               </span>
+                            )}
                           </div>
                         </div>
                       </div>
 
                       <div className="flex items-center gap-4">
                          {exp.metrics && (
+                            <>
+                            <div className="text-right mr-4 hidden md:block">
+                                <p className="text-xs text-slate-400 uppercase font-semibold">ROC AUC</p>
+                                <p className="text-xl font-bold text-slate-800">{exp.metrics.rocAuc.toFixed(3)}</p>
+                                {exp.metrics.intervals?.rocAuc && (
+                                    <p className="text-xs text-slate-400">{exp.metrics.intervals.rocAuc.lower.toFixed(3)}–{exp.metrics.intervals.rocAuc.upper.toFixed(3)}</p>
+                                )}
+                            </div>
                             <div className="text-right mr-4 hidden md:block">
                                 <p className="text-xs text-slate-400 uppercase font-semibold">Validation Accuracy</p>
                                 <p className="text-xl font-bold text-slate-800">{(exp.metrics.accuracy * 100).toFixed(1)}%</p>
+                                {exp.metrics.intervals?.accuracy && (
+                                    <p className="text-xs text-slate-400">
+                                        {((exp.metrics.bootstrap?.confidenceLevel ?? 0.95) * 100).toFixed(0)}% CI {(exp.metrics.intervals.accuracy.lower * 100).toFixed(1)}–{(exp.metrics.intervals.accuracy.upper * 100).toFixed(1)}%
+                                    </p>
+                                )}
                             </div>
+                            </>
                          )}
                          <button 
                             onClick={() => onViewExperiment(activeStudy.id, exp.id)}
@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { PatientProfile } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { AlertTriangle, CheckCircle, Users } from 'lucide-react';
+import {
+  computeSubgroupReport, FairnessDimension, DEFAULT_FAIRNESS_TOLERANCE, MIN_FLAGGED_GROUP_SIZE
+} from '../services/fairness';
+
+interface SubgroupFairnessPanelProps {
+  patients: PatientProfile[];
+  threshold: number;
+}
+
+const DIMENSION_OPTIONS: { id: FairnessDimension; label: string }[] = [
+  { id: 'GENDER', label: 'Gender' },
+  { id: 'AGE_BAND', label: 'Age band' },
+  { id: 'SPECIALTY', label: 'Prescriber specialty' },
+  { id: 'DRUG', label: 'Index regimen' },
+  { id: 'LINE', label: 'Index line' },
+];
+
+const formatRate = (value: number | undefined) => (value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const formatDifference = (value: number | undefined) =>
+  value === undefined ? '' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+
+export const SubgroupFairnessPanel: React.FC<SubgroupFairnessPanelProps> = ({ patients, threshold }) => {
+  const [dimension, setDimension] = useState<FairnessDimension>('GENDER');
+  const [tolerance, setTolerance] = useState(DEFAULT_FAIRNESS_TOLERANCE);
+
+  const report = useMemo(
+    () => computeSubgroupReport(patients, dimension, threshold, tolerance),
+    [patients, dimension, threshold, tolerance]
+  );
+  const flaggedCount = report.rows.filter(r => r.parityFlag || r.opportunityFlag).length;
+  const chartData = report.rows.map(r => ({ group: r.group, selectionRate: r.selectionRate, recall: r.recall ?? 0 }));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-indigo-500" />
+          <div>
+            <h3 className="text-sm font-semibold text-slate-800">Subgroup Performance &amp; Fairness</h3>
+            <p className="text-xs text-slate-500">TEST patients at the current threshold. Gaps are measured against all TEST patients.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-600">
+          <select
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as FairnessDimension)}
+            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {DIMENSION_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          <label className="flex items-center gap-1.5">
+            Tolerance
+            <input
+              type="number"
+              min={0.01}
+              max={0.5}
+              step={0.01}
+              value={tolerance}
+              onChange={(e) => setTolerance(parseFloat(e.target.value) || DEFAULT_FAIRNESS_TOLERANCE)}
+              className="w-20 px-2 py-1 bg-white border border-slate-200 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-6 border-b border-slate-100">
+        <div>
+          <p className="text-xs font-medium text-slate-500">Demographic parity difference</p>
+          <p className={`text-2xl font-bold ${report.maxParityDifference > tolerance ? 'text-red-600' : 'text-slate-800'}`}>
+            {(report.maxParityDifference * 100).toFixed(1)} pts
+          </p>
+          <p className="text-xs text-slate-400">Largest minus smallest selection rate</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-slate-500">Equal opportunity difference</p>
+          <p className={`text-2xl font-bold ${report.maxOpportunityDifference > tolerance ? 'text-red-600' : 'text-slate-800'}`}>
+            {(report.maxOpportunityDifference * 100).toFixed(1)} pts
+          </p>
+          <p className="text-xs text-slate-400">Largest minus smallest recall</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {flaggedCount > 0 ? (
+            <>
+              <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+              <p className="text-sm text-slate-700">
+                <strong>{flaggedCount}</strong> group{flaggedCount === 1 ? '' : 's'} outside ±{(tolerance * 100).toFixed(0)} pts of the overall rate.
+              </p>
+            </>
+          ) : (
+            <>
+              <CheckCircle className="w-5 h-5 text-emerald-500 shrink-0" />
+              <p className="text-sm text-slate-700">All groups of {MIN_FLAGGED_GROUP_SIZE}+ patients within ±{(tolerance * 100).toFixed(0)} pts.</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="h-56 px-6 pt-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="group" tick={{ fontSize: 11 }} />
+            <YAxis domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+            <Tooltip formatter={(v: number) => `${(v * 100).toFixed(1)}%`} />
+            <Legend verticalAlign="top" height={24} />
+            <ReferenceLine y={report.overall.selectionRate} stroke="#6366f1" strokeDasharray="4 4" />
+            <Bar dataKey="selectionRate" name="Selection rate" fill="#6366f1" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="recall" name="Recall" fill="#ec4899" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-y border-slate-100">
+            <tr>
+              <th className="px-4 py-2 font-medium text-left">Group</th>
+              <th className="px-4 py-2 font-medium text-right">n</th>
+              <th className="px-4 py-2 font-medium text-right">Transitions</th>
+              <th className="px-4 py-2 font-medium text-right">Selection Rate</th>
+              <th className="px-4 py-2 font-medium text-right">Recall</th>
+              <th className="px-4 py-2 font-medium text-right">Precision</th>
+              <th className="px-4 py-2 font-medium text-right">Predicted / Observed</th>
+              <th className="px-4 py-2 font-medium text-left">Flags</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {[report.overall, ...report.rows].map((row, i) => (
+              <tr key={row.group} className={i === 0 ? 'bg-blue-50/60 font-semibold text-slate-800' : 'text-slate-600'}>
+                <td className="px-4 py-2">{row.group}</td>
+                <td className="px-4 py-2 text-right text-slate-400">{row.patients}</td>
+                <td className="px-4 py-2 text-right text-slate-400">{row.positives}</td>
+                <td className="px-4 py-2 text-right font-mono text-xs">
+                  {formatRate(row.selectionRate)}
+                  {i > 0 && <span className={`ml-1 ${row.parityFlag ? 'text-red-600' : 'text-slate-400'}`}>{formatDifference(row.parityDifference)}</span>}
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-xs">
+                  {formatRate(row.recall)}
+                  {i > 0 && <span className={`ml-1 ${row.opportunityFlag ? 'text-red-600' : 'text-slate-400'}`}>{formatDifference(row.opportunityDifference)}</span>}
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-xs">{formatRate(row.precision)}</td>
+                <td className={`px-4 py-2 text-right font-mono text-xs ${Math.abs(row.calibrationGap) > tolerance ? 'text-amber-600' : ''}`}>
+                  {formatRate(row.meanPredicted)} / {formatRate(row.observedRate)}
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  {i === 0 ? '' : row.patients < MIN_FLAGGED_GROUP_SIZE ? (
+                    <span className="text-slate-400">Too small to flag</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {row.parityFlag && <span className="px-1.5 py-0.5 bg-red-50 text-red-700 border border-red-100 rounded">Parity</span>}
+                      {row.opportunityFlag && <span className="px-1.5 py-0.5 bg-red-50 text-red-700 border border-red-100 rounded">Opportunity</span>}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-6 py-3 text-[11px] text-slate-400 border-t border-slate-100">
+        Selection rate is the share placed on the target list; recall is the share of actual transitioners placed on it.
+        Predicted / observed compares mean calibrated probability with the observed transition rate (amber when off by more than the tolerance).
+      </p>
+    </div>
+  );
+};
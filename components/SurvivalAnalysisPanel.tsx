@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { PatientProfile, SurvivalSummary } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Clock, Activity, Hourglass } from 'lucide-react';
+import { kaplanMeierBySubgroup, SurvivalSubgroup } from '../services/survival';
+
+interface SurvivalAnalysisPanelProps {
+  patients: PatientProfile[];
+  survival: SurvivalSummary;
+}
+
+const CURVE_COLORS = ['#2563eb', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#94a3b8'];
+
+const SUBGROUP_OPTIONS: { id: SurvivalSubgroup; label: string }[] = [
+  { id: 'ALL', label: 'All patients' },
+  { id: 'DRUG', label: 'Index regimen' },
+  { id: 'LINE', label: 'Index line' },
+  { id: 'SPECIALTY', label: 'Prescriber specialty' },
+];
+
+// Forest plot axis: hazard ratios from 1/4 to 4 on a log scale
+const HR_AXIS_MIN = Math.log(0.25);
+const HR_AXIS_MAX = Math.log(4);
+const toAxisPercent = (hr: number) =>
+  Math.min(100, Math.max(0, ((Math.log(hr) - HR_AXIS_MIN) / (HR_AXIS_MAX - HR_AXIS_MIN)) * 100));
+
+export const SurvivalAnalysisPanel: React.FC<SurvivalAnalysisPanelProps> = ({ patients, survival }) => {
+  const [subgroup, setSubgroup] = useState<SurvivalSubgroup>('ALL');
+
+  const curves = useMemo(() => kaplanMeierBySubgroup(patients, subgroup), [patients, subgroup]);
+  const overall = useMemo(() => kaplanMeierBySubgroup(patients, 'ALL')[0], [patients]);
+  const labeled = patients.filter(p => p.outcomeLabel);
+  const censored = labeled.filter(p => !p.outcomeLabel!.eventObserved).length;
+
+  // Mean forecast per horizon across the cohort
+  const meanForecast = survival.horizonsMonths.map(horizonMonths => {
+    const values = patients
+      .map(p => p.transitionForecast?.find(f => f.horizonMonths === horizonMonths)?.probability)
+      .filter((v): v is number => v !== undefined);
+    return { horizonMonths, probability: values.reduce((acc, v) => acc + v, 0) / (values.length || 1) };
+  });
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-right-2">
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-slate-500">Median Time on Line</span>
+            <Hourglass className="w-5 h-5 text-blue-500" />
+          </div>
+          <div className="text-2xl font-bold text-slate-800">
+            {overall?.medianMonths !== undefined ? overall.medianMonths.toFixed(1) : 'Not reached'}
+            {overall?.medianMonths !== undefined && <span className="text-sm text-slate-400 font-normal"> months</span>}
+          </div>
+          <div className="text-xs text-slate-500 mt-1">Kaplan-Meier, all labeled patients</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-slate-500">Events / Censored</span>
+            <Activity className="w-5 h-5 text-red-500" />
+          </div>
+          <div className="text-2xl font-bold text-slate-800">{labeled.length - censored} / {censored}</div>
+          <div className="text-xs text-slate-500 mt-1">{survival.events} transitions in the training split</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-slate-500">Concordance (TEST)</span>
+            <Clock className="w-5 h-5 text-emerald-500" />
+          </div>
+          <div className="text-2xl font-bold text-slate-800">{survival.concordance.toFixed(3)}</div>
+          <div className="text-xs text-slate-500 mt-1">Harrell's C, 0.5 = random ordering</div>
+        </div>
+        <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+          <span className="text-sm font-medium text-slate-500">Mean Transition Probability</span>
+          <div className="flex gap-4 mt-2">
+            {meanForecast.map(f => (
+              <div key={f.horizonMonths}>
+                <div className="text-lg font-bold text-slate-800">{(f.probability * 100).toFixed(0)}%</div>
+                <div className="text-xs text-slate-500">by {f.horizonMonths}m</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Kaplan-Meier */}
+      <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Kaplan-Meier: Time to Next Line</h3>
+            <p className="text-xs text-slate-500">Share of patients still on the index line. Patients whose claims end first are censored, not counted as staying.</p>
+          </div>
+          <select
+            value={subgroup}
+            onChange={(e) => setSubgroup(e.target.value as SurvivalSubgroup)}
+            className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {SUBGROUP_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </div>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 5, right: 20, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="months" domain={[0, 'dataMax']} tickFormatter={(v) => Math.round(v).toString()} label={{ value: 'Months since index date', position: 'bottom', offset: 0, fontSize: 11 }} />
+              <YAxis type="number" domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+              <Tooltip formatter={(v: number) => `${(v * 100).toFixed(1)}%`} labelFormatter={(v: number) => `${v.toFixed(1)} months`} />
+              <Legend verticalAlign="top" height={28} />
+              <ReferenceLine y={0.5} stroke="#cbd5e1" strokeDasharray="4 4" />
+              {curves.map((curve, i) => (
+                <Line
+                  key={curve.group}
+                  data={curve.points}
+                  dataKey="survival"
+                  name={`${curve.group} (n=${curve.patients})`}
+                  type="stepAfter"
+                  stroke={CURVE_COLORS[i % CURVE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-xs text-slate-500">
+          {curves.map(curve => (
+            <span key={curve.group}>
+              <strong className="text-slate-700">{curve.group}</strong>: {curve.events} events, median {curve.medianMonths !== undefined ? `${curve.medianMonths.toFixed(1)}m` : 'not reached'}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Hazard Ratios */}
+      <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <h3 className="text-sm font-semibold text-slate-800">Cox Proportional Hazards: Hazard Ratios</h3>
+          <span className="text-xs text-slate-500">HR &gt; 1 = earlier transition, per unit of the feature</span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+              <tr>
+                <th className="px-4 py-2 font-medium">Feature</th>
+                <th className="px-4 py-2 font-medium text-right">HR</th>
+                <th className="px-4 py-2 font-medium text-right">95% CI</th>
+                <th className="px-4 py-2 font-medium text-right">p</th>
+                <th className="px-4 py-2 font-medium w-1/3">
+                  <div className="flex justify-between text-[10px] normal-case"><span>0.25</span><span>1</span><span>4</span></div>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {survival.hazardRatios.map(hr => (
+                <tr key={hr.feature} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 text-slate-700">{hr.label}</td>
+                  <td className={`px-4 py-2 text-right font-semibold ${hr.pValue < 0.05 ? (hr.hazardRatio > 1 ? 'text-red-600' : 'text-emerald-600') : 'text-slate-800'}`}>
+                    {hr.hazardRatio.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-500 font-mono text-xs">{hr.lower.toFixed(2)} – {hr.upper.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right text-slate-600 font-mono text-xs">{hr.pValue < 0.001 ? '<0.001' : hr.pValue.toFixed(3)}</td>
+                  <td className="px-4 py-2">
+                    <div className="relative h-3">
+                      <div className="absolute inset-y-0 left-1/2 border-l border-slate-300" />
+                      <div
+                        className="absolute top-1/2 h-0.5 bg-slate-400"
+                        style={{ left: `${toAxisPercent(hr.lower)}%`, width: `${toAxisPercent(hr.upper) - toAxisPercent(hr.lower)}%` }}
+                      />
+                      <div
+                        className={`absolute top-0 w-3 h-3 -ml-1.5 rounded-sm ${hr.hazardRatio > 1 ? 'bg-red-500' : 'bg-emerald-500'}`}
+                        style={{ left: `${toAxisPercent(hr.hazardRatio)}%` }}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
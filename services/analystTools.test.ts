@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { PatientProfile } from "../types";
+import { AnalystToolError, executeAnalystTool } from "./analystTools";
+
+interface PatientSpec {
+  id: string;
+  age?: number;
+  drug: string;
+  doctor: string;
+  npi: string;
+  riskScore: number;
+  outcome?: boolean; // Undefined: censored
+}
+
+const patient = ({ id, age, drug, doctor, npi, riskScore, outcome }: PatientSpec): PatientProfile => ({
+  id,
+  age,
+  gender: 'F',
+  diagnosisCode: 'C50.911',
+  currentTherapyLine: 1,
+  monthsOnCurrentTherapy: 6,
+  lastVisitDate: '2024-01-01',
+  npiSpecialty: 'Oncology',
+  drugId: drug,
+  doctorName: doctor,
+  npiId: npi,
+  riskScore,
+  riskCategory: riskScore >= 0.7 ? 'High' : riskScore >= 0.4 ? 'Medium' : 'Low',
+  split: 'TEST',
+  actualOutcome: !!outcome,
+  outcomeLabel: {
+    fromLine: 1,
+    toLine: 2,
+    indexDate: '2023-01-01',
+    indexRegimen: [drug],
+    windowEndDate: '2023-07-03',
+    outcome: !!outcome,
+    censored: outcome === undefined,
+    timeToEventDays: 180,
+    eventObserved: !!outcome,
+  },
+  history: { patientId: id, events: [], claimCount: 0, firstServiceDate: '2023-01-01', lastServiceDate: '2024-01-01' },
+  therapyLines: [],
+});
+
+const PATIENTS = [
+  patient({ id: 'P1', age: 45, drug: 'Tamoxifen', doctor: 'Dr. Ana Smith', npi: '111', riskScore: 0.9, outcome: true }),
+  patient({ id: 'P2', age: 62, drug: 'Letrozole', doctor: 'Dr. Ana Smith', npi: '111', riskScore: 0.2, outcome: false }),
+  patient({ id: 'P3', age: 58, drug: 'Tamoxifen', doctor: 'Dr. Ben Smith', npi: '222', riskScore: 0.5 }),
+  patient({ id: 'P4', drug: 'Letrozole + Palbociclib', doctor: 'Dr. Ben Smith', npi: '222', riskScore: 0.75, outcome: true }),
+  patient({ id: 'P5', age: 70, drug: 'Letrozole', doctor: 'Dr. Cara Jones', npi: '333', riskScore: 0.3, outcome: false }),
+];
+
+const run = (name: string, args: Record<string, unknown>) => executeAnalystTool(PATIENTS, name, args);
+
+describe('filter_patients', () => {
+  it('coerces numeric filters and matches text case-insensitively', () => {
+    const { result, rowIds } = run('filter_patients', {
+      filters: [{ field: 'age', op: 'gte', value: '58' }, { field: 'drug', op: 'eq', value: 'LETROZOLE' }],
+    });
+
+    expect(result).toEqual({ count: 2, ids: ['P2', 'P5'] });
+    expect(rowIds).toEqual(['P2', 'P5']);
+  });
+
+  it('supports contains, and treats missing values as matching only neq', () => {
+    expect(run('filter_patients', { filters: [{ field: 'drug', op: 'contains', value: 'letrozole' }] }).rowIds).toEqual(['P2', 'P4', 'P5']);
+    expect(run('filter_patients', { filters: [{ field: 'age', op: 'lt', value: 100 }] }).rowIds).toEqual(['P1', 'P2', 'P3', 'P5']);
+    expect(run('filter_patients', { filters: [{ field: 'age', op: 'neq', value: 45 }] }).rowIds).toEqual(['P2', 'P3', 'P4', 'P5']);
+  });
+
+  it('leaves censored patients out of outcome filters', () => {
+    expect(run('filter_patients', { filters: [{ field: 'actualOutcome', op: 'eq', value: 'true' }] }).rowIds).toEqual(['P1', 'P4']);
+    expect(run('filter_patients', { filters: [{ field: 'actualOutcome', op: 'eq', value: false }] }).rowIds).toEqual(['P2', 'P5']);
+  });
+
+  it('returns every patient without filters', () => {
+    expect(run('filter_patients', {}).rowIds).toHaveLength(PATIENTS.length);
+  });
+});
+
+describe('group_by', () => {
+  it('counts per group, largest first with ties broken by key', () => {
+    const { result } = run('group_by', { groupBy: 'doctor' });
+
+    expect(result).toMatchObject({
+      metric: 'count',
+      totalGroups: 3,
+      groups: [
+        { key: 'Dr. Ana Smith', count: 2, value: 2 },
+        { key: 'Dr. Ben Smith', count: 2, value: 2 },
+        { key: 'Dr. Cara Jones', count: 1, value: 1 },
+      ],
+    });
+  });
+
+  it('aggregates a numeric field per group after filtering and respects the limit', () => {
+    const { result, rowIds } = run('group_by', {
+      groupBy: 'drug',
+      metric: 'mean',
+      field: 'riskScore',
+      filters: [{ field: 'riskCategory', op: 'neq', value: 'Medium' }],
+      limit: 2,
+    });
+
+    expect(result).toMatchObject({
+      totalGroups: 3,
+      groups: [
+        { key: 'Tamoxifen', count: 1, value: 0.9 },
+        { key: 'Letrozole + Palbociclib', count: 1, value: 0.75 },
+      ],
+    });
+    expect(rowIds).toEqual(['P1', 'P2', 'P4', 'P5']);
+  });
+
+  it('groups missing values as Unknown', () => {
+    const { result } = run('group_by', { groupBy: 'age', filters: [{ field: 'doctor', op: 'contains', value: 'ben' }] });
+
+    expect((result as { groups: { key: string }[] }).groups.map(g => g.key).sort()).toEqual(['58', 'Unknown']);
+  });
+
+  it('needs a field for metrics other than count', () => {
+    expect(() => run('group_by', { groupBy: 'drug', metric: 'mean' })).toThrow(AnalystToolError);
+  });
+});
+
+describe('aggregate', () => {
+  it('summarizes a numeric field, skipping patients without a value', () => {
+    const { result } = run('aggregate', { field: 'age' });
+
+    expect(result).toEqual({ field: 'age', patients: 5, count: 4, mean: 58.75, median: 60, sum: 235, min: 45, max: 70 });
+  });
+});
+
+describe('top_n', () => {
+  it('sorts by the requested field and caps the rows', () => {
+    const { result, rowIds } = run('top_n', { sortBy: 'riskScore', n: 2 });
+
+    expect(rowIds).toEqual(['P1', 'P4']);
+    expect(result).toMatchObject({ sortBy: 'riskScore', ascending: false, matched: 5 });
+    expect(run('top_n', { sortBy: 'age', ascending: 'true', n: 100 }).rowIds).toEqual(['P1', 'P3', 'P2', 'P5', 'P4']);
+  });
+});
+
+describe('describe_patient and describe_doctor', () => {
+  it('looks patients up case-insensitively', () => {
+    expect(run('describe_patient', { patientId: ' p3 ' }).rowIds).toEqual(['P3']);
+    expect(() => run('describe_patient', { patientId: 'P9' })).toThrow(AnalystToolError);
+  });
+
+  it('summarizes a prescriber found by name or NPI', () => {
+    const { result, rowIds } = run('describe_doctor', { doctor: 'Cara Jones' });
+
+    expect(rowIds).toEqual(['P5']);
+    expect(result).toMatchObject({ npi: '333', patients: 1, byRiskCategory: { Low: 1 } });
+    expect(run('describe_doctor', { doctor: '222' }).rowIds).toEqual(['P3', 'P4']);
+  });
+
+  it('refuses a name that matches several prescribers', () => {
+    expect(() => run('describe_doctor', { doctor: 'smith' })).toThrow(/matches 2 prescribers.*Use the NPI/);
+  });
+});
+
+describe('validation', () => {
+  it('rejects unknown tools, fields and filter ops', () => {
+    expect(() => run('drop_table', {})).toThrow(AnalystToolError);
+    expect(() => run('filter_patients', { filters: [{ field: 'ssn', op: 'eq', value: 1 }] })).toThrow(/Unknown field "ssn"/);
+    expect(() => run('filter_patients', { filters: [{ field: 'age', op: 'like', value: 1 }] })).toThrow(/Unknown filter op/);
+  });
+
+  it('validates chart specs', () => {
+    const data = [{ label: 'High', value: 2 }, { label: 'Low', value: '3' }];
+
+    expect(run('show_chart', { type: 'pie', title: 'Risk', data })).toEqual({
+      result: { type: 'pie', title: 'Risk', data: [{ label: 'High', value: 2 }, { label: 'Low', value: 3 }] },
+      rowIds: [],
+    });
+    expect(() => run('show_chart', { type: 'scatter', data })).toThrow(/Chart type/);
+    expect(() => run('show_chart', { type: 'bar', data: [] })).toThrow(/1 to 30/);
+    expect(() => run('show_chart', { type: 'bar', data: [{ label: 'x', value: 'many' }] })).toThrow(/numeric value/);
+    expect(() => run('show_chart', { type: 'pie', data: [{ label: 'x', value: -1 }] })).toThrow(/negative/);
+  });
+});
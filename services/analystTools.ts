@@ -0,0 +1,346 @@
+import { AnalystChartSpec, AnalystChartType, PatientProfile } from "../types";
+import { ResponseSchema, ToolDefinition } from "./inferenceProvider";
+import { hasObservedOutcome } from "./outcomeLabeling";
+
+// Deterministic tools the AI analyst calls instead of reading the whole cohort. Every tool runs
+// locally over the scored patients and returns exact numbers plus the patient IDs it used, so an
+// answer can be checked and opened in the results grid.
+
+export interface ToolResult {
+  result: unknown; // Serialized back to the model
+  rowIds: string[]; // Patients behind the result
+}
+
+type FieldValue = string | number | boolean | undefined;
+
+// Fields the model can filter, group, sort and aggregate on
+const FIELDS: Record<string, { description: string; value: (p: PatientProfile) => FieldValue }> = {
+  id: { description: 'Patient ID', value: p => p.id },
+  age: { description: 'Age in years', value: p => p.age },
+  gender: { description: 'Gender', value: p => p.gender },
+  line: { description: 'Current therapy line number', value: p => p.currentTherapyLine },
+  monthsOnTherapy: { description: 'Months on the current therapy', value: p => p.monthsOnCurrentTherapy },
+  drug: { description: 'Current drug / regimen', value: p => p.drugId },
+  specialty: { description: 'Prescriber specialty', value: p => p.npiSpecialty },
+  doctor: { description: 'Prescriber name', value: p => p.doctorName },
+  npi: { description: 'Prescriber NPI', value: p => p.npiId },
+  riskCategory: { description: 'High, Medium or Low at the current threshold', value: p => p.riskCategory },
+  riskScore: { description: 'Predicted transition probability, 0-1', value: p => p.riskScore },
+  split: { description: 'TRAIN or TEST', value: p => p.split },
+  actualOutcome: { description: 'Observed transition (true/false), undefined when censored or unlabeled', value: p => (hasObservedOutcome(p) ? !!p.actualOutcome : undefined) },
+  predictedNextTherapy: { description: 'Most likely next regimen (next-therapy models only)', value: p => p.predictedNextTherapy },
+};
+
+export const ANALYST_FIELD_NAMES = Object.keys(FIELDS);
+
+type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+
+interface Filter {
+  field: string;
+  op: FilterOp;
+  value: string | number | boolean;
+}
+
+const MAX_ROWS = 25;
+const MAX_GROUPS = 50;
+const MAX_CHART_POINTS = 30;
+const CHART_TYPES: AnalystChartType[] = ['bar', 'line', 'pie'];
+
+const fieldSchema: ResponseSchema = { type: 'string', enum: ANALYST_FIELD_NAMES, description: 'Patient field' };
+const filtersSchema: ResponseSchema = {
+  type: 'array',
+  description: 'All filters must match (AND)',
+  items: {
+    type: 'object',
+    properties: {
+      field: fieldSchema,
+      op: { type: 'string', enum: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains'] },
+      value: { type: 'string', description: 'Compared as a number when the field is numeric' },
+    },
+    required: ['field', 'op', 'value'],
+  },
+};
+
+export const ANALYST_TOOLS: ToolDefinition[] = [
+  {
+    name: 'filter_patients',
+    description: 'Count the patients matching the filters and return up to 25 of their IDs.',
+    parameters: { type: 'object', properties: { filters: filtersSchema } },
+  },
+  {
+    name: 'group_by',
+    description: 'Group matching patients by a field and compute a metric per group (count, or mean/sum/min/max of a numeric field).',
+    parameters: {
+      type: 'object',
+      properties: {
+        groupBy: fieldSchema,
+        filters: filtersSchema,
+        metric: { type: 'string', enum: ['count', 'mean', 'sum', 'min', 'max'] },
+        field: { ...fieldSchema, description: 'Numeric field for mean/sum/min/max' },
+        limit: { type: 'number', description: 'Maximum groups, largest metric first (default 10)' },
+      },
+      required: ['groupBy'],
+    },
+  },
+  {
+    name: 'aggregate',
+    description: 'Count, mean, median, sum, min and max of a numeric field over the matching patients.',
+    parameters: {
+      type: 'object',
+      properties: { field: fieldSchema, filters: filtersSchema },
+      required: ['field'],
+    },
+  },
+  {
+    name: 'top_n',
+    description: 'The first N matching patients sorted by a field (default: riskScore, highest first).',
+    parameters: {
+      type: 'object',
+      properties: {
+        filters: filtersSchema,
+        sortBy: fieldSchema,
+        n: { type: 'number', description: 'Number of patients, at most 25' },
+        ascending: { type: 'string', enum: ['true', 'false'] },
+      },
+    },
+  },
+  {
+    name: 'describe_patient',
+    description: 'All fields, the model explanation and the observed outcome for one patient.',
+    parameters: { type: 'object', properties: { patientId: { type: 'string' } }, required: ['patientId'] },
+  },
+  {
+    name: 'describe_doctor',
+    description: "One prescriber's patients: counts by risk category, expected transitions, drugs and top patients. Accepts a name or NPI.",
+    parameters: { type: 'object', properties: { doctor: { type: 'string', description: 'Name or NPI' } }, required: ['doctor'] },
+  },
+  {
+    name: 'show_chart',
+    description: 'Attach a small chart to the answer. Only plot numbers returned by the other tools; at most 30 points.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: CHART_TYPES },
+        title: { type: 'string' },
+        xLabel: { type: 'string' },
+        yLabel: { type: 'string' },
+        data: {
+          type: 'array',
+          items: { type: 'object', properties: { label: { type: 'string' }, value: { type: 'number' } }, required: ['label', 'value'] },
+        },
+      },
+      required: ['type', 'title', 'data'],
+    },
+  },
+];
+
+// Tool errors are returned to the model as results so it can correct the call
+export class AnalystToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalystToolError';
+  }
+}
+
+const fieldValue = (patient: PatientProfile, field: string): FieldValue => {
+  const definition = FIELDS[field];
+  if (!definition) throw new AnalystToolError(`Unknown field "${field}". Use one of: ${ANALYST_FIELD_NAMES.join(', ')}.`);
+  return definition.value(patient);
+};
+
+const matches = (patient: PatientProfile, filter: Filter): boolean => {
+  const actual = fieldValue(patient, filter.field);
+  if (actual === undefined) return filter.op === 'neq';
+  const expected = typeof actual === 'number' ? Number(filter.value)
+    : typeof actual === 'boolean' ? String(filter.value).toLowerCase() === 'true'
+      : String(filter.value);
+  const a = typeof actual === 'string' ? actual.toLowerCase() : actual;
+  const b = typeof expected === 'string' ? expected.toLowerCase() : expected;
+  switch (filter.op) {
+    case 'eq': return a === b;
+    case 'neq': return a !== b;
+    case 'gt': return a > b;
+    case 'gte': return a >= b;
+    case 'lt': return a < b;
+    case 'lte': return a <= b;
+    case 'contains': return String(a).includes(String(b));
+    default: throw new AnalystToolError(`Unknown filter op "${filter.op}".`);
+  }
+};
+
+const applyFilters = (patients: PatientProfile[], filters: unknown): PatientProfile[] => {
+  const list = Array.isArray(filters) ? (filters as Filter[]) : [];
+  return patients.filter(p => list.every(f => matches(p, f)));
+};
+
+const numericValues = (patients: PatientProfile[], field: string): number[] =>
+  patients.map(p => fieldValue(p, field)).filter((v): v is number => typeof v === 'number');
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const summarizeNumbers = (values: number[]) => {
+  if (values.length === 0) return { count: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    count: values.length,
+    mean: round(sum / values.length),
+    median: round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2),
+    sum: round(sum),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+  };
+};
+
+const toRow = (p: PatientProfile) =>
+  Object.fromEntries(ANALYST_FIELD_NAMES.map(field => {
+    const value = fieldValue(p, field);
+    return [field, typeof value === 'number' ? round(value) : value];
+  }));
+
+const filterPatients = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const matched = applyFilters(patients, args.filters);
+  return { result: { count: matched.length, ids: matched.slice(0, MAX_ROWS).map(p => p.id) }, rowIds: matched.map(p => p.id) };
+};
+
+const groupBy = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const matched = applyFilters(patients, args.filters);
+  const groupField = String(args.groupBy);
+  const metric = (args.metric as string) || 'count';
+  if (metric !== 'count' && !args.field) throw new AnalystToolError(`Metric "${metric}" needs a numeric "field".`);
+
+  const groups = new Map<string, PatientProfile[]>();
+  matched.forEach(p => {
+    const key = String(fieldValue(p, groupField) ?? 'Unknown');
+    groups.set(key, [...(groups.get(key) || []), p]);
+  });
+  const rows = Array.from(groups.entries()).map(([key, members]) => {
+    const stats = metric === 'count' ? null : summarizeNumbers(numericValues(members, String(args.field)));
+    const value = stats === null ? members.length : (stats as Record<string, number>)[metric] ?? 0;
+    return { key, count: members.length, value };
+  }).sort((a, b) => b.value - a.value || a.key.localeCompare(b.key));
+
+  const limit = Math.min(MAX_GROUPS, Math.max(1, Number(args.limit) || 10));
+  return {
+    result: { groupBy: groupField, metric, field: args.field, totalGroups: rows.length, groups: rows.slice(0, limit) },
+    rowIds: matched.map(p => p.id),
+  };
+};
+
+const aggregate = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const matched = applyFilters(patients, args.filters);
+  return {
+    result: { field: args.field, patients: matched.length, ...summarizeNumbers(numericValues(matched, String(args.field))) },
+    rowIds: matched.map(p => p.id),
+  };
+};
+
+const topN = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const matched = applyFilters(patients, args.filters);
+  const sortBy = (args.sortBy as string) || 'riskScore';
+  const ascending = String(args.ascending) === 'true';
+  const n = Math.min(MAX_ROWS, Math.max(1, Number(args.n) || 10));
+  const sorted = [...matched].sort((a, b) => {
+    const va = fieldValue(a, sortBy);
+    const vb = fieldValue(b, sortBy);
+    if (va === undefined) return 1;
+    if (vb === undefined) return -1;
+    const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return ascending ? order : -order;
+  }).slice(0, n);
+  return { result: { sortBy, ascending, matched: matched.length, rows: sorted.map(toRow) }, rowIds: sorted.map(p => p.id) };
+};
+
+const describePatient = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const id = String(args.patientId).trim().toLowerCase();
+  const patient = patients.find(p => p.id.toLowerCase() === id);
+  if (!patient) throw new AnalystToolError(`No patient with ID "${args.patientId}".`);
+  return {
+    result: {
+      ...toRow(patient),
+      explanation: patient.explanation && {
+        method: patient.explanation.method,
+        rationale: patient.explanation.rationale,
+        topFactors: patient.explanation.contributions.slice(0, 5).map(c => ({ factor: c.label, contribution: round(c.contribution) })),
+      },
+      outcome: patient.outcomeLabel && {
+        indexDate: patient.outcomeLabel.indexDate,
+        windowEndDate: patient.outcomeLabel.windowEndDate,
+        transitioned: patient.outcomeLabel.outcome,
+        censored: patient.outcomeLabel.censored,
+        nextLineStart: patient.outcomeLabel.triggerDate,
+      },
+    },
+    rowIds: [patient.id],
+  };
+};
+
+const describeDoctor = (patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const query = String(args.doctor).trim().toLowerCase().replace(/^dr\.?\s*/, '');
+  const members = patients.filter(p =>
+    p.npiId.toLowerCase() === query || p.doctorName.toLowerCase().replace(/^dr\.?\s*/, '') === query);
+  const fuzzy = members.length > 0 ? members : patients.filter(p => p.doctorName.toLowerCase().includes(query));
+  const npis = Array.from(new Set(fuzzy.map(p => p.npiId)));
+  if (npis.length === 0) throw new AnalystToolError(`No prescriber matches "${args.doctor}".`);
+  if (npis.length > 1) {
+    throw new AnalystToolError(`"${args.doctor}" matches ${npis.length} prescribers: ${npis.map(npi => `${fuzzy.find(p => p.npiId === npi)!.doctorName} (${npi})`).join(', ')}. Use the NPI.`);
+  }
+
+  const countBy = (values: FieldValue[]) =>
+    values.reduce<Record<string, number>>((acc, v) => ({ ...acc, [String(v ?? 'Unknown')]: (acc[String(v ?? 'Unknown')] || 0) + 1 }), {});
+  const top = [...fuzzy].sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0)).slice(0, 5);
+  return {
+    result: {
+      doctor: fuzzy[0].doctorName,
+      npi: npis[0],
+      specialty: fuzzy[0].npiSpecialty,
+      patients: fuzzy.length,
+      byRiskCategory: countBy(fuzzy.map(p => p.riskCategory)),
+      expectedTransitions: round(fuzzy.reduce((acc, p) => acc + (p.riskScore ?? 0), 0)),
+      meanRiskScore: round(fuzzy.reduce((acc, p) => acc + (p.riskScore ?? 0), 0) / fuzzy.length),
+      byDrug: countBy(fuzzy.map(p => p.drugId)),
+      topPatients: top.map(p => ({ id: p.id, riskScore: round(p.riskScore ?? 0), drug: p.drugId })),
+    },
+    rowIds: fuzzy.map(p => p.id),
+  };
+};
+
+// The validated spec is the result; the answer renders the last chart the model asked for
+const showChart = (_patients: PatientProfile[], args: Record<string, unknown>): ToolResult => {
+  const type = String(args.type) as AnalystChartType;
+  if (!CHART_TYPES.includes(type)) throw new AnalystToolError(`Chart type must be one of: ${CHART_TYPES.join(', ')}.`);
+  const points = Array.isArray(args.data) ? (args.data as { label?: unknown; value?: unknown }[]) : [];
+  const data = points.map(p => ({ label: String(p?.label ?? ''), value: Number(p?.value) }));
+  if (data.length === 0 || data.length > MAX_CHART_POINTS) throw new AnalystToolError(`A chart needs 1 to ${MAX_CHART_POINTS} data points.`);
+  if (data.some(p => !Number.isFinite(p.value))) throw new AnalystToolError('Every data point needs a numeric value.');
+  if (type === 'pie' && data.some(p => p.value < 0)) throw new AnalystToolError('Pie chart values cannot be negative.');
+
+  const spec: AnalystChartSpec = {
+    type,
+    title: String(args.title || 'Chart'),
+    ...(args.xLabel ? { xLabel: String(args.xLabel) } : {}),
+    ...(args.yLabel ? { yLabel: String(args.yLabel) } : {}),
+    data,
+  };
+  return { result: spec, rowIds: [] };
+};
+
+const TOOL_IMPLEMENTATIONS: Record<string, (patients: PatientProfile[], args: Record<string, unknown>) => ToolResult> = {
+  filter_patients: filterPatients,
+  group_by: groupBy,
+  aggregate,
+  top_n: topN,
+  describe_patient: describePatient,
+  describe_doctor: describeDoctor,
+  show_chart: showChart,
+};
+
+export const executeAnalystTool = (patients: PatientProfile[], name: string, args: Record<string, unknown>): ToolResult => {
+  const implementation = TOOL_IMPLEMENTATIONS[name];
+  if (!implementation) throw new AnalystToolError(`Unknown tool "${name}".`);
+  return implementation(patients, args || {});
+};
+
+export const describeAnalystFields = (): string =>
+  Object.entries(FIELDS).map(([name, f]) => `- ${name}: ${f.description}`).join('\n');
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { chunkByTokenBudget, IncompleteBatchError, isTransientError, runWithConcurrency, withRetry } from "./batchScoring";
+
+const NO_DELAY = { maxAttempts: 3, baseDelayMs: 0 };
+
+// Resolves on a later macrotask, so concurrent workers interleave
+const later = <T,>(value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), 0));
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('chunkByTokenBudget', () => {
+  it('starts a new chunk when the token budget or the item cap would be exceeded', () => {
+    const sizes = [3, 4, 2, 6, 1, 1, 1];
+
+    expect(chunkByTokenBudget(sizes, s => s, 8, 10)).toEqual([[3, 4], [2, 6], [1, 1, 1]]);
+    expect(chunkByTokenBudget(sizes, s => s, 100, 3)).toEqual([[3, 4, 2], [6, 1, 1], [1]]);
+  });
+
+  it('keeps an oversized item in a chunk of its own', () => {
+    expect(chunkByTokenBudget([2, 50, 2], s => s, 10, 10)).toEqual([[2], [50], [2]]);
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries rate limits, server errors, timeouts and incomplete batches', () => {
+    expect(isTransientError({ status: 429 })).toBe(true);
+    expect(isTransientError({ status: 503 })).toBe(true);
+    expect(isTransientError(new Error('Resource exhausted: quota exceeded'))).toBe(true);
+    expect(isTransientError(new Error('fetch failed'))).toBe(true);
+    expect(isTransientError(new IncompleteBatchError(['P1']))).toBe(true);
+  });
+
+  it('does not retry bad requests', () => {
+    expect(isTransientError({ status: 400 })).toBe(false);
+    expect(isTransientError(new Error('API key not valid'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until the task succeeds', async () => {
+    const task = vi.fn(async (attempt: number) => {
+      if (attempt < 3) throw Object.assign(new Error('busy'), { status: 503 });
+      return 'ok';
+    });
+
+    await expect(withRetry(task, NO_DELAY)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt and rethrows', async () => {
+    const task = vi.fn(async () => { throw Object.assign(new Error('busy'), { status: 429 }); });
+
+    await expect(withRetry(task, NO_DELAY)).rejects.toThrow('busy');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails fast on errors that are not transient', async () => {
+    const task = vi.fn(async () => { throw Object.assign(new Error('bad request'), { status: 400 }); });
+
+    await expect(withRetry(task, NO_DELAY)).rejects.toThrow('bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('keeps results in task order with at most `limit` tasks in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const tasks = [30, 10, 20, 0, 5].map((value, i) => async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, value));
+      inFlight--;
+      return i;
+    });
+    const progress: number[] = [];
+
+    await expect(runWithConcurrency(tasks, 2, completed => progress.push(completed))).resolves.toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rejects with the first failure', async () => {
+    const tasks = [() => later(1), () => Promise.reject(new Error('chunk failed')), () => later(3)];
+
+    await expect(runWithConcurrency(tasks, 2)).rejects.toThrow('chunk failed');
+  });
+
+  it('starts no further tasks after a failure', async () => {
+    const started: number[] = [];
+    const tasks = [10, 0, 20, 20, 20].map((delay, i) => async () => {
+      started.push(i);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (i === 1) throw new Error('chunk failed');
+      return i;
+    });
+
+    await expect(runWithConcurrency(tasks, 2)).rejects.toThrow('chunk failed');
+    // Let the task still in flight finish, in case it would pick up another one
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('handles no tasks', async () => {
+    await expect(runWithConcurrency([], 4)).resolves.toEqual([]);
+  });
+});
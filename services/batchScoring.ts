@@ -0,0 +1,106 @@
+// Helpers for scoring a whole cohort with an LLM: token-budgeted chunks, bounded concurrency
+// and retries with exponential backoff for rate limits and transient failures.
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { maxAttempts: 4, baseDelayMs: 1000 };
+
+// Thrown when a response is missing some of the requested IDs; worth retrying for the missing ones
+export class IncompleteBatchError extends Error {
+  constructor(public missingIds: string[]) {
+    super(`No score returned for ${missingIds.length} patient(s): ${missingIds.slice(0, 5).join(', ')}${missingIds.length > 5 ? '…' : ''}`);
+    this.name = 'IncompleteBatchError';
+  }
+}
+
+// Rough token estimate (~4 characters per token) used to size chunks before sending them
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Split items into consecutive chunks that stay under the token budget and the item cap
+export const chunkByTokenBudget = <T,>(
+  items: T[],
+  tokensFor: (item: T) => number,
+  maxTokens: number,
+  maxItems: number
+): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  items.forEach(item => {
+    const tokens = tokensFor(item);
+    if (current.length > 0 && (currentTokens + tokens > maxTokens || current.length >= maxItems)) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// Rate limits (429), server errors (5xx), timeouts and network failures are retried; bad requests are not
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof IncompleteBatchError) return true;
+  const status = (error as { status?: number } | null)?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|rate limit|quota|resource.?exhausted|unavailable|overloaded|timed? ?out|network|fetch failed/i.test(message);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const withRetry = async <T,>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  shouldRetry: (error: unknown) => boolean = isTransientError
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !shouldRetry(error)) throw error;
+      // Exponential backoff with jitter so parallel chunks do not retry in lockstep
+      const delay = options.baseDelayMs * 2 ** (attempt - 1) + Math.random() * options.baseDelayMs;
+      console.warn(`Attempt ${attempt} failed, retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay);
+    }
+  }
+};
+
+// Run tasks with at most `limit` in flight. Results keep the task order; the first failure rejects
+// and no further tasks are started.
+export const runWithConcurrency = async <T,>(
+  tasks: (() => Promise<T>)[],
+  limit: number,
+  onTaskDone?: (completed: number, total: number) => void
+): Promise<T[]> => {
+  const results = new Array<T>(tasks.length);
+  let next = 0;
+  let completed = 0;
+  // Once a task fails the run is lost; stop the other workers from starting more tasks
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = await tasks[index]();
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      completed++;
+      onTaskDone?.(completed, tasks.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker));
+  return results;
+};
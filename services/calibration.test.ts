@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { applyCalibration, fitCalibration } from "./calibration";
+
+describe('isotonic calibration', () => {
+  it('pools adjacent violators into blocks of their mean score and observed rate', () => {
+    // 0.2 (positive) then 0.3 (negative) violate monotonicity and pool into one block at rate 0.5
+    const model = fitCalibration('ISOTONIC', [0.3, 0.1, 0.4, 0.2], [0, 0, 1, 1]);
+
+    expect(model).toEqual({ method: 'ISOTONIC', xs: [0.1, 0.25, 0.4], ys: [0, 0.5, 1] });
+  });
+
+  it('pools backwards until the step function is monotone', () => {
+    const model = fitCalibration('ISOTONIC', [0.1, 0.2, 0.3, 0.4], [1, 1, 0, 0]);
+
+    expect(model).toMatchObject({ method: 'ISOTONIC', ys: [0.5] });
+    if (model?.method === 'ISOTONIC') expect(model.xs[0]).toBeCloseTo(0.25, 10);
+  });
+
+  it('interpolates between block centres and stays flat beyond the ends', () => {
+    const model = fitCalibration('ISOTONIC', [0.1, 0.2, 0.3, 0.4], [0, 1, 0, 1])!;
+
+    expect(applyCalibration(model, 0.25)).toBeCloseTo(0.5, 10);
+    expect(applyCalibration(model, 0.175)).toBeCloseTo(0.25, 10);
+    expect(applyCalibration(model, 0.325)).toBeCloseTo(0.75, 10);
+    expect(applyCalibration(model, 0.01)).toBe(0);
+    expect(applyCalibration(model, 0.99)).toBe(1);
+  });
+
+  it('produces non-decreasing probabilities for any input order', () => {
+    const scores = [0.05, 0.9, 0.4, 0.15, 0.7, 0.35, 0.6, 0.8, 0.25, 0.5];
+    const labels = [0, 1, 1, 0, 0, 0, 1, 1, 1, 0];
+    const model = fitCalibration('ISOTONIC', scores, labels)!;
+
+    const grid = Array.from({ length: 101 }, (_, i) => applyCalibration(model, i / 100));
+    grid.slice(1).forEach((p, i) => expect(p).toBeGreaterThanOrEqual(grid[i]));
+    grid.forEach(p => expect(p).toBeGreaterThanOrEqual(0));
+    grid.forEach(p => expect(p).toBeLessThanOrEqual(1));
+  });
+});
+
+describe('Platt scaling', () => {
+  it('maps scores monotonically into (0, 1)', () => {
+    const model = fitCalibration('PLATT', [0.1, 0.2, 0.3, 0.6, 0.7, 0.9], [0, 0, 1, 0, 1, 1])!;
+
+    expect(model.method).toBe('PLATT');
+    const calibrated = [0.1, 0.3, 0.5, 0.7, 0.9].map(s => applyCalibration(model, s));
+    calibrated.slice(1).forEach((p, i) => expect(p).toBeGreaterThan(calibrated[i]));
+    calibrated.forEach(p => expect(p > 0 && p < 1).toBe(true));
+  });
+});
+
+describe('fitCalibration', () => {
+  it('returns null when turned off or when the hold-out has one outcome class', () => {
+    expect(fitCalibration('NONE', [0.2, 0.8], [0, 1])).toBeNull();
+    expect(fitCalibration('ISOTONIC', [0.2, 0.8], [1, 1])).toBeNull();
+    expect(fitCalibration('PLATT', [0.2, 0.8], [0, 0])).toBeNull();
+  });
+});
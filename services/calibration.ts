@@ -0,0 +1,87 @@
+import { CalibrationMethod } from "../types";
+
+// Post-hoc calibration so that a riskScore of 0.8 means roughly 80% of such patients switch.
+// Both calibrators map a raw score to a probability and are fitted on held-out training patients.
+
+export type CalibrationModel =
+  | { method: 'PLATT'; a: number; b: number }
+  | { method: 'ISOTONIC'; xs: number[]; ys: number[] };
+
+const EPSILON = 1e-6;
+const clip = (p: number) => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+const logit = (p: number) => Math.log(clip(p) / (1 - clip(p)));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Platt scaling: p = sigmoid(a * logit(score) + b), fitted by Newton's method on log-loss
+// with Platt's smoothed targets to avoid overfitting tiny hold-outs
+const fitPlatt = (scores: number[], labels: number[]): CalibrationModel => {
+  const positives = labels.filter(y => y === 1).length;
+  const negatives = labels.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const targets = labels.map(y => (y === 1 ? hi : lo));
+  const f = scores.map(logit);
+
+  let a = 1, b = 0;
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = EPSILON, hab = 0, hbb = EPSILON;
+    f.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const d = p - targets[i];
+      const w = p * (1 - p);
+      ga += d * x; gb += d;
+      haa += w * x * x; hab += w * x; hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) < 1e-8 && Math.abs(db) < 1e-8) break;
+  }
+  return { method: 'PLATT', a, b };
+};
+
+// Isotonic regression by pool-adjacent-violators: a monotone step function from score to observed rate
+const fitIsotonic = (scores: number[], labels: number[]): CalibrationModel => {
+  const order = scores.map((s, i) => i).sort((i, j) => scores[i] - scores[j]);
+  const blocks: { sumX: number; sumY: number; n: number }[] = [];
+
+  order.forEach(i => {
+    blocks.push({ sumX: scores[i], sumY: labels[i], n: 1 });
+    // Merge while the previous block's rate is above the new one
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sumY / prev.n <= last.sumY / last.n) break;
+      blocks.splice(blocks.length - 2, 2, { sumX: prev.sumX + last.sumX, sumY: prev.sumY + last.sumY, n: prev.n + last.n });
+    }
+  });
+
+  return {
+    method: 'ISOTONIC',
+    xs: blocks.map(b => b.sumX / b.n),
+    ys: blocks.map(b => b.sumY / b.n),
+  };
+};
+
+// Returns null when the hold-out cannot support a fit (needs both outcomes)
+export const fitCalibration = (method: CalibrationMethod, scores: number[], labels: number[]): CalibrationModel | null => {
+  const positives = labels.filter(y => y === 1).length;
+  if (method === 'NONE' || positives === 0 || positives === labels.length) return null;
+  return method === 'PLATT' ? fitPlatt(scores, labels) : fitIsotonic(scores, labels);
+};
+
+export const applyCalibration = (model: CalibrationModel, score: number): number => {
+  if (model.method === 'PLATT') return sigmoid(model.a * logit(score) + model.b);
+
+  // Linear interpolation between isotonic block centres, flat beyond the ends
+  const { xs, ys } = model;
+  if (score <= xs[0]) return ys[0];
+  if (score >= xs[xs.length - 1]) return ys[ys.length - 1];
+  let k = 1;
+  while (xs[k] < score) k++;
+  const t = (score - xs[k - 1]) / (xs[k] - xs[k - 1] || 1);
+  return ys[k - 1] + t * (ys[k] - ys[k - 1]);
+};
@@ -0,0 +1,231 @@
+import { ClaimEvent, ClaimRecord, ClaimType, ColumnKeywords, LineOfTherapyRules, PatientHistory, PatientProfile } from "../types";
+import { monthsBetween, parseClaimDate, yearOf } from "./dateUtils";
+import { DEFAULT_LINE_OF_THERAPY_RULES, deriveLinesOfTherapy } from "./lineOfTherapy";
+
+// Helper to find column index loosely. Columns already claimed by another field are skipped
+// so that overlapping keywords (e.g. "service" for both procedure and date) resolve to different columns.
+export const findColumnIndex = (headers: string[], keywords: string[], taken: Set<number> = new Set()): number => {
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim().replace(/[^a-z0-9]/g, ''));
+  const free = (idx: number) => !taken.has(idx);
+
+  // 1. Exact match attempt
+  for (const keyword of keywords) {
+    const idx = lowerHeaders.findIndex((h, i) => free(i) && h === keyword);
+    if (idx !== -1) return idx;
+  }
+
+  // 2. Starts with match
+  for (const keyword of keywords) {
+    const idx = lowerHeaders.findIndex((h, i) => free(i) && h.startsWith(keyword));
+    if (idx !== -1) return idx;
+  }
+
+  // 3. Partial match attempt (includes)
+  for (const keyword of keywords) {
+    const idx = lowerHeaders.findIndex((h, i) => free(i) && h.includes(keyword));
+    if (idx !== -1) return idx;
+  }
+
+  return -1;
+};
+
+const normalizeGender = (raw: string): string | undefined => {
+  const value = raw.trim().toUpperCase();
+  if (!value) return undefined;
+  if (value.startsWith('F') || value === 'W') return 'F';
+  if (value.startsWith('M')) return 'M';
+  return 'U';
+};
+
+// The age column may carry an age, a birth year or a date of birth
+const parseAgeValue = (raw: string): Pick<ClaimRecord, 'age' | 'birthYear'> => {
+  const value = raw.trim();
+  if (!value) return {};
+  if (/^\d{1,3}(\.\d+)?$/.test(value)) {
+    const age = Math.floor(Number(value));
+    return age > 0 && age < 120 ? { age } : {};
+  }
+  if (/^\d{4}$/.test(value)) return { birthYear: Number(value) };
+  const dob = parseClaimDate(value);
+  return dob ? { birthYear: yearOf(dob) } : {};
+};
+
+// 1. Parse a claims CSV into one ClaimRecord per row. Throws with a user-facing message on mapping errors.
+export const parseClaimsCsv = (text: string, columnKeywords: ColumnKeywords): ClaimRecord[] => {
+  const lines = text.split('\n');
+  if (lines.length < 2) {
+    throw new Error("File appears to be empty or missing headers.");
+  }
+
+  // Pre-process headers to handle potential BOM or weird encoding
+  const headerLine = lines[0].replace(/^\uFEFF/, '');
+  const headers = headerLine.split(',').map(h => h.trim());
+
+  const taken = new Set<number>();
+  const detect = (keywords: string[]) => {
+    const idx = findColumnIndex(headers, keywords, taken);
+    if (idx !== -1) taken.add(idx);
+    return idx;
+  };
+
+  // Order matters: required columns claim their header first
+  const idIndex = detect(columnKeywords.id);
+  const dateIndex = detect(columnKeywords.date);
+  const dxIndex = detect(columnKeywords.diagnosis);
+  const rxIndex = detect(columnKeywords.prescription);
+  const pxIndex = detect(columnKeywords.procedure);
+  const npiIndex = detect(columnKeywords.npi);
+  const prescriberIndex = detect(columnKeywords.prescriber);
+  const specialtyIndex = detect(columnKeywords.specialty);
+  const ageIndex = detect(columnKeywords.age);
+  const genderIndex = detect(columnKeywords.gender);
+
+  const missing = [];
+  if (idIndex === -1) missing.push(`Patient ID (keywords: ${columnKeywords.id.slice(0, 3).join(', ')}...)`);
+  if (dxIndex === -1) missing.push(`Diagnosis (keywords: ${columnKeywords.diagnosis.slice(0, 3).join(', ')}...)`);
+  if (rxIndex === -1 && pxIndex === -1) missing.push(`Drug/Procedure (keywords: ${columnKeywords.prescription.slice(0, 3).join(', ')}...)`);
+  if (dateIndex === -1) missing.push(`Date (keywords: ${columnKeywords.date.slice(0, 3).join(', ')}...)`);
+
+  if (missing.length > 0) {
+    throw new Error(`Mapping Error: Could not identify columns for: \n${missing.join('\n')}. \n\nPlease check Admin Settings for allowed column names.`);
+  }
+
+  const requiredMax = Math.max(idIndex, dxIndex, dateIndex);
+  const cell = (values: string[], idx: number) => (idx === -1 ? '' : values[idx] || '');
+
+  // Robust CSV Parse
+  const records: ClaimRecord[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line.trim()) return;
+    const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/^"|"$/g, ''));
+    if (values.length <= requiredMax) return;
+
+    const patientId = cell(values, idIndex);
+    const serviceDate = parseClaimDate(cell(values, dateIndex));
+    // Rows without a patient or a valid service date cannot be placed on a timeline
+    if (!patientId || !serviceDate) return;
+
+    records.push({
+      claimId: `R${i + 2}`, // 1-based file line number
+      patientId,
+      serviceDate,
+      diagnosisCode: cell(values, dxIndex) || undefined,
+      drugCode: cell(values, rxIndex) || undefined,
+      procedureCode: cell(values, pxIndex) || undefined,
+      ...parseAgeValue(cell(values, ageIndex)),
+      gender: normalizeGender(cell(values, genderIndex)),
+      npiId: cell(values, npiIndex) || undefined,
+      doctorName: cell(values, prescriberIndex) || undefined,
+      npiSpecialty: cell(values, specialtyIndex) || undefined,
+    });
+  });
+
+  if (records.length === 0) {
+    throw new Error("No claim rows with a patient ID and a valid service date were found.");
+  }
+  return records;
+};
+
+// 2. Group claim rows by patient into ordered longitudinal histories
+export const buildPatientHistories = (records: ClaimRecord[]): PatientHistory[] => {
+  const byPatient = new Map<string, ClaimRecord[]>();
+  records.forEach(r => {
+    const rows = byPatient.get(r.patientId);
+    if (rows) rows.push(r);
+    else byPatient.set(r.patientId, [r]);
+  });
+
+  const typeOrder: Record<ClaimType, number> = { DX: 0, PX: 1, RX: 2 };
+
+  return Array.from(byPatient.entries()).map(([patientId, rows]) => {
+    const sortedRows = [...rows].sort((a, b) => a.serviceDate.localeCompare(b.serviceDate));
+    const events: ClaimEvent[] = [];
+
+    sortedRows.forEach(r => {
+      const provider = { npiId: r.npiId, doctorName: r.doctorName, npiSpecialty: r.npiSpecialty };
+      const add = (type: ClaimType, code?: string) => {
+        if (code) events.push({ claimId: r.claimId, date: r.serviceDate, type, code, ...provider });
+      };
+      add('DX', r.diagnosisCode);
+      add('PX', r.procedureCode);
+      add('RX', r.drugCode);
+    });
+    events.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type]);
+
+    const firstServiceDate = sortedRows[0].serviceDate;
+    const lastServiceDate = sortedRows[sortedRows.length - 1].serviceDate;
+
+    // Most recent non-empty demographics win
+    const latest = <K extends keyof ClaimRecord>(key: K) =>
+      [...sortedRows].reverse().find(r => r[key] !== undefined)?.[key];
+    const reportedAge = latest('age') as number | undefined;
+    const birthYear = latest('birthYear') as number | undefined;
+
+    return {
+      patientId,
+      events,
+      claimCount: new Set(rows.map(r => r.claimId)).size,
+      firstServiceDate,
+      lastServiceDate,
+      age: reportedAge ?? (birthYear ? yearOf(lastServiceDate) - birthYear : undefined),
+      gender: latest('gender') as string | undefined,
+    };
+  });
+};
+
+const mostFrequent = (codes: string[]): string | undefined => {
+  const counts = new Map<string, number>();
+  codes.forEach(c => counts.set(c, (counts.get(c) || 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, code) => {
+    if (best === undefined || count > counts.get(best)!) best = code;
+  });
+  return best;
+};
+
+// 3. Derive the flat PatientProfile used by the modeling steps from a patient's history.
+// Therapy fields come from the line-of-therapy engine; `drugs` is empty until the ontology is resolved.
+export const derivePatientProfile = (
+  history: PatientHistory,
+  drugs: string[] = [],
+  rules: LineOfTherapyRules = DEFAULT_LINE_OF_THERAPY_RULES
+): PatientProfile => {
+  const dx = history.events.filter(e => e.type === 'DX');
+  const rx = history.events.filter(e => e.type === 'RX');
+  const px = history.events.filter(e => e.type === 'PX');
+
+  const therapyLines = deriveLinesOfTherapy(history, drugs, rules);
+  const currentLine = therapyLines[therapyLines.length - 1];
+  const monthsOnCurrentTherapy = currentLine
+    ? Math.round(monthsBetween(currentLine.startDate, currentLine.endDate || history.lastServiceDate) * 10) / 10
+    : 0;
+
+  const provider = [...history.events].reverse().find(e => e.npiId || e.doctorName);
+  const lastTreatment = rx[rx.length - 1] || px[px.length - 1];
+
+  return {
+    id: history.patientId,
+    age: history.age,
+    gender: history.gender || 'U',
+    diagnosisCode: mostFrequent(dx.map(e => e.code)) || 'Unknown',
+    currentTherapyLine: currentLine?.lineNumber || 0,
+    monthsOnCurrentTherapy,
+    lastVisitDate: history.lastServiceDate,
+    npiSpecialty: provider?.npiSpecialty || 'Unknown',
+    drugId: currentLine ? currentLine.regimen.join(' + ') : lastTreatment?.code || 'Unknown',
+    doctorName: provider?.doctorName || 'Unknown Provider',
+    npiId: provider?.npiId || 'Unknown',
+    history,
+    therapyLines,
+  };
+};
+
+export const buildPatientProfiles = (records: ClaimRecord[]): PatientProfile[] =>
+  buildPatientHistories(records).map(h => derivePatientProfile(h));
+
+// Re-run the derivation once the study drugs are known (or the Admin line-of-therapy rules change)
+export const rederivePatientProfiles = (
+  patients: PatientProfile[],
+  drugs: string[],
+  rules: LineOfTherapyRules
+): PatientProfile[] => patients.map(p => derivePatientProfile(p.history, drugs, rules));
@@ -0,0 +1,37 @@
+// Matching of claim codes against ontology lists. ICD/CPT lists may use SQL-style ("C50%")
+// or glob-style ("C50*") wildcards; comparison ignores case and dots so "C50911" matches "C50.911".
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[.\s]/g, '');
+
+export const matchesCodePattern = (code: string, pattern: string): boolean => {
+  const normalizedCode = normalizeCode(code);
+  const normalizedPattern = normalizeCode(pattern);
+  if (!normalizedPattern) return false;
+
+  if (/[%*]$/.test(normalizedPattern)) {
+    return normalizedCode.startsWith(normalizedPattern.replace(/[%*]+$/, ''));
+  }
+  return normalizedCode === normalizedPattern;
+};
+
+export const matchesAnyCode = (code: string, patterns: string[]): boolean =>
+  patterns.some(p => matchesCodePattern(code, p));
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Resolves a drug claim (NDC description, brand or generic name) to an ontology drug.
+// Returns null when the claim is not one of the study drugs.
+export const matchDrug = (code: string, drugs: string[]): string | null => {
+  const claim = normalizeName(code);
+  if (!claim) return null;
+
+  for (const drug of drugs) {
+    const name = normalizeName(drug);
+    if (!name) continue;
+    // "TAMOXIFEN CITRATE 20MG" -> "Tamoxifen"
+    if (claim === name || ` ${claim} `.includes(` ${name} `)) return drug;
+    // Ontology entries can group agents, e.g. "Aromatase Inhibitors (Letrozole, Anastrozole)"
+    if (claim.length >= 4 && ` ${name} `.includes(` ${claim} `)) return code;
+  }
+  return null;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { ClaimEvent, OntologyMapping, PatientProfile, TherapyLine } from "../types";
+import { buildCohort } from "./cohortBuilder";
+
+const ONTOLOGY: OntologyMapping = {
+  diseaseName: 'Breast Cancer',
+  icdCodes: ['C50%'],
+  cptCodes: [],
+  drugs: ['Tamoxifen', 'Letrozole'],
+  targetLineTransition: '2L to 3L',
+};
+
+// 6 months before the 2023-07-01 index date is 2022-12-30
+const CONFIG = { lookbackMonths: 6, minClaimsCount: 2 };
+
+const line = (lineNumber: number, startDate: string, drug: string): TherapyLine => ({
+  lineNumber,
+  regimen: [drug],
+  startDate,
+  lastClaimDate: startDate,
+  endReason: 'ONGOING',
+  claimIds: [],
+});
+
+const INDEXED_LINES = [line(1, '2022-06-10', 'Tamoxifen'), line(2, '2023-07-01', 'Letrozole')];
+
+// [claimId, date, type, code]; the history starts at `firstServiceDate` (default: the first claim)
+const patient = (
+  id: string,
+  claims: [string, string, ClaimEvent['type'], string][],
+  therapyLines: TherapyLine[] = INDEXED_LINES,
+  firstServiceDate?: string
+): PatientProfile => {
+  const events = claims.map(([claimId, date, type, code]): ClaimEvent => ({ claimId, date, type, code }));
+  return {
+    id,
+    gender: 'F',
+    diagnosisCode: 'C50.911',
+    currentTherapyLine: therapyLines.length,
+    monthsOnCurrentTherapy: 1,
+    lastVisitDate: events[events.length - 1].date,
+    npiSpecialty: 'Oncology',
+    drugId: 'Letrozole',
+    doctorName: 'Dr. Smith',
+    npiId: '1234567890',
+    history: {
+      patientId: id,
+      events,
+      claimCount: new Set(claims.map(c => c[0])).size,
+      firstServiceDate: firstServiceDate ?? events[0].date,
+      lastServiceDate: events[events.length - 1].date,
+    },
+    therapyLines,
+  };
+};
+
+const ELIGIBLE = patient('ELIGIBLE', [
+  ['C1', '2022-06-01', 'DX', 'C50.911'],
+  ['C2', '2023-02-01', 'DX', 'C50.912'],
+  ['C3', '2023-07-01', 'DX', 'C50.911'],
+  ['C3', '2023-07-01', 'RX', 'LETROZOLE 2.5MG'],
+]);
+
+const PATIENTS = [
+  ELIGIBLE,
+  // Fails every rule; reported only against the first
+  patient('NO_DIAGNOSIS', [['C1', '2023-01-01', 'DX', 'I10']], []),
+  patient('NO_DRUG', [['C1', '2022-06-01', 'DX', 'C50.911'], ['C2', '2023-03-01', 'DX', 'C50.911']], []),
+  patient('FIRST_LINE_ONLY', [['C1', '2022-06-01', 'DX', 'C50.911'], ['C2', '2022-06-10', 'RX', 'Tamoxifen']], [INDEXED_LINES[0]]),
+  patient('SHORT_HISTORY', [
+    ['C1', '2023-03-01', 'DX', 'C50.911'],
+    ['C2', '2023-05-01', 'DX', 'C50.911'],
+    ['C3', '2023-07-01', 'RX', 'Letrozole'],
+  ]),
+  // Only the index claim counts: the diagnosis predates the lookback and I10 is not a study code
+  patient('FEW_CLAIMS', [
+    ['C1', '2022-06-01', 'DX', 'C50.911'],
+    ['C2', '2023-03-01', 'DX', 'I10'],
+    ['C3', '2023-07-01', 'RX', 'Letrozole'],
+  ]),
+];
+
+describe('buildCohort', () => {
+  const cohort = buildCohort(PATIENTS, ONTOLOGY, CONFIG);
+
+  it('applies the rules in order and counts each step against the patients still remaining', () => {
+    expect(cohort.initialCount).toBe(6);
+    expect(cohort.steps.map(s => [s.rule, s.excluded, s.remaining])).toEqual([
+      ['DIAGNOSIS_MATCH', 1, 5],
+      ['DRUG_EXPOSURE', 1, 4],
+      ['ELIGIBLE_LINE', 1, 3],
+      ['LOOKBACK_CONTINUITY', 1, 2],
+      ['MIN_CLAIMS', 1, 1],
+    ]);
+    expect(cohort.included.map(p => p.id)).toEqual(['ELIGIBLE']);
+  });
+
+  it('reports each excluded patient once, against the first rule they fail, with a reason', () => {
+    expect(cohort.excluded).toEqual([
+      { patientId: 'NO_DIAGNOSIS', rule: 'DIAGNOSIS_MATCH', reason: 'No diagnosis matching C50%' },
+      { patientId: 'NO_DRUG', rule: 'DRUG_EXPOSURE', reason: 'No claims for a study drug' },
+      { patientId: 'FIRST_LINE_ONLY', rule: 'ELIGIBLE_LINE', reason: 'Only reached line 1' },
+      { patientId: 'SHORT_HISTORY', rule: 'LOOKBACK_CONTINUITY', reason: 'History starts 2023-03-01, after lookback start 2022-12-30' },
+      { patientId: 'FEW_CLAIMS', rule: 'MIN_CLAIMS', reason: '1 qualifying claim in lookback (min 2)' },
+    ]);
+  });
+
+  it('leaves every included patient with an index line', () => {
+    cohort.included.forEach(p => expect(p.therapyLines.some(l => l.lineNumber === 2)).toBe(true));
+  });
+
+  it('counts a claim carrying several qualifying codes once', () => {
+    // ELIGIBLE has C2 and C3 in the lookback; C3 is both a diagnosis and a study drug
+    expect(buildCohort([ELIGIBLE], ONTOLOGY, { ...CONFIG, minClaimsCount: 3 }).excluded).toEqual([
+      { patientId: 'ELIGIBLE', rule: 'MIN_CLAIMS', reason: '2 qualifying claims in lookback (min 3)' },
+    ]);
+  });
+
+  it('labels the steps from the ontology and config', () => {
+    expect(cohort.steps.map(s => s.label)).toEqual([
+      'Diagnosis in C50%',
+      'Exposed to a study drug',
+      'Started line 2 (index date)',
+      '6m of history before index',
+      '≥ 2 qualifying claims in 6m lookback',
+    ]);
+  });
+
+  it('does not filter on diagnosis when the ontology has no ICD codes', () => {
+    const open = buildCohort(PATIENTS, { ...ONTOLOGY, icdCodes: [] }, CONFIG);
+
+    expect(open.steps[0]).toMatchObject({ rule: 'DIAGNOSIS_MATCH', label: 'Diagnosis (no ICD filter)', excluded: 0 });
+    expect(open.excluded.find(e => e.patientId === 'NO_DIAGNOSIS')?.rule).toBe('DRUG_EXPOSURE');
+  });
+
+  it('recomputes as the lookback and minimum claims change', () => {
+    const relaxed = buildCohort(PATIENTS, ONTOLOGY, { lookbackMonths: 3, minClaimsCount: 1 });
+
+    expect(relaxed.included.map(p => p.id)).toEqual(['ELIGIBLE', 'SHORT_HISTORY', 'FEW_CLAIMS']);
+  });
+});
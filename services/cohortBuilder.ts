@@ -0,0 +1,102 @@
+import { ClaimEvent, CohortConfig, CohortExclusion, CohortResult, CohortRuleId, OntologyMapping, PatientProfile } from "../types";
+import { addMonths } from "./dateUtils";
+import { matchDrug, matchesAnyCode } from "./codeMatching";
+import { findIndexLine, parseTargetTransition } from "./outcomeLabeling";
+
+interface CohortContext {
+  ontology: OntologyMapping;
+  config: Pick<CohortConfig, 'lookbackMonths' | 'minClaimsCount'>;
+  fromLine: number;
+}
+
+interface CohortRule {
+  id: CohortRuleId;
+  label: (ctx: CohortContext) => string;
+  // Returns the exclusion reason, or null when the patient passes
+  check: (patient: PatientProfile, ctx: CohortContext) => string | null;
+}
+
+// A claim qualifies when it carries a study diagnosis, procedure or drug. Empty ontology lists do not restrict.
+const isQualifyingEvent = (e: ClaimEvent, ontology: OntologyMapping): boolean => {
+  if (e.type === 'DX') return ontology.icdCodes.length === 0 || matchesAnyCode(e.code, ontology.icdCodes);
+  if (e.type === 'PX') return ontology.cptCodes.length === 0 || matchesAnyCode(e.code, ontology.cptCodes);
+  return ontology.drugs.length === 0 || matchDrug(e.code, ontology.drugs) !== null;
+};
+
+// Rules are applied in order; each patient is reported against the first rule they fail
+const COHORT_RULES: CohortRule[] = [
+  {
+    id: 'DIAGNOSIS_MATCH',
+    label: ({ ontology }) => ontology.icdCodes.length > 0
+      ? `Diagnosis in ${ontology.icdCodes.slice(0, 3).join(', ')}${ontology.icdCodes.length > 3 ? '…' : ''}`
+      : 'Diagnosis (no ICD filter)',
+    check: (p, { ontology }) => {
+      if (ontology.icdCodes.length === 0) return null;
+      const matched = p.history.events.some(e => e.type === 'DX' && matchesAnyCode(e.code, ontology.icdCodes));
+      return matched ? null : `No diagnosis matching ${ontology.icdCodes.join(', ')}`;
+    },
+  },
+  {
+    id: 'DRUG_EXPOSURE',
+    label: ({ ontology }) => ontology.drugs.length > 0 ? 'Exposed to a study drug' : 'Any drug exposure',
+    // Therapy lines are only derived from study drug claims
+    check: (p) => (p.therapyLines.length > 0 ? null : 'No claims for a study drug'),
+  },
+  {
+    id: 'ELIGIBLE_LINE',
+    label: ({ fromLine }) => `Started line ${fromLine} (index date)`,
+    check: (p, { fromLine }) =>
+      findIndexLine(p, fromLine) ? null : `Only reached line ${p.therapyLines[p.therapyLines.length - 1].lineNumber}`,
+  },
+  {
+    id: 'LOOKBACK_CONTINUITY',
+    label: ({ config }) => `${config.lookbackMonths}m of history before index`,
+    check: (p, { config, fromLine }) => {
+      const lookbackStart = addMonths(findIndexLine(p, fromLine)!.startDate, -config.lookbackMonths);
+      return p.history.firstServiceDate <= lookbackStart
+        ? null
+        : `History starts ${p.history.firstServiceDate}, after lookback start ${lookbackStart}`;
+    },
+  },
+  {
+    id: 'MIN_CLAIMS',
+    label: ({ config }) => `≥ ${config.minClaimsCount} qualifying claims in ${config.lookbackMonths}m lookback`,
+    check: (p, { ontology, config, fromLine }) => {
+      const indexDate = findIndexLine(p, fromLine)!.startDate;
+      const lookbackStart = addMonths(indexDate, -config.lookbackMonths);
+      const qualifying = new Set(
+        p.history.events
+          .filter(e => e.date >= lookbackStart && e.date <= indexDate && isQualifyingEvent(e, ontology))
+          .map(e => e.claimId)
+      ).size;
+      return qualifying >= config.minClaimsCount
+        ? null
+        : `${qualifying} qualifying claim${qualifying === 1 ? '' : 's'} in lookback (min ${config.minClaimsCount})`;
+    },
+  },
+];
+
+// Apply the cohort definition before modeling and report who was excluded and why
+export const buildCohort = (
+  patients: PatientProfile[],
+  ontology: OntologyMapping,
+  config: Pick<CohortConfig, 'lookbackMonths' | 'minClaimsCount'>
+): CohortResult => {
+  const ctx: CohortContext = { ontology, config, fromLine: parseTargetTransition(ontology.targetLineTransition).fromLine };
+  const excluded: CohortExclusion[] = [];
+  let remaining = patients;
+
+  const steps = COHORT_RULES.map(rule => {
+    const kept: PatientProfile[] = [];
+    remaining.forEach(p => {
+      const reason = rule.check(p, ctx);
+      if (reason === null) kept.push(p);
+      else excluded.push({ patientId: p.id, rule: rule.id, reason });
+    });
+    const step = { rule: rule.id, label: rule.label(ctx), remaining: kept.length, excluded: remaining.length - kept.length };
+    remaining = kept;
+    return step;
+  });
+
+  return { initialCount: patients.length, included: remaining, excluded, steps };
+};
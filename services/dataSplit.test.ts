@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { PatientProfile, SplitConfig } from "../types";
+import { assignCalibrationHoldout, assignFolds, assignTrainTestSplit } from "./dataSplit";
+import { addDays } from "./dateUtils";
+
+type Outcome = 'POSITIVE' | 'NEGATIVE' | 'CENSORED';
+
+const patient = (n: number, outcome: Outcome, npiId: string): PatientProfile => {
+  const indexDate = addDays('2022-01-01', n * 3);
+  return {
+    id: `P${String(n).padStart(3, '0')}`,
+    gender: 'F',
+    diagnosisCode: 'C50.911',
+    currentTherapyLine: 1,
+    monthsOnCurrentTherapy: 6,
+    lastVisitDate: '2024-01-01',
+    npiSpecialty: 'Oncology',
+    drugId: 'Tamoxifen',
+    doctorName: `Dr. ${npiId}`,
+    npiId,
+    actualOutcome: outcome === 'POSITIVE',
+    outcomeLabel: {
+      fromLine: 1,
+      toLine: 2,
+      indexDate,
+      indexRegimen: ['Tamoxifen'],
+      windowEndDate: addDays(indexDate, 183),
+      outcome: outcome === 'POSITIVE',
+      censored: outcome === 'CENSORED',
+      timeToEventDays: 120,
+      eventObserved: outcome === 'POSITIVE',
+    },
+    history: { patientId: `P${n}`, events: [], claimCount: 0, firstServiceDate: '2021-01-01', lastServiceDate: '2024-01-01' },
+    therapyLines: [],
+  };
+};
+
+// 100 patients: 30 positive, 60 negative, 10 censored, spread over 12 prescribers
+const PATIENTS = Array.from({ length: 100 }, (_, i) =>
+  patient(i, i % 10 < 3 ? 'POSITIVE' : i % 10 < 9 ? 'NEGATIVE' : 'CENSORED', `NPI${i % 12}`));
+
+const config = (strategy: SplitConfig['strategy'], seed = 42): SplitConfig => ({ strategy, seed, folds: 5 });
+
+const testIds = (patients: PatientProfile[]) => patients.filter(p => p.split === 'TEST').map(p => p.id);
+
+const countBy = (patients: PatientProfile[]) => ({
+  positive: patients.filter(p => p.outcomeLabel!.outcome).length,
+  negative: patients.filter(p => !p.outcomeLabel!.outcome && !p.outcomeLabel!.censored).length,
+  censored: patients.filter(p => p.outcomeLabel!.censored).length,
+});
+
+describe('assignTrainTestSplit', () => {
+  it.each(['RANDOM', 'STRATIFIED'] as const)('%s is reproducible for a seed and changes with it', strategy => {
+    const split = testIds(assignTrainTestSplit(PATIENTS, 0.2, config(strategy)));
+
+    expect(split).toHaveLength(20);
+    expect(testIds(assignTrainTestSplit(PATIENTS, 0.2, config(strategy)))).toEqual(split);
+    expect(testIds(assignTrainTestSplit(PATIENTS, 0.2, config(strategy, 7)))).not.toEqual(split);
+  });
+
+  it('keeps the outcome mix of the cohort in both splits when stratified', () => {
+    const split = assignTrainTestSplit(PATIENTS, 0.2, config('STRATIFIED'));
+
+    expect(countBy(split.filter(p => p.split === 'TEST'))).toEqual({ positive: 6, negative: 12, censored: 2 });
+    expect(countBy(split.filter(p => p.split === 'TRAIN'))).toEqual({ positive: 24, negative: 48, censored: 8 });
+  });
+
+  it('holds out the latest index dates out of time', () => {
+    const split = assignTrainTestSplit([...PATIENTS].reverse(), 0.25, config('OUT_OF_TIME'));
+    const indexDates = (s: 'TRAIN' | 'TEST') => split.filter(p => p.split === s).map(p => p.outcomeLabel!.indexDate);
+
+    expect(indexDates('TEST')).toHaveLength(25);
+    const latestTrain = indexDates('TRAIN').sort().pop()!;
+    indexDates('TEST').forEach(date => expect(date > latestTrain).toBe(true));
+  });
+
+  it('keeps every patient and their order', () => {
+    expect(assignTrainTestSplit(PATIENTS, 0.3, config('RANDOM')).map(p => p.id)).toEqual(PATIENTS.map(p => p.id));
+  });
+});
+
+describe('assignFolds', () => {
+  const folds = assignFolds(PATIENTS, config('GROUPED_KFOLD'));
+
+  it('puts every patient of a prescriber in the same fold', () => {
+    const foldsByNpi = new Map<string, Set<number>>();
+    PATIENTS.forEach(p => foldsByNpi.set(p.npiId, (foldsByNpi.get(p.npiId) || new Set()).add(folds.get(p.id)!)));
+
+    expect(folds.size).toBe(PATIENTS.length);
+    foldsByNpi.forEach(assigned => expect(assigned.size).toBe(1));
+  });
+
+  it('uses every fold and keeps them close in size', () => {
+    const sizes = [0, 1, 2, 3, 4].map(f => PATIENTS.filter(p => folds.get(p.id) === f).length);
+    const largestGroup = Math.max(...Array.from(new Set(PATIENTS.map(p => p.npiId))).map(npi => PATIENTS.filter(p => p.npiId === npi).length));
+
+    sizes.forEach(size => expect(size).toBeGreaterThan(0));
+    expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(largestGroup);
+  });
+
+  it('is reproducible for a seed', () => {
+    expect(assignFolds(PATIENTS, config('GROUPED_KFOLD'))).toEqual(folds);
+  });
+
+  it('falls back to one group per patient without an NPI', () => {
+    const unknown = PATIENTS.slice(0, 10).map(p => ({ ...p, npiId: '' }));
+    const assigned = assignFolds(unknown, config('GROUPED_KFOLD'));
+
+    expect([0, 1, 2, 3, 4].map(f => unknown.filter(p => assigned.get(p.id) === f).length)).toEqual([2, 2, 2, 2, 2]);
+  });
+});
+
+describe('assignCalibrationHoldout', () => {
+  it('holds out part of TRAIN with an observed outcome, never TEST or censored patients', () => {
+    const split = assignTrainTestSplit(PATIENTS, 0.2, config('STRATIFIED'));
+    const withHoldout = assignCalibrationHoldout(split, 0.25, 42);
+    const holdout = withHoldout.filter(p => p.calibrationHoldout);
+
+    expect(holdout).toHaveLength(18); // 25% of the 72 observed TRAIN patients
+    holdout.forEach(p => {
+      expect(p.split).toBe('TRAIN');
+      expect(p.outcomeLabel!.censored).toBe(false);
+    });
+  });
+});
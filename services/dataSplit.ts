@@ -0,0 +1,69 @@
+import { PatientProfile, SplitConfig } from "../types";
+import { hasObservedOutcome } from "./outcomeLabeling";
+import { createRng, shuffle } from "./random";
+
+export const DEFAULT_SPLIT_CONFIG: SplitConfig = { strategy: 'STRATIFIED', seed: 42, folds: 5 };
+
+const withSplit = (patients: PatientProfile[], testIds: Set<string>): PatientProfile[] =>
+  patients.map(p => ({ ...p, split: testIds.has(p.id) ? 'TEST' as const : 'TRAIN' as const }));
+
+// Outcome stratum: transitioned, did not, or no observed outcome (censored)
+const stratumOf = (p: PatientProfile) => (!hasObservedOutcome(p) ? 'UNOBSERVED' : p.actualOutcome ? 'POSITIVE' : 'NEGATIVE');
+
+// Assign the TRAIN / TEST hold-out used by every model type (GROUPED_KFOLD uses assignFolds instead)
+export const assignTrainTestSplit = (
+  patients: PatientProfile[],
+  testFraction: number,
+  config: SplitConfig
+): PatientProfile[] => {
+  const rng = createRng(config.seed);
+  const takeTest = (group: PatientProfile[]) =>
+    shuffle(rng, group).slice(0, Math.round(group.length * testFraction)).map(p => p.id);
+
+  switch (config.strategy) {
+    case 'STRATIFIED': {
+      // Same test share within each outcome stratum, so TRAIN and TEST keep the cohort's transition rate
+      const strata = new Map<string, PatientProfile[]>();
+      patients.forEach(p => strata.set(stratumOf(p), [...(strata.get(stratumOf(p)) || []), p]));
+      return withSplit(patients, new Set(Array.from(strata.values()).flatMap(takeTest)));
+    }
+    case 'OUT_OF_TIME': {
+      // The latest index dates are held out, as if the model had been trained in the past
+      const byIndexDate = [...patients].sort((a, b) =>
+        (a.outcomeLabel?.indexDate ?? a.lastVisitDate).localeCompare(b.outcomeLabel?.indexDate ?? b.lastVisitDate) || a.id.localeCompare(b.id));
+      const splitIndex = Math.round(byIndexDate.length * (1 - testFraction));
+      return withSplit(patients, new Set(byIndexDate.slice(splitIndex).map(p => p.id)));
+    }
+    default:
+      return withSplit(patients, new Set(takeTest(patients)));
+  }
+};
+
+// Prescriber-grouped k-fold: all patients of one prescriber (NPI) land in the same fold, so no fold is
+// validated on prescribers its model trained on. Largest groups go first, each into the smallest fold.
+export const assignFolds = (patients: PatientProfile[], config: SplitConfig): Map<string, number> => {
+  const groups = new Map<string, string[]>();
+  patients.forEach(p => {
+    const key = p.npiId || `patient:${p.id}`;
+    groups.set(key, [...(groups.get(key) || []), p.id]);
+  });
+
+  const sizes = new Array(config.folds).fill(0);
+  const folds = new Map<string, number>();
+  // Stable sort: groups of equal size keep their seeded shuffle order
+  shuffle(createRng(config.seed), Array.from(groups.values()))
+    .sort((a, b) => b.length - a.length)
+    .forEach(ids => {
+      const fold = sizes.indexOf(Math.min(...sizes));
+      sizes[fold] += ids.length;
+      ids.forEach(id => folds.set(id, fold));
+    });
+  return folds;
+};
+
+// Hold out part of TRAIN (patients with an observed outcome) to fit the probability calibrator
+export const assignCalibrationHoldout = (patients: PatientProfile[], holdoutFraction: number, seed: number): PatientProfile[] => {
+  const candidates = shuffle(createRng(seed + 1), patients.filter(p => p.split === 'TRAIN' && hasObservedOutcome(p)));
+  const holdout = new Set(candidates.slice(0, Math.floor(candidates.length * holdoutFraction)).map(p => p.id));
+  return patients.map(p => ({ ...p, calibrationHoldout: holdout.has(p.id) }));
+};
@@ -0,0 +1,50 @@
+// Date helpers for claims data. All dates are handled as ISO "yyyy-mm-dd" strings in UTC
+// so that day arithmetic is not affected by the browser timezone.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const DAYS_PER_MONTH = 30.4375;
+
+const toUtc = (isoDate: string): number => {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const fromUtc = (ms: number): string => new Date(ms).toISOString().split("T")[0];
+
+// Accepts yyyy-mm-dd, yyyymmdd, mm/dd/yyyy and full ISO timestamps. Returns null when unparseable.
+export const parseClaimDate = (raw: string): string | null => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  let y: number, m: number, d: number;
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = value.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/))) {
+    const year = Number(match[3]);
+    [y, m, d] = [year < 100 ? 2000 + year : year, Number(match[1]), Number(match[2])];
+  } else {
+    return null;
+  }
+
+  const ms = Date.UTC(y, m - 1, d);
+  const check = new Date(ms);
+  if (check.getUTCFullYear() !== y || check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return null;
+  return fromUtc(ms);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+
+export const monthsBetween = (from: string, to: string): number =>
+  daysBetween(from, to) / DAYS_PER_MONTH;
+
+export const addDays = (isoDate: string, days: number): string =>
+  fromUtc(toUtc(isoDate) + days * MS_PER_DAY);
+
+export const addMonths = (isoDate: string, months: number): string =>
+  addDays(isoDate, Math.round(months * DAYS_PER_MONTH));
+
+export const yearOf = (isoDate: string): number => Number(isoDate.slice(0, 4));
@@ -0,0 +1,116 @@
+import { AnalysisStats, FeatureContribution, FeatureDefinition, FeatureImportance, PatientExplanation, PatientProfile } from "../types";
+import { GradientBoostedModel, TreeNode } from "./gradientBoosting";
+import { CoxModel } from "./survival";
+
+// Per-patient and global explanations for every model type. Patients carry their own explanation;
+// global importance is the mean absolute contribution across the scored cohort.
+
+const byMagnitude = (a: FeatureContribution, b: FeatureContribution) => Math.abs(b.contribution) - Math.abs(a.contribution);
+
+// Cover-weighted mean of the leaves below a node: the tree's expected output once the path so far is known
+const computeNodeValues = (node: TreeNode, values: Map<TreeNode, number>): number => {
+  const value = node.leafValue !== undefined
+    ? node.leafValue
+    : (() => {
+        const left = computeNodeValues(node.left!, values);
+        const right = computeNodeValues(node.right!, values);
+        const total = node.left!.cover + node.right!.cover;
+        return total > 0 ? (left * node.left!.cover + right * node.right!.cover) / total : (left + right) / 2;
+      })();
+  values.set(node, value);
+  return value;
+};
+
+// Path attribution (Saabas-style, the additive approximation to TreeSHAP): each split on the way to the
+// leaf credits its feature with the change in expected value. Contributions are in log-odds and sum
+// with `baseValue` to the patient's raw margin.
+export const explainGradientBoosting = (
+  model: GradientBoostedModel,
+  features: FeatureDefinition[],
+  rows: number[][]
+): PatientExplanation[] => {
+  const values = new Map<TreeNode, number>();
+  const baseValue = model.trees.reduce((acc, tree) => acc + computeNodeValues(tree, values), model.baseMargin);
+
+  return rows.map(x => {
+    const totals = new Array(features.length).fill(0);
+    model.trees.forEach(tree => {
+      let node = tree;
+      while (node.leafValue === undefined) {
+        const child = x[node.featureIndex!] < node.threshold! ? node.left! : node.right!;
+        totals[node.featureIndex!] += values.get(child)! - values.get(node)!;
+        node = child;
+      }
+    });
+
+    return {
+      method: 'TREE_CONTRIBUTIONS',
+      baseValue,
+      contributions: features
+        .map((f, j) => ({ feature: f.name, label: f.label, value: x[j], contribution: totals[j] }))
+        .filter(c => c.contribution !== 0)
+        .sort(byMagnitude),
+    };
+  });
+};
+
+// Cox models are linear in the log-hazard, so each feature contributes beta * (x - mean) exactly
+export const explainCoxModel = (model: CoxModel, rows: number[][]): PatientExplanation[] =>
+  rows.map(x => ({
+    method: 'COX_LOG_HAZARD',
+    baseValue: 0, // The average patient
+    contributions: model.columns
+      .map((j, k) => ({
+        feature: model.features[j].name,
+        label: model.features[j].label,
+        value: x[j],
+        contribution: model.beta[k] * (x[j] - model.means[k]) / model.scales[k],
+      }))
+      .filter(c => c.contribution !== 0)
+      .sort(byMagnitude),
+  }));
+
+// LLM factors name features and give a signed weight in [-1, 1]; unknown names are kept as free text
+export const explainLlmFactors = (
+  rationale: string | undefined,
+  factors: { feature: string; weight: number }[],
+  features: FeatureDefinition[],
+  record: Record<string, number>
+): PatientExplanation => {
+  const labels = new Map(features.map(f => [f.name, f.label]));
+  return {
+    method: 'LLM_RATIONALE',
+    rationale: rationale?.trim() || undefined,
+    contributions: factors
+      .filter(f => f.feature && typeof f.weight === 'number' && isFinite(f.weight) && f.weight !== 0)
+      .map(f => ({
+        feature: f.feature,
+        label: labels.get(f.feature) || f.feature,
+        value: record[f.feature],
+        contribution: Math.min(1, Math.max(-1, f.weight)),
+      }))
+      .sort(byMagnitude),
+  };
+};
+
+export const computeFeatureImportance = (patients: PatientProfile[]): FeatureImportance[] => {
+  const explained = patients.filter(p => p.explanation);
+  const totals = new Map<string, FeatureImportance>();
+  explained.forEach(p => p.explanation!.contributions.forEach(c => {
+    const entry = totals.get(c.feature) || { feature: c.feature, label: c.label, importance: 0 };
+    entry.importance += Math.abs(c.contribution) / explained.length;
+    totals.set(c.feature, entry);
+  }));
+  return Array.from(totals.values()).sort((a, b) => b.importance - a.importance);
+};
+
+// Headline numbers for the insights view; High follows whatever threshold categorized the patients
+export const summarizeAnalysis = (patients: PatientProfile[], importance: FeatureImportance[], topCount = 5): AnalysisStats => {
+  const scored = patients.filter(p => p.riskScore !== undefined);
+  return {
+    totalPatients: patients.length,
+    highRiskCount: patients.filter(p => p.riskCategory === 'High').length,
+    avgTransitionProbability: scored.reduce((acc, p) => acc + p.riskScore!, 0) / (scored.length || 1),
+    topFactors: importance.slice(0, topCount).map(f => f.label),
+  };
+};
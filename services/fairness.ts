@@ -0,0 +1,126 @@
+import { PatientProfile } from "../types";
+import { hasObservedOutcome } from "./outcomeLabeling";
+
+// Subgroup performance on the TEST split: does the target list reach every patient group equally?
+// Demographic parity compares selection rates; equal opportunity compares recall (selection rate
+// among patients who did transition). Gaps are measured against the whole TEST set.
+
+export type FairnessDimension = 'GENDER' | 'AGE_BAND' | 'SPECIALTY' | 'DRUG' | 'LINE';
+
+export const DEFAULT_FAIRNESS_TOLERANCE = 0.1;
+export const MIN_FLAGGED_GROUP_SIZE = 10; // Smaller groups are reported but never flagged
+
+export interface SubgroupRow {
+  group: string;
+  patients: number;
+  positives: number;
+  selectionRate: number; // Share scored at or above the threshold
+  recall?: number; // Undefined without observed transitions in the group
+  precision?: number; // Undefined when nobody in the group is selected
+  meanPredicted: number;
+  observedRate: number;
+  calibrationGap: number; // meanPredicted - observedRate
+  parityDifference: number; // selectionRate - overall selection rate
+  opportunityDifference?: number; // recall - overall recall
+  parityFlag: boolean;
+  opportunityFlag: boolean;
+}
+
+export interface SubgroupReport {
+  dimension: FairnessDimension;
+  tolerance: number;
+  overall: SubgroupRow;
+  rows: SubgroupRow[];
+  maxParityDifference: number; // Largest minus smallest selection rate across flaggable groups
+  maxOpportunityDifference: number;
+}
+
+const ageBand = (age: number | undefined): string => {
+  if (age === undefined) return 'Unknown';
+  if (age < 45) return '<45';
+  if (age < 55) return '45–54';
+  if (age < 65) return '55–64';
+  if (age < 75) return '65–74';
+  return '75+';
+};
+
+const subgroupKey = (patient: PatientProfile, dimension: FairnessDimension): string => {
+  switch (dimension) {
+    case 'GENDER': return patient.gender || 'Unknown';
+    case 'AGE_BAND': return ageBand(patient.age);
+    case 'SPECIALTY': return patient.npiSpecialty || 'Unknown';
+    // As of the index date: the current line/drug already reflect transitions inside the window
+    case 'DRUG': return (patient.outcomeLabel?.indexRegimen.join(' + ') ?? patient.drugId) || 'Unknown';
+    case 'LINE': return `Line ${patient.outcomeLabel?.fromLine ?? patient.currentTherapyLine}`;
+  }
+};
+
+const summarizeGroup = (group: string, patients: PatientProfile[], threshold: number) => {
+  const selected = patients.filter(p => p.riskScore! >= threshold);
+  const positives = patients.filter(p => p.actualOutcome);
+  const truePositives = selected.filter(p => p.actualOutcome).length;
+  const meanPredicted = patients.reduce((acc, p) => acc + p.riskScore!, 0) / (patients.length || 1);
+  const observedRate = positives.length / (patients.length || 1);
+  return {
+    group,
+    patients: patients.length,
+    positives: positives.length,
+    selectionRate: selected.length / (patients.length || 1),
+    recall: positives.length > 0 ? truePositives / positives.length : undefined,
+    precision: selected.length > 0 ? truePositives / selected.length : undefined,
+    meanPredicted,
+    observedRate,
+    calibrationGap: meanPredicted - observedRate,
+  };
+};
+
+const spread = (values: number[]) => (values.length > 1 ? Math.max(...values) - Math.min(...values) : 0);
+
+// Groups are ordered largest first; beyond `maxGroups` they are pooled into "Other"
+export const computeSubgroupReport = (
+  patients: PatientProfile[],
+  dimension: FairnessDimension,
+  threshold: number,
+  tolerance = DEFAULT_FAIRNESS_TOLERANCE,
+  maxGroups = 8
+): SubgroupReport => {
+  const test = patients.filter(p => p.split === 'TEST' && hasObservedOutcome(p) && p.riskScore !== undefined);
+  const overallSummary = summarizeGroup('All TEST patients', test, threshold);
+
+  const groups = new Map<string, PatientProfile[]>();
+  test.forEach(p => {
+    const key = subgroupKey(p, dimension);
+    groups.set(key, [...(groups.get(key) || []), p]);
+  });
+  const sorted = Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+  const other = sorted.slice(maxGroups).flatMap(([, members]) => members);
+  const summaries = [
+    ...sorted.slice(0, maxGroups).map(([group, members]) => summarizeGroup(group, members, threshold)),
+    ...(other.length > 0 ? [summarizeGroup('Other', other, threshold)] : []),
+  ];
+
+  const toRow = (summary: ReturnType<typeof summarizeGroup>, flaggable: boolean): SubgroupRow => {
+    const parityDifference = summary.selectionRate - overallSummary.selectionRate;
+    const opportunityDifference = summary.recall !== undefined && overallSummary.recall !== undefined
+      ? summary.recall - overallSummary.recall
+      : undefined;
+    return {
+      ...summary,
+      parityDifference,
+      opportunityDifference,
+      parityFlag: flaggable && Math.abs(parityDifference) > tolerance,
+      opportunityFlag: flaggable && opportunityDifference !== undefined && Math.abs(opportunityDifference) > tolerance,
+    };
+  };
+
+  const rows = summaries.map(s => toRow(s, s.patients >= MIN_FLAGGED_GROUP_SIZE));
+  const flaggable = rows.filter(r => r.patients >= MIN_FLAGGED_GROUP_SIZE);
+  return {
+    dimension,
+    tolerance,
+    overall: toRow(overallSummary, false),
+    rows,
+    maxParityDifference: spread(flaggable.map(r => r.selectionRate)),
+    maxOpportunityDifference: spread(flaggable.filter(r => r.recall !== undefined).map(r => r.recall!)),
+  };
+};
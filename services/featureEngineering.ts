@@ -0,0 +1,161 @@
+import { ClaimEvent, CohortConfig, FeatureDefinition, FeatureMatrix, OntologyMapping, PatientProfile, TherapyLine, TransitionLabel } from "../types";
+import { addMonths, daysBetween, yearOf } from "./dateUtils";
+import { matchesAnyCode } from "./codeMatching";
+
+// Turns each labeled patient's claim history into a typed feature vector. Every feature is computed
+// from claims dated before the index date, so the same matrix can feed any model type without leakage.
+
+interface FeatureContext {
+  patient: PatientProfile;
+  label: TransitionLabel;
+  priorLines: TherapyLine[]; // Lines that started before the index line
+  priorEvents: ClaimEvent[]; // All claims before the index date
+  lookbackEvents: ClaimEvent[]; // Claims in [index - lookback, index)
+  lookbackDays: number;
+}
+
+interface FeatureSpec extends FeatureDefinition {
+  compute: (ctx: FeatureContext) => number;
+}
+
+// ICD-10 chapters used for comorbidity flags (study diagnosis codes are excluded before matching)
+const ICD_CHAPTERS: { id: string; label: string; test: (code: string) => boolean }[] = [
+  { id: 'infectious', label: 'Infectious disease', test: c => /^[AB]/.test(c) },
+  { id: 'other_neoplasm', label: 'Other neoplasm', test: c => /^C/.test(c) || /^D[0-4]/.test(c) },
+  { id: 'blood', label: 'Blood / immune disorder', test: c => /^D[5-8]/.test(c) },
+  { id: 'endocrine', label: 'Endocrine / metabolic (e.g. diabetes)', test: c => /^E/.test(c) },
+  { id: 'mental', label: 'Mental / behavioural', test: c => /^F/.test(c) },
+  { id: 'nervous', label: 'Nervous system', test: c => /^G/.test(c) },
+  { id: 'circulatory', label: 'Circulatory (e.g. hypertension)', test: c => /^I/.test(c) },
+  { id: 'respiratory', label: 'Respiratory', test: c => /^J/.test(c) },
+  { id: 'digestive', label: 'Digestive', test: c => /^K/.test(c) },
+  { id: 'musculoskeletal', label: 'Musculoskeletal', test: c => /^M/.test(c) },
+  { id: 'genitourinary', label: 'Genitourinary (e.g. CKD)', test: c => /^N/.test(c) },
+];
+
+const countType = (events: ClaimEvent[], type: ClaimEvent['type']) => events.filter(e => e.type === type).length;
+
+const BASE_FEATURES: FeatureSpec[] = [
+  {
+    name: 'age', label: 'Age at index', type: 'NUMERIC', source: 'DEMOGRAPHICS',
+    // Reported age is as of the last claim; step it back to the index year. -1 when unknown.
+    compute: ({ patient, label }) => patient.age !== undefined
+      ? patient.age - (yearOf(patient.history.lastServiceDate) - yearOf(label.indexDate))
+      : -1,
+  },
+  {
+    name: 'gender_female', label: 'Female', type: 'BINARY', source: 'DEMOGRAPHICS',
+    compute: ({ patient }) => (patient.gender === 'F' ? 1 : 0),
+  },
+  {
+    name: 'lookback_dx_count', label: 'Dx claims in lookback', type: 'NUMERIC', source: 'DIAGNOSIS',
+    compute: ({ lookbackEvents }) => countType(lookbackEvents, 'DX'),
+  },
+  {
+    name: 'lookback_px_count', label: 'Px claims in lookback', type: 'NUMERIC', source: 'PROCEDURE',
+    compute: ({ lookbackEvents }) => countType(lookbackEvents, 'PX'),
+  },
+  {
+    name: 'lookback_rx_count', label: 'Rx claims in lookback', type: 'NUMERIC', source: 'PRESCRIPTION',
+    compute: ({ lookbackEvents }) => countType(lookbackEvents, 'RX'),
+  },
+  {
+    name: 'lookback_distinct_drugs', label: 'Distinct drugs in lookback', type: 'NUMERIC', source: 'PRESCRIPTION',
+    compute: ({ lookbackEvents }) => new Set(lookbackEvents.filter(e => e.type === 'RX').map(e => e.code)).size,
+  },
+  {
+    name: 'days_since_last_claim', label: 'Days since last claim before index', type: 'NUMERIC', source: 'PRESCRIPTION',
+    compute: ({ priorEvents, label, lookbackDays }) => priorEvents.length > 0
+      ? daysBetween(priorEvents[priorEvents.length - 1].date, label.indexDate)
+      : lookbackDays,
+  },
+  {
+    name: 'days_of_history', label: 'Days of claims history before index', type: 'NUMERIC', source: 'DIAGNOSIS',
+    compute: ({ patient, label }) => daysBetween(patient.history.firstServiceDate, label.indexDate),
+  },
+  {
+    name: 'index_line', label: 'Index line of therapy', type: 'NUMERIC', source: 'THERAPY_LINE',
+    compute: ({ label }) => label.fromLine,
+  },
+  {
+    name: 'regimen_size', label: 'Agents in index regimen', type: 'NUMERIC', source: 'THERAPY_LINE',
+    compute: ({ label }) => label.indexRegimen.length,
+  },
+  {
+    name: 'prior_switches', label: 'Regimen switches before index', type: 'NUMERIC', source: 'THERAPY_LINE',
+    compute: ({ priorLines }) => priorLines.filter(l => l.endReason === 'SWITCH').length,
+  },
+  {
+    // The index date is the start of the index line, so time on the current regimen is measured on the line before it
+    name: 'days_on_prior_regimen', label: 'Days on the regimen before index', type: 'NUMERIC', source: 'THERAPY_LINE',
+    compute: ({ priorLines }) => {
+      const previous = priorLines[priorLines.length - 1];
+      return previous ? daysBetween(previous.startDate, previous.lastClaimDate) : 0;
+    },
+  },
+];
+
+const buildContext = (patient: PatientProfile, lookbackMonths: number): FeatureContext => {
+  const label = patient.outcomeLabel!;
+  const lookbackStart = addMonths(label.indexDate, -lookbackMonths);
+  const priorEvents = patient.history.events.filter(e => e.date < label.indexDate);
+  return {
+    patient,
+    label,
+    priorLines: patient.therapyLines.filter(l => l.lineNumber < label.fromLine),
+    priorEvents,
+    lookbackEvents: priorEvents.filter(e => e.date >= lookbackStart),
+    lookbackDays: daysBetween(lookbackStart, label.indexDate),
+  };
+};
+
+// One-hot families depend on the cohort: regimen agents, prescriber specialties and the comorbidity chapters present
+const buildCohortFeatures = (contexts: FeatureContext[], ontology: OntologyMapping): FeatureSpec[] => {
+  const agents = ontology.drugs.length > 0
+    ? ontology.drugs
+    : Array.from(new Set(contexts.flatMap(c => c.label.indexRegimen))).sort();
+  const specialties = Array.from(new Set(contexts.map(c => c.patient.npiSpecialty))).sort();
+
+  const comorbidCodes = (ctx: FeatureContext) => ctx.priorEvents
+    .filter(e => e.type === 'DX' && !matchesAnyCode(e.code, ontology.icdCodes))
+    .map(e => e.code.toUpperCase());
+  const chapters = ICD_CHAPTERS.filter(ch => contexts.some(ctx => comorbidCodes(ctx).some(ch.test)));
+
+  return [
+    ...agents.map((agent): FeatureSpec => ({
+      name: `regimen_${agent}`, label: `Index regimen includes ${agent}`, type: 'BINARY', source: 'THERAPY_LINE',
+      compute: ({ label }) => (label.indexRegimen.includes(agent) ? 1 : 0),
+    })),
+    ...chapters.map((chapter): FeatureSpec => ({
+      name: `comorbidity_${chapter.id}`, label: `Comorbidity: ${chapter.label}`, type: 'BINARY', source: 'DIAGNOSIS',
+      compute: ctx => (comorbidCodes(ctx).some(chapter.test) ? 1 : 0),
+    })),
+    ...specialties.map((specialty): FeatureSpec => ({
+      name: `specialty_${specialty}`, label: `Prescriber specialty: ${specialty}`, type: 'BINARY', source: 'PRESCRIBER',
+      compute: ({ patient }) => (patient.npiSpecialty === specialty ? 1 : 0),
+    })),
+  ];
+};
+
+// Build the feature matrix for labeled patients (patients without an outcome label have no index date and are skipped)
+export const buildFeatureMatrix = (
+  patients: PatientProfile[],
+  ontology: OntologyMapping,
+  config: Pick<CohortConfig, 'lookbackMonths'>
+): FeatureMatrix => {
+  const contexts = patients.filter(p => p.outcomeLabel).map(p => buildContext(p, config.lookbackMonths));
+  const specs = [...BASE_FEATURES, ...buildCohortFeatures(contexts, ontology)];
+
+  return {
+    features: specs.map(({ compute, ...definition }) => definition),
+    patientIds: contexts.map(c => c.patient.id),
+    rows: contexts.map(ctx => specs.map(spec => spec.compute(ctx))),
+  };
+};
+
+// Named view of one patient's row, e.g. for prompts and explanation panels
+export const getFeatureRecord = (matrix: FeatureMatrix, patientId: string): Record<string, number> | undefined => {
+  const index = matrix.patientIds.indexOf(patientId);
+  if (index === -1) return undefined;
+  return Object.fromEntries(matrix.features.map((f, j) => [f.name, matrix.rows[index][j]]));
+};
@@ -0,0 +1,84 @@
+import { Content, GoogleGenAI, Schema, Type } from "@google/genai";
+import { ChatMessage, InferenceProvider, ResponseSchema } from "./inferenceProvider";
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum, format: 'enum' }),
+  ...(schema.description && { description: schema.description }),
+});
+
+// Tool results go back as functionResponse parts; consecutive results share one user turn
+const toGeminiContents = (messages: ChatMessage[]): Content[] =>
+  messages.reduce<Content[]>((contents, message) => {
+    if (message.role === 'user') return [...contents, { role: 'user', parts: [{ text: message.content }] }];
+    if (message.role === 'assistant') {
+      return [...contents, {
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } })),
+        ],
+      }];
+    }
+    const part = { functionResponse: { id: message.toolCallId, name: message.name, response: { output: JSON.parse(message.content) } } };
+    const last = contents[contents.length - 1];
+    return last?.role === 'user' && last.parts?.every(p => p.functionResponse)
+      ? [...contents.slice(0, -1), { ...last, parts: [...last.parts, part] }]
+      : [...contents, { role: 'user', parts: [part] }];
+  }, []);
+
+export const createGeminiProvider = (model: string): InferenceProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // Created on first use so the other providers never need an API key
+  const client = () => {
+    if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return ai;
+  };
+
+  return {
+    id: 'GEMINI',
+    label: `Gemini (${model})`,
+    generate: async (request) => {
+      const response = await client().models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...(request.responseSchema && {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(request.responseSchema),
+          }),
+        },
+      });
+      return response.text || "";
+    },
+    chat: async (request) => {
+      const response = await client().models.generateContent({
+        model,
+        contents: toGeminiContents(request.messages),
+        config: {
+          systemInstruction: request.systemInstruction,
+          tools: [{
+            functionDeclarations: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: toGeminiSchema(tool.parameters),
+            })),
+          }],
+        },
+      });
+      const toolCalls = (response.functionCalls || []).map((call, i) => ({
+        id: call.id || `${call.name}-${i}`,
+        name: call.name || '',
+        arguments: call.args || {},
+      }));
+      return { content: toolCalls.length > 0 ? '' : response.text || "", toolCalls };
+    },
+  };
+};
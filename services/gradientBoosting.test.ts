@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { GradientBoostingParams } from "../types";
+import {
+  DEFAULT_BOOSTING_PARAMS,
+  GradientBoostedModel,
+  predictClassProbabilities,
+  predictProbability,
+  trainGradientBoostedTrees,
+  trainMulticlassBoostedTrees,
+} from "./gradientBoosting";
+import { createRng } from "./random";
+
+const PARAMS: GradientBoostingParams = {
+  ...DEFAULT_BOOSTING_PARAMS,
+  nEstimators: 30,
+  maxDepth: 2,
+  learningRate: 0.3,
+  subsample: 1,
+  colsampleByTree: 1,
+};
+
+// One informative feature (x0 >= 10 is positive) and one noise feature
+const SEPARABLE_X = Array.from({ length: 20 }, (_, i) => [i, (i * 7) % 5]);
+const SEPARABLE_Y = SEPARABLE_X.map(([x]) => (x >= 10 ? 1 : 0));
+
+// Overlapping classes: positives are more likely as x0 grows
+const noisyData = () => {
+  const rng = createRng(3);
+  const X = Array.from({ length: 80 }, () => [rng() * 10, rng() * 10]);
+  const y = X.map(([x]) => (rng() < x / 10 ? 1 : 0));
+  return { X, y };
+};
+
+const logLoss = (model: GradientBoostedModel, X: number[][], y: number[]) =>
+  X.reduce((acc, x, i) => {
+    const p = predictProbability(model, x);
+    return acc - (y[i] === 1 ? Math.log(p) : Math.log(1 - p));
+  }, 0) / X.length;
+
+describe('trainGradientBoostedTrees', () => {
+  it('separates linearly separable classes', () => {
+    const model = trainGradientBoostedTrees(SEPARABLE_X, SEPARABLE_Y, ['x0', 'noise'], PARAMS);
+
+    SEPARABLE_X.forEach((x, i) => {
+      if (SEPARABLE_Y[i] === 1) expect(predictProbability(model, x)).toBeGreaterThan(0.85);
+      else expect(predictProbability(model, x)).toBeLessThan(0.15);
+    });
+    expect(model.trees[0].featureIndex).toBe(0);
+  });
+
+  it('lowers the training log-loss with every tree added', () => {
+    const { X, y } = noisyData();
+    const model = trainGradientBoostedTrees(X, y, ['x0', 'x1'], { ...PARAMS, learningRate: 0.1 });
+
+    const losses = Array.from({ length: model.trees.length + 1 }, (_, k) => logLoss({ ...model, trees: model.trees.slice(0, k) }, X, y));
+    losses.slice(1).forEach((loss, k) => expect(loss).toBeLessThanOrEqual(losses[k] + 1e-12));
+    expect(losses[losses.length - 1]).toBeLessThan(losses[0] * 0.9);
+  });
+
+  it('starts from the base rate, weighted by scale_pos_weight', () => {
+    const X = [[0], [1], [2], [3]];
+    const y = [1, 0, 0, 0];
+
+    expect(trainGradientBoostedTrees(X, y, ['x'], { ...PARAMS, nEstimators: 0 }, 1).baseMargin).toBeCloseTo(Math.log(1 / 3), 12);
+    expect(trainGradientBoostedTrees(X, y, ['x'], { ...PARAMS, nEstimators: 0 }, 3).baseMargin).toBeCloseTo(0, 12);
+  });
+
+  it('raises predicted probabilities when positives are up-weighted', () => {
+    const { X, y } = noisyData();
+    const meanProbability = (model: GradientBoostedModel) => X.reduce((acc, x) => acc + predictProbability(model, x), 0) / X.length;
+
+    const plain = trainGradientBoostedTrees(X, y, ['x0', 'x1'], PARAMS, 1);
+    const weighted = trainGradientBoostedTrees(X, y, ['x0', 'x1'], PARAMS, 4);
+
+    expect(weighted.scalePosWeight).toBe(4);
+    expect(meanProbability(weighted)).toBeGreaterThan(meanProbability(plain));
+  });
+
+  it('is reproducible for a seed when subsampling rows and columns', () => {
+    const { X, y } = noisyData();
+    const params = { ...PARAMS, subsample: 0.7, colsampleByTree: 0.5 };
+    const a = trainGradientBoostedTrees(X, y, ['x0', 'x1'], params);
+    const b = trainGradientBoostedTrees(X, y, ['x0', 'x1'], params);
+    const c = trainGradientBoostedTrees(X, y, ['x0', 'x1'], { ...params, seed: params.seed + 1 });
+
+    expect(b.trees).toEqual(a.trees);
+    expect(c.trees).not.toEqual(a.trees);
+  });
+
+  it('refuses an empty training set', () => {
+    expect(() => trainGradientBoostedTrees([], [], ['x'], PARAMS)).toThrow(/empty training set/);
+  });
+});
+
+describe('trainMulticlassBoostedTrees', () => {
+  // Three clusters along x0: class 0 below 10, class 1 from 10 to 19, class 2 from 20
+  const X = Array.from({ length: 30 }, (_, i) => [i, (i * 7) % 5]);
+  const y = X.map(([x]) => Math.floor(x / 10));
+
+  it('returns a softmax distribution that favours the right class', () => {
+    const model = trainMulticlassBoostedTrees(X, y, 3, ['x0', 'noise'], PARAMS);
+
+    expect(model.trees).toHaveLength(PARAMS.nEstimators);
+    expect(model.trees.every(round => round.length === 3)).toBe(true);
+    X.forEach((x, i) => {
+      const probabilities = predictClassProbabilities(model, x);
+      expect(probabilities.reduce((acc, p) => acc + p, 0)).toBeCloseTo(1, 12);
+      expect(probabilities.indexOf(Math.max(...probabilities))).toBe(y[i]);
+    });
+  });
+
+  it('starts from smoothed class frequencies so an unseen class keeps a small probability', () => {
+    const model = trainMulticlassBoostedTrees(X, y, 4, ['x0', 'noise'], { ...PARAMS, nEstimators: 0 });
+
+    expect(model.baseMargins).toEqual([11, 11, 11, 1].map(c => Math.log(c / 34)));
+    expect(predictClassProbabilities(model, X[0])).toEqual([11, 11, 11, 1].map(c => expect.closeTo(c / 34, 12)));
+  });
+
+  it('refuses an empty training set', () => {
+    expect(() => trainMulticlassBoostedTrees([], [], 2, ['x'], PARAMS)).toThrow(/empty training set/);
+  });
+});
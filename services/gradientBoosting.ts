@@ -0,0 +1,216 @@
+import { GradientBoostingParams } from "../types";
+import { createRng, Rng } from "./random";
+
+// Minimal XGBoost-style gradient boosted decision trees for binary classification.
+// Logistic loss, second-order (gradient + hessian) leaf weights, L2 regularisation,
+// exact greedy splits, seeded row / column subsampling and `scale_pos_weight`.
+
+export interface TreeNode {
+  featureIndex?: number; // Split nodes only
+  threshold?: number; // Go left when value < threshold
+  left?: TreeNode;
+  right?: TreeNode;
+  leafValue?: number; // Leaf nodes only (already scaled by the learning rate)
+  gain: number;
+  cover: number; // Sum of hessians reaching the node
+}
+
+export interface GradientBoostedModel {
+  params: GradientBoostingParams;
+  scalePosWeight: number;
+  baseMargin: number;
+  trees: TreeNode[];
+  featureNames: string[];
+}
+
+export const DEFAULT_BOOSTING_PARAMS: GradientBoostingParams = {
+  nEstimators: 100,
+  maxDepth: 4,
+  learningRate: 0.1,
+  minChildWeight: 1,
+  subsample: 0.8,
+  colsampleByTree: 0.8,
+  lambda: 1,
+  seed: 42,
+};
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+interface BuildContext {
+  X: number[][];
+  grad: number[];
+  hess: number[];
+  features: number[];
+  params: GradientBoostingParams;
+}
+
+const leafWeight = (g: number, h: number, lambda: number) => -g / (h + lambda);
+const score = (g: number, h: number, lambda: number) => (g * g) / (h + lambda);
+
+const buildNode = (rows: number[], depth: number, ctx: BuildContext): TreeNode => {
+  const { X, grad, hess, features, params } = ctx;
+  let G = 0, H = 0;
+  rows.forEach(r => { G += grad[r]; H += hess[r]; });
+
+  const leaf: TreeNode = { leafValue: leafWeight(G, H, params.lambda) * params.learningRate, gain: 0, cover: H };
+  if (depth >= params.maxDepth || rows.length < 2) return leaf;
+
+  let best = { gain: 0, feature: -1, threshold: 0 };
+  const parentScore = score(G, H, params.lambda);
+
+  features.forEach(f => {
+    const sorted = [...rows].sort((a, b) => X[a][f] - X[b][f]);
+    let GL = 0, HL = 0;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      GL += grad[sorted[i]];
+      HL += hess[sorted[i]];
+      const current = X[sorted[i]][f];
+      const next = X[sorted[i + 1]][f];
+      if (current === next) continue;
+      const HR = H - HL;
+      if (HL < params.minChildWeight || HR < params.minChildWeight) continue;
+      const gain = 0.5 * (score(GL, HL, params.lambda) + score(G - GL, HR, params.lambda) - parentScore);
+      if (gain > best.gain) best = { gain, feature: f, threshold: (current + next) / 2 };
+    }
+  });
+
+  if (best.feature === -1) return leaf;
+
+  const leftRows = rows.filter(r => X[r][best.feature] < best.threshold);
+  const rightRows = rows.filter(r => X[r][best.feature] >= best.threshold);
+  return {
+    featureIndex: best.feature,
+    threshold: best.threshold,
+    left: buildNode(leftRows, depth + 1, ctx),
+    right: buildNode(rightRows, depth + 1, ctx),
+    gain: best.gain,
+    cover: H,
+  };
+};
+
+const sampleWithoutReplacement = (rng: Rng, n: number, fraction: number): number[] => {
+  const all = Array.from({ length: n }, (_, i) => i);
+  if (fraction >= 1) return all;
+  const picked = all.filter(() => rng() < fraction);
+  return picked.length > 0 ? picked : all;
+};
+
+export const predictTreeMargin = (node: TreeNode, x: number[]): number => {
+  let current = node;
+  while (current.leafValue === undefined) {
+    current = x[current.featureIndex!] < current.threshold! ? current.left! : current.right!;
+  }
+  return current.leafValue;
+};
+
+export const predictMargin = (model: GradientBoostedModel, x: number[]): number =>
+  model.trees.reduce((acc, tree) => acc + predictTreeMargin(tree, x), model.baseMargin);
+
+export const predictProbability = (model: GradientBoostedModel, x: number[]): number =>
+  sigmoid(predictMargin(model, x));
+
+// Train on feature rows X with 0/1 labels y. `scalePosWeight` multiplies the gradient and hessian of positives.
+export const trainGradientBoostedTrees = (
+  X: number[][],
+  y: number[],
+  featureNames: string[],
+  params: GradientBoostingParams = DEFAULT_BOOSTING_PARAMS,
+  scalePosWeight = 1
+): GradientBoostedModel => {
+  if (X.length === 0) throw new Error("Cannot train gradient boosting on an empty training set.");
+
+  const rng = createRng(params.seed);
+  const n = X.length;
+  const featureCount = featureNames.length;
+  const weights = y.map(label => (label === 1 ? scalePosWeight : 1));
+
+  // Start from the weighted base rate (log-odds)
+  const weightedPositives = y.reduce((acc, label, i) => acc + label * weights[i], 0);
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+  const baseRate = Math.min(0.999, Math.max(0.001, weightedPositives / totalWeight));
+  const baseMargin = Math.log(baseRate / (1 - baseRate));
+
+  const margins = new Array(n).fill(baseMargin);
+  const trees: TreeNode[] = [];
+
+  for (let t = 0; t < params.nEstimators; t++) {
+    const grad = new Array(n);
+    const hess = new Array(n);
+    for (let i = 0; i < n; i++) {
+      const p = sigmoid(margins[i]);
+      grad[i] = (p - y[i]) * weights[i];
+      hess[i] = Math.max(p * (1 - p), 1e-6) * weights[i];
+    }
+
+    const rows = sampleWithoutReplacement(rng, n, params.subsample);
+    const features = sampleWithoutReplacement(rng, featureCount, params.colsampleByTree);
+    const tree = buildNode(rows, 0, { X, grad, hess, features, params });
+    trees.push(tree);
+
+    for (let i = 0; i < n; i++) margins[i] += predictTreeMargin(tree, X[i]);
+  }
+
+  return { params, scalePosWeight, baseMargin, trees, featureNames };
+};
+
+// Multi-class variant (XGBoost's multi:softprob): each round grows one tree per class on the softmax
+// gradient of that class. Shares the split finder, subsampling and regularisation above.
+export interface MulticlassBoostedModel {
+  params: GradientBoostingParams;
+  classCount: number;
+  baseMargins: number[];
+  trees: TreeNode[][]; // trees[round][class]
+  featureNames: string[];
+}
+
+const softmax = (margins: number[]): number[] => {
+  const max = Math.max(...margins);
+  const exps = margins.map(m => Math.exp(m - max));
+  const total = exps.reduce((acc, e) => acc + e, 0);
+  return exps.map(e => e / total);
+};
+
+export const predictClassMargins = (model: MulticlassBoostedModel, x: number[]): number[] =>
+  model.baseMargins.map((base, k) => model.trees.reduce((acc, round) => acc + predictTreeMargin(round[k], x), base));
+
+export const predictClassProbabilities = (model: MulticlassBoostedModel, x: number[]): number[] =>
+  softmax(predictClassMargins(model, x));
+
+// Train on feature rows X with class indices y in [0, classCount)
+export const trainMulticlassBoostedTrees = (
+  X: number[][],
+  y: number[],
+  classCount: number,
+  featureNames: string[],
+  params: GradientBoostingParams = DEFAULT_BOOSTING_PARAMS
+): MulticlassBoostedModel => {
+  if (X.length === 0) throw new Error("Cannot train gradient boosting on an empty training set.");
+
+  const rng = createRng(params.seed);
+  const n = X.length;
+  // Start from the smoothed class frequencies so unseen classes do not start at log(0)
+  const counts = Array.from({ length: classCount }, (_, k) => y.filter(c => c === k).length);
+  const baseMargins = counts.map(c => Math.log((c + 1) / (n + classCount)));
+
+  const margins = X.map(() => [...baseMargins]);
+  const trees: TreeNode[][] = [];
+
+  for (let t = 0; t < params.nEstimators; t++) {
+    const probabilities = margins.map(softmax);
+    const rows = sampleWithoutReplacement(rng, n, params.subsample);
+    const features = sampleWithoutReplacement(rng, featureNames.length, params.colsampleByTree);
+
+    const round = Array.from({ length: classCount }, (_, k) => {
+      const grad = probabilities.map((p, i) => p[k] - (y[i] === k ? 1 : 0));
+      const hess = probabilities.map(p => Math.max(p[k] * (1 - p[k]), 1e-6));
+      return buildNode(rows, 0, { X, grad, hess, features, params });
+    });
+    trees.push(round);
+
+    for (let i = 0; i < n; i++) {
+      round.forEach((tree, k) => { margins[i][k] += predictTreeMargin(tree, X[i]); });
+    }
+  }
+
+  return { params, classCount, baseMargins, trees, featureNames };
+};
@@ -0,0 +1,59 @@
+import { HcpRankMetric, HcpTier, HcpTieringConfig, PatientProfile } from "../types";
+
+// Prescriber-level view of the scored cohort. Each NPI gets the patients it treats, the expected
+// number of transitions among them (sum of probabilities) and an A/B/C tier from its decile.
+
+export const DEFAULT_HCP_TIERING: HcpTieringConfig = { rankBy: 'EXPECTED_TRANSITIONS', tierADeciles: 2, tierBDeciles: 5 };
+
+export interface HcpSummary {
+  npiId: string;
+  doctorName: string;
+  npiSpecialty: string;
+  patientCount: number;
+  highRiskCount: number; // Patients at or above the threshold
+  expectedTransitions: number;
+  avgMonthsOnTherapy: number;
+  rank: number; // 1 = highest on the ranking metric
+  decile: number; // 1 = top 10% of HCPs
+  tier: HcpTier;
+}
+
+const rankValue = (hcp: Pick<HcpSummary, 'expectedTransitions' | 'highRiskCount' | 'patientCount'>, rankBy: HcpRankMetric) =>
+  rankBy === 'EXPECTED_TRANSITIONS' ? hcp.expectedTransitions
+    : rankBy === 'HIGH_RISK_COUNT' ? hcp.highRiskCount
+      : hcp.patientCount;
+
+export const toHcpTier = (decile: number, tiering: HcpTieringConfig): HcpTier =>
+  decile <= tiering.tierADeciles ? 'A' : decile <= tiering.tierBDeciles ? 'B' : 'C';
+
+// Ranked best first; ties on the metric fall back to expected transitions, then NPI
+export const summarizeHcps = (
+  patients: PatientProfile[],
+  threshold: number,
+  tiering: HcpTieringConfig = DEFAULT_HCP_TIERING
+): HcpSummary[] => {
+  const groups = new Map<string, PatientProfile[]>();
+  patients
+    .filter(p => p.riskScore !== undefined)
+    .forEach(p => groups.set(p.npiId, [...(groups.get(p.npiId) || []), p]));
+
+  const hcps = Array.from(groups.entries()).map(([npiId, members]) => ({
+    npiId,
+    doctorName: members[0].doctorName,
+    npiSpecialty: members[0].npiSpecialty,
+    patientCount: members.length,
+    highRiskCount: members.filter(p => p.riskScore! >= threshold).length,
+    expectedTransitions: members.reduce((acc, p) => acc + p.riskScore!, 0),
+    avgMonthsOnTherapy: members.reduce((acc, p) => acc + p.monthsOnCurrentTherapy, 0) / members.length,
+  }));
+
+  hcps.sort((a, b) =>
+    rankValue(b, tiering.rankBy) - rankValue(a, tiering.rankBy)
+    || b.expectedTransitions - a.expectedTransitions
+    || a.npiId.localeCompare(b.npiId));
+
+  return hcps.map((hcp, i) => {
+    const decile = Math.floor((i * 10) / hcps.length) + 1;
+    return { ...hcp, rank: i + 1, decile, tier: toHcpTier(decile, tiering) };
+  });
+};
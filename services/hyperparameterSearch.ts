@@ -0,0 +1,101 @@
+import { CohortConfig, HyperparameterSearchConfig, OntologyMapping, PatientProfile, TuningTrial } from "../types";
+import { runRiskModel } from "./modelPipeline";
+import {
+  DEFAULT_DECISION_THRESHOLD, computeCrossValidationReport, getTestOutcomes, recallAtPrecision, selectTargetList
+} from "./metrics";
+import { createRng, shuffle } from "./random";
+
+// Grid or random search over XGBOOST hyperparameters. Each trial runs the normal pipeline with
+// patient-grouped k-fold CV, so trials are compared on out-of-fold scores only.
+
+export const DEFAULT_SEARCH_CONFIG: HyperparameterSearchConfig = {
+  method: 'RANDOM',
+  space: {
+    maxDepth: [2, 3, 4, 6],
+    learningRate: [0.03, 0.1, 0.3],
+    nEstimators: [50, 100, 200],
+    imbalanceStrategy: ['NONE', 'CLASS_WEIGHTS'],
+  },
+  maxTrials: 12,
+  folds: 3,
+  metric: 'ROC_AUC',
+  targetPrecision: 0.5,
+};
+
+type Candidate = Pick<TuningTrial, 'imbalanceStrategy'> & { maxDepth: number; learningRate: number; nEstimators: number };
+
+// Every combination in the space; RANDOM draws from it without replacement
+export const enumerateCandidates = (search: HyperparameterSearchConfig, seed: number): Candidate[] => {
+  const { space } = search;
+  const grid = space.maxDepth.flatMap(maxDepth => space.learningRate.flatMap(learningRate =>
+    space.nEstimators.flatMap(nEstimators => space.imbalanceStrategy.map(imbalanceStrategy =>
+      ({ maxDepth, learningRate, nEstimators, imbalanceStrategy })))));
+  const ordered = search.method === 'RANDOM' ? shuffle(createRng(seed), grid) : grid;
+  return ordered.slice(0, Math.max(1, search.maxTrials));
+};
+
+const meanAndStd = (values: number[]) => {
+  const mean = values.reduce((acc, v) => acc + v, 0) / (values.length || 1);
+  const std = values.length > 1 ? Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1)) : 0;
+  return { mean, std };
+};
+
+// The pipeline config a trial runs with, also what a promoted experiment records
+export const toTrialConfig = (
+  base: CohortConfig,
+  search: HyperparameterSearchConfig,
+  trial: Pick<TuningTrial, 'boostingParams' | 'imbalanceStrategy'>
+): CohortConfig => ({
+  ...base,
+  modelType: 'XGBOOST',
+  boostingParams: trial.boostingParams,
+  imbalanceStrategy: trial.imbalanceStrategy,
+  split: { ...base.split, strategy: 'GROUPED_KFOLD', folds: search.folds },
+});
+
+// Runs trials one after another, reporting each as it finishes. Trials are sorted best first at the end.
+export const runHyperparameterSearch = async (
+  patients: PatientProfile[],
+  ontology: OntologyMapping,
+  base: CohortConfig,
+  search: HyperparameterSearchConfig,
+  onTrial?: (trial: TuningTrial, completed: number, total: number) => void
+): Promise<TuningTrial[]> => {
+  const candidates = enumerateCandidates(search, base.split.seed);
+  const trials: TuningTrial[] = [];
+
+  for (const [index, candidate] of candidates.entries()) {
+    // Let the UI paint between trials; each one trains `folds` models synchronously
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const started = Date.now();
+    const { imbalanceStrategy, ...params } = candidate;
+    const boostingParams = { ...base.boostingParams, ...params };
+    const config = toTrialConfig(base, search, { boostingParams, imbalanceStrategy });
+
+    const result = await runRiskModel(patients, ontology, config);
+    const report = computeCrossValidationReport(result.patients, DEFAULT_DECISION_THRESHOLD);
+    if (!report) throw new Error("Hyperparameter search needs at least two folds.");
+
+    const recall = meanAndStd(report.folds.map(f =>
+      recallAtPrecision(getTestOutcomes(result.patients.filter(p => p.fold === f.fold)), search.targetPrecision)));
+    const trial: TuningTrial = {
+      id: index + 1,
+      boostingParams,
+      imbalanceStrategy,
+      score: search.metric === 'ROC_AUC' ? report.mean.rocAuc : recall.mean,
+      scoreStd: search.metric === 'ROC_AUC' ? report.std.rocAuc : recall.std,
+      rocAuc: report.mean.rocAuc,
+      recallAtPrecision: recall.mean,
+      metrics: {
+        ...report.mean,
+        highRiskCount: selectTargetList(result.patients, DEFAULT_DECISION_THRESHOLD).length,
+      },
+      patientCount: result.patients.length,
+      durationMs: Date.now() - started,
+    };
+    trials.push(trial);
+    onTrial?.(trial, index + 1, candidates.length);
+  }
+
+  return [...trials].sort((a, b) => b.score - a.score);
+};
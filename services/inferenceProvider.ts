@@ -0,0 +1,106 @@
+import { InferenceConfig, InferenceProviderId } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+// Provider abstraction behind every LLM call. Callers describe the task, the prompt and (optionally)
+// the JSON shape they expect; the active provider decides how to get the text back.
+
+export type InferenceTask = 'PARSE_INTENT' | 'SCORE_PATIENTS' | 'QUERY_RESULTS';
+
+// Provider-neutral subset of JSON Schema for structured responses
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number';
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface InferenceRequest {
+  task: InferenceTask;
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: ResponseSchema; // When set, the response text must be JSON matching the schema
+  payload?: unknown; // Structured input behind the prompt, so the mock can answer without parsing text
+}
+
+// Function calling: the model asks for local tools by name and reads their results back
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ResponseSchema; // Always an object schema
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string }; // content: JSON tool result
+
+export interface ToolChatRequest {
+  task: InferenceTask;
+  systemInstruction?: string;
+  messages: ChatMessage[];
+  tools: ToolDefinition[];
+  payload?: unknown;
+}
+
+export interface ToolChatResponse {
+  content: string; // Final answer; empty while the model is still calling tools
+  toolCalls: ToolCall[];
+}
+
+export interface InferenceProvider {
+  id: InferenceProviderId;
+  label: string; // Shown as the engine next to results
+  generate: (request: InferenceRequest) => Promise<string>;
+  chat: (request: ToolChatRequest) => Promise<ToolChatResponse>;
+}
+
+// Without a Gemini key the app still runs end to end on the offline mock
+export const DEFAULT_INFERENCE_CONFIG: InferenceConfig = {
+  provider: process.env.API_KEY ? 'GEMINI' : 'MOCK',
+  geminiModel: 'gemini-2.5-flash',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.1',
+  openAiApiKey: '',
+};
+
+export const createInferenceProvider = (config: InferenceConfig): InferenceProvider => {
+  switch (config.provider) {
+    case 'GEMINI':
+      return createGeminiProvider(config.geminiModel);
+    case 'OPENAI_COMPATIBLE':
+      return createOpenAiCompatibleProvider(config.openAiBaseUrl, config.openAiModel, config.openAiApiKey);
+    case 'MOCK':
+      return createMockProvider();
+  }
+};
+
+let activeProvider: InferenceProvider | null = null;
+
+// Called by App whenever the admin settings change
+export const setInferenceConfig = (config: InferenceConfig) => {
+  activeProvider = createInferenceProvider(config);
+};
+
+export const getInferenceProvider = (): InferenceProvider => {
+  if (!activeProvider) activeProvider = createInferenceProvider(DEFAULT_INFERENCE_CONFIG);
+  return activeProvider;
+};
+
+// Local models often wrap JSON in markdown fences or add a sentence around it
+export const parseJsonResponse = <T,>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf(']'), body.lastIndexOf('}'));
+  return JSON.parse(start >= 0 && end > start ? body.slice(start, end + 1) : body) as T;
+};
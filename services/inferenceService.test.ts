@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CohortConfig, FeatureMatrix, OntologyMapping, PatientProfile } from "../types";
+import { InferenceProvider } from "./inferenceProvider";
+import { classifyPatientRisk } from "./inferenceService";
+
+const generate = vi.fn<InferenceProvider['generate']>();
+
+vi.mock("./inferenceProvider", async importOriginal => ({
+  ...(await importOriginal<typeof import("./inferenceProvider")>()),
+  getInferenceProvider: () => ({ id: 'MOCK', label: 'Test', generate, chat: vi.fn() }),
+}));
+
+const patient = (id: string): PatientProfile => ({
+  id,
+  gender: 'F',
+  diagnosisCode: 'C50.911',
+  currentTherapyLine: 1,
+  monthsOnCurrentTherapy: 6,
+  lastVisitDate: '2024-01-01',
+  npiSpecialty: 'Oncology',
+  drugId: 'Tamoxifen',
+  doctorName: 'Dr. Smith',
+  npiId: '1234567890',
+  history: { patientId: id, events: [], claimCount: 0, firstServiceDate: '2023-01-01', lastServiceDate: '2024-01-01' },
+  therapyLines: [],
+});
+
+const PATIENTS = [patient('P1'), patient('P2')];
+const MATRIX: FeatureMatrix = { features: [], patientIds: ['P1', 'P2'], rows: [[], []] };
+const ONTOLOGY: OntologyMapping = { diseaseName: 'Breast Cancer', icdCodes: [], cptCodes: [], drugs: ['Tamoxifen'], targetLineTransition: '1L to 2L' };
+const CONFIG = { lookbackMonths: 12, predictionWindowMonths: 6, minClaimsCount: 1 } as CohortConfig;
+
+const VALID_REPLY = JSON.stringify([
+  { id: 'P1', riskScore: 0.8, rationale: 'Short first line.', factors: [] },
+  { id: 'P2', riskScore: 0.2, rationale: 'Stable.', factors: [] },
+]);
+
+// Retries back off on timers; run them out instead of waiting
+const classify = async () => {
+  const result = classifyPatientRisk(PATIENTS, MATRIX, ONTOLOGY, CONFIG);
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  generate.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('classifyPatientRisk', () => {
+  it.each([
+    ['truncated', '[{"id": "P1", "riskScore": 0.8'],
+    ['not JSON', 'Sorry, I cannot help with that.'],
+    ['not an array', JSON.stringify({ predictions: JSON.parse(VALID_REPLY) })],
+  ])('re-sends the chunk when the reply is %s', async (_, badReply) => {
+    generate.mockResolvedValueOnce(badReply).mockResolvedValueOnce(VALID_REPLY);
+
+    const scored = await classify();
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(scored.map(p => p.riskScore)).toEqual([0.8, 0.2]);
+  });
+
+  it('only re-sends the patients still missing a score', async () => {
+    generate
+      .mockResolvedValueOnce(JSON.stringify([JSON.parse(VALID_REPLY)[0]]))
+      .mockResolvedValueOnce(JSON.stringify([JSON.parse(VALID_REPLY)[1]]));
+
+    const scored = await classify();
+
+    expect(generate.mock.calls[1][0].payload).toEqual({ patients: [expect.objectContaining({ id: 'P2' })] });
+    expect(scored.map(p => p.riskScore)).toEqual([0.8, 0.2]);
+  });
+});
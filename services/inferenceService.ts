@@ -0,0 +1,300 @@
+import { OntologyMapping, PatientProfile, CohortConfig, ScoringProgress, FeatureMatrix, PatientExplanation, AnalystAnswer, AnalystToolExecution, AnalystChartSpec, AnalystChatMessage } from "../types";
+import { chunkByTokenBudget, estimateTokens, IncompleteBatchError, runWithConcurrency, withRetry } from "./batchScoring";
+import { ChatMessage, getInferenceProvider, parseJsonResponse } from "./inferenceProvider";
+import { getFeatureRecord } from "./featureEngineering";
+import { toRiskCategory } from "./metrics";
+import { explainLlmFactors } from "./explainability";
+import { ANALYST_TOOLS, AnalystToolError, describeAnalystFields, executeAnalystTool } from "./analystTools";
+
+// 1. Analyze user query to map to Ontology (ICD, CPT, Drugs)
+export const parseResearchIntent = async (query: string): Promise<OntologyMapping> => {
+  const systemInstruction = `
+    You are a medical ontology expert. Extract the disease, relevant ICD-10 codes, CPT codes, and associated drugs from the user's research query.
+    The user is interested in analyzing patient therapy transitions (e.g., 1st line to 2nd line).
+    Return a structured JSON object.
+  `;
+
+  const prompt = `User Query: "${query}"
+  
+  Please identify:
+  1. The primary Disease.
+  2. A list of relevant ICD-10 codes (wildcards allowed, e.g., C50%).
+  3. A list of relevant CPT codes for procedures/testing.
+  4. Common drugs used for this condition.
+  5. The implied therapy transition (e.g., "1L to 2L" or "2L to 3L").
+  `;
+
+  try {
+    const text = await getInferenceProvider().generate({
+      task: 'PARSE_INTENT',
+      prompt,
+      systemInstruction,
+      payload: { query },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          diseaseName: { type: 'string' },
+          icdCodes: { type: 'array', items: { type: 'string' } },
+          cptCodes: { type: 'array', items: { type: 'string' } },
+          drugs: { type: 'array', items: { type: 'string' } },
+          targetLineTransition: { type: 'string' }
+        },
+        required: ["diseaseName", "icdCodes", "cptCodes", "drugs", "targetLineTransition"]
+      }
+    });
+
+    if (text) {
+      return parseJsonResponse<OntologyMapping>(text);
+    }
+    throw new Error("Empty response from inference provider");
+  } catch (error) {
+    console.error("Error parsing research intent:", error);
+    // Fallback default
+    return {
+      diseaseName: "Unknown",
+      icdCodes: [],
+      cptCodes: [],
+      drugs: [],
+      targetLineTransition: "1L to 2L"
+    };
+  }
+};
+
+// 2. Perform "Binary Classification" using the active inference provider.
+// The whole cohort is scored: patients are split into token-budgeted chunks that run with bounded
+// concurrency, and each chunk is retried until every patient ID has a score.
+const MAX_CHUNK_TOKENS = 4000;
+const MAX_CHUNK_PATIENTS = 40;
+const MAX_CONCURRENT_CHUNKS = 3;
+
+export interface PatientPromptRecord {
+  id: string;
+  age?: number;
+  currentLine: number;
+  regimen: string;
+  specialty: string;
+  features: Record<string, number>; // Engineered features, see featureEngineering
+}
+
+const toPromptRecord = (p: PatientProfile, matrix: FeatureMatrix): PatientPromptRecord => ({
+  id: p.id,
+  age: p.age,
+  // Therapy inputs are as of the index date so the prompt never reveals the outcome window
+  currentLine: p.outcomeLabel?.fromLine ?? p.currentTherapyLine,
+  regimen: p.outcomeLabel?.indexRegimen.join(' + ') ?? p.drugId,
+  specialty: p.npiSpecialty,
+  features: getFeatureRecord(matrix, p.id) || {}
+});
+
+// Raw prediction as returned by the model; factors name features with a signed weight in [-1, 1]
+export interface PatientPrediction {
+  id: string;
+  riskScore: number;
+  rationale?: string;
+  factors?: { feature: string; weight: number }[];
+}
+
+interface ScoredPatient {
+  score: number;
+  explanation: PatientExplanation;
+}
+
+const scorePatientChunk = async (
+  records: PatientPromptRecord[],
+  matrix: FeatureMatrix,
+  ontology: OntologyMapping,
+  config: CohortConfig
+): Promise<Map<string, ScoredPatient>> => {
+  const logicDescription = `
+      MODE: Standard Clinical Reasoning (LLM).
+      Analyze each patient's engineered claims features to estimate risk based on standard medical guidelines.
+      All features are measured before the index date (the start of the current line), never from the prediction window.
+      `;
+
+  const featureGlossary = matrix.features.map(f => `- ${f.name} (${f.type.toLowerCase()}): ${f.label}`).join('\n');
+
+  const prompt = `
+    Context: Analyze patients with ${ontology.diseaseName} to predict transition to ${ontology.targetLineTransition}.
+    
+    Cohort Definition / Model Inputs:
+    - Historical Lookback: Last ${config.lookbackMonths} months.
+    - Prediction Window: Future ${config.predictionWindowMonths} months.
+    - Min Claims: ${config.minClaimsCount}.
+    
+    ${logicDescription}
+
+    Feature Definitions:
+    ${featureGlossary}
+
+    Patient Data (JSON):
+    ${JSON.stringify(records)}
+
+    Task:
+    Predict the probability (riskScore) that the patient will transition to the next line of therapy 
+    WITHIN the next ${config.predictionWindowMonths} months.
+    
+    Return a JSON array with exactly one object per patient above, each with:
+    - "id" and "riskScore" (0.0 to 1.0).
+    - "rationale": one or two sentences explaining the score.
+    - "factors": up to 5 of the features above that drove the score, each with "feature" (the feature name)
+      and "weight" (-1.0 to 1.0; positive raises the transition risk, negative lowers it).
+  `;
+
+  const text = await getInferenceProvider().generate({
+    task: 'SCORE_PATIENTS',
+    prompt,
+    payload: { patients: records },
+    responseSchema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          riskScore: { type: 'number' },
+          rationale: { type: 'string' },
+          factors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                feature: { type: 'string' },
+                weight: { type: 'number' }
+              },
+              required: ["feature", "weight"]
+            }
+          }
+        },
+        required: ["id", "riskScore", "rationale", "factors"]
+      }
+    }
+  });
+
+  // A truncated, malformed or non-array reply scores nobody, so the caller re-sends the whole chunk
+  let predictions: PatientPrediction[] = [];
+  try {
+    const parsed: unknown = text ? parseJsonResponse(text) : [];
+    if (Array.isArray(parsed)) predictions = parsed;
+    else console.warn('Scoring reply is not a JSON array; retrying the chunk');
+  } catch (error) {
+    console.warn('Could not parse the scoring reply; retrying the chunk', error);
+  }
+  const recordsById = new Map(records.map(r => [r.id, r]));
+  const scores = new Map<string, ScoredPatient>();
+  predictions.forEach(pred => {
+    const record = recordsById.get(String(pred.id));
+    if (record && typeof pred.riskScore === 'number' && isFinite(pred.riskScore)) {
+      scores.set(record.id, {
+        score: Math.min(1, Math.max(0, pred.riskScore)),
+        // A missing rationale or factor list is not worth a retry; the score still counts
+        explanation: explainLlmFactors(pred.rationale, Array.isArray(pred.factors) ? pred.factors : [], matrix.features, record.features),
+      });
+    }
+  });
+  return scores;
+};
+
+export const classifyPatientRisk = async (
+  patients: PatientProfile[], 
+  matrix: FeatureMatrix,
+  ontology: OntologyMapping,
+  config: CohortConfig,
+  onProgress?: (progress: ScoringProgress) => void
+): Promise<PatientProfile[]> => {
+  // Patients arrive filtered by the cohort definition and with TRAIN/TEST already assigned (see modelPipeline)
+  const records = patients.map(p => toPromptRecord(p, matrix));
+  const chunks = chunkByTokenBudget(records, r => estimateTokens(JSON.stringify(r)), MAX_CHUNK_TOKENS, MAX_CHUNK_PATIENTS);
+  const scores = new Map<string, ScoredPatient>();
+  let scoredPatients = 0;
+
+  onProgress?.({ completedChunks: 0, totalChunks: chunks.length, scoredPatients: 0, totalPatients: patients.length });
+
+  const tasks = chunks.map(chunk => () => withRetry(async () => {
+    // Retries only re-send the patients that are still missing a score
+    const pending = chunk.filter(r => !scores.has(r.id));
+    const chunkScores = await scorePatientChunk(pending, matrix, ontology, config);
+    pending.forEach(r => {
+      if (chunkScores.has(r.id)) scores.set(r.id, chunkScores.get(r.id)!);
+    });
+    const missing = pending.filter(r => !scores.has(r.id)).map(r => r.id);
+    if (missing.length > 0) throw new IncompleteBatchError(missing);
+    scoredPatients += chunk.length;
+  }));
+
+  await runWithConcurrency(tasks, MAX_CONCURRENT_CHUNKS, (completedChunks, totalChunks) =>
+    onProgress?.({ completedChunks, totalChunks, scoredPatients, totalPatients: patients.length })
+  );
+
+  return patients.map(p => {
+    const { score, explanation } = scores.get(p.id)!;
+    // Ground truth (actualOutcome) was labelled from the claims before scoring
+    return { ...p, riskScore: score, riskCategory: toRiskCategory(score), explanation };
+  });
+};
+
+// 3. Ask questions about the analysis results. The model never sees the cohort itself: it calls
+// the local analyst tools, which compute exact numbers and report the patients behind them.
+// Earlier turns are replayed as text, so follow-ups can refer back to previous answers.
+const MAX_TOOL_ROUNDS = 5;
+
+export const askAnalyst = async (
+  question: string,
+  history: AnalystChatMessage[],
+  patients: PatientProfile[],
+  ontology: OntologyMapping
+): Promise<AnalystAnswer> => {
+  const systemInstruction = `
+    You are a specialized healthcare data analyst.
+    You are analyzing ${patients.length} patients with ${ontology.diseaseName}, scored for the risk of
+    transitioning to the next line of therapy (${ontology.targetLineTransition}).
+
+    You cannot see the patient data. Answer only from the results of the tools you call.
+    Patient fields available to the tools:
+    ${describeAnalystFields()}
+
+    Quote the numbers exactly as the tools return them. If the tools cannot answer the question, say so.
+    When a chart helps (distributions, rankings, comparisons), call show_chart with numbers from the other tools.
+    Keep answers concise, professional, and data-driven.
+    Format your response with markdown (lists, tables, bold text) for readability.
+  `;
+
+  const messages: ChatMessage[] = [
+    ...history.map((m): ChatMessage => ({ role: m.role, content: m.content })),
+    { role: 'user', content: question },
+  ];
+  const executions: AnalystToolExecution[] = [];
+  let chart: AnalystChartSpec | undefined;
+  const provider = getInferenceProvider();
+
+  try {
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const response = await provider.chat({ task: 'QUERY_RESULTS', systemInstruction, messages, tools: ANALYST_TOOLS });
+      if (response.toolCalls.length === 0) {
+        return { answer: response.content || "I could not generate an answer based on the data.", toolCalls: executions, chart };
+      }
+
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+      response.toolCalls.forEach(call => {
+        let execution: AnalystToolExecution;
+        try {
+          const { result, rowIds } = executeAnalystTool(patients, call.name, call.arguments);
+          execution = { ...call, result, rowIds };
+        } catch (error) {
+          if (!(error instanceof AnalystToolError)) throw error;
+          execution = { ...call, rowIds: [], error: error.message };
+        }
+        executions.push(execution);
+        if (call.name === 'show_chart' && !execution.error) chart = execution.result as AnalystChartSpec;
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: JSON.stringify(execution.error ? { error: execution.error } : execution.result),
+        });
+      });
+    }
+    return { answer: `Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls without a final answer.`, toolCalls: executions, chart };
+  } catch (error) {
+    console.error("Error querying analysis:", error);
+    return { answer: "Sorry, I encountered an error while processing your question.", toolCalls: executions };
+  }
+};
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { ClaimEvent, PatientHistory } from "../types";
+import { DEFAULT_LINE_OF_THERAPY_RULES, deriveLinesOfTherapy } from "./lineOfTherapy";
+
+const DRUGS = ['Tamoxifen', 'Letrozole', 'Palbociclib', 'Denosumab'];
+
+// [date, type, code] tuples in service-date order; claim IDs follow the position
+const history = (claims: [string, ClaimEvent['type'], string][], lastServiceDate?: string): PatientHistory => {
+  const events = claims.map(([date, type, code], i): ClaimEvent => ({ claimId: `C${i + 1}`, date, type, code }));
+  return {
+    patientId: 'P1',
+    events,
+    claimCount: events.length,
+    firstServiceDate: events[0].date,
+    lastServiceDate: lastServiceDate ?? events[events.length - 1].date,
+  };
+};
+
+const monthly = (code: string, months: string[]): [string, ClaimEvent['type'], string][] =>
+  months.map(month => [`${month}-01`, 'RX', code]);
+
+const derive = (h: PatientHistory, rules = DEFAULT_LINE_OF_THERAPY_RULES) => deriveLinesOfTherapy(h, DRUGS, rules);
+
+describe('deriveLinesOfTherapy', () => {
+  it('keeps a single drug claimed monthly on one ongoing line', () => {
+    const lines = derive(history(monthly('TAMOXIFEN CITRATE 20MG', ['2023-01', '2023-02', '2023-03', '2023-04'])));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      lineNumber: 1,
+      regimen: ['Tamoxifen'],
+      startDate: '2023-01-01',
+      lastClaimDate: '2023-04-01',
+      endReason: 'ONGOING',
+      claimIds: ['C1', 'C2', 'C3', 'C4'],
+    });
+    expect(lines[0].endDate).toBeUndefined();
+  });
+
+  it('builds a combination regimen from agents started inside the regimen window', () => {
+    const lines = derive(history([
+      ['2023-01-01', 'RX', 'Letrozole'],
+      ['2023-01-20', 'RX', 'Palbociclib'],
+      ['2023-02-01', 'RX', 'Letrozole'],
+    ]));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].regimen).toEqual(['Letrozole', 'Palbociclib']);
+  });
+
+  it('advances the line on a switch and ends the old line the day before', () => {
+    const lines = derive(history([
+      ...monthly('Tamoxifen', ['2023-01', '2023-02', '2023-03']),
+      ...monthly('Letrozole', ['2023-04', '2023-05']),
+    ]));
+
+    expect(lines.map(l => l.lineNumber)).toEqual([1, 2]);
+    expect(lines[0]).toMatchObject({ regimen: ['Tamoxifen'], endDate: '2023-03-31', endReason: 'SWITCH' });
+    expect(lines[1]).toMatchObject({ regimen: ['Letrozole'], startDate: '2023-04-01', endReason: 'ONGOING', claimIds: ['C4', 'C5'] });
+  });
+
+  it('adds a new agent to the line while the existing regimen keeps being claimed', () => {
+    const lines = derive(history([
+      ...monthly('Letrozole', ['2023-01', '2023-02', '2023-03']),
+      ['2023-03-15', 'RX', 'Palbociclib'],
+      ...monthly('Letrozole', ['2023-04', '2023-05']),
+    ]));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].regimen).toEqual(['Letrozole', 'Palbociclib']);
+  });
+
+  it('never advances the line for add-on-only agents', () => {
+    const lines = derive(history([
+      ...monthly('Tamoxifen', ['2023-01', '2023-02']),
+      ['2023-03-01', 'RX', 'Denosumab'],
+    ]));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].regimen).toEqual(['Tamoxifen', 'Denosumab']);
+  });
+
+  it('treats a restart of the same agent after a long gap as a treatment holiday by default', () => {
+    const claims = [...monthly('Tamoxifen', ['2023-01', '2023-02']), ...monthly('Tamoxifen', ['2023-08', '2023-09'])];
+
+    const holiday = derive(history(claims));
+    expect(holiday).toHaveLength(1);
+    expect(holiday[0].endReason).toBe('ONGOING');
+
+    const restart = derive(history(claims), { ...DEFAULT_LINE_OF_THERAPY_RULES, restartAfterGapAdvancesLine: true });
+    expect(restart).toHaveLength(2);
+    expect(restart[0]).toMatchObject({ endDate: '2023-02-01', endReason: 'DISCONTINUED' });
+    expect(restart[1]).toMatchObject({ lineNumber: 2, regimen: ['Tamoxifen'], startDate: '2023-08-01' });
+  });
+
+  it('discontinues the line when a new agent follows a gap longer than the allowance', () => {
+    const lines = derive(history([
+      ...monthly('Tamoxifen', ['2023-01', '2023-02']),
+      ...monthly('Letrozole', ['2023-08', '2023-09']),
+    ]));
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ endDate: '2023-02-01', endReason: 'DISCONTINUED' });
+    expect(lines[1]).toMatchObject({ lineNumber: 2, regimen: ['Letrozole'] });
+  });
+
+  it('discontinues the last line when therapy claims stop well before the data ends', () => {
+    const lines = derive(history([
+      ...monthly('Tamoxifen', ['2023-01', '2023-02']),
+      ['2023-12-01', 'DX', 'C50.911'],
+    ]));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ endDate: '2023-02-01', endReason: 'DISCONTINUED' });
+  });
+
+  it('ignores non-study drugs and counts administration procedures without a drug on the claim', () => {
+    const lines = derive(history([
+      ['2023-01-01', 'RX', 'Tamoxifen'],
+      ['2023-01-10', 'RX', 'Lisinopril'],
+      ['2023-01-15', 'PX', '99213'],
+      ['2023-01-20', 'PX', 'J9355'],
+    ]));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].regimen).toEqual(['Tamoxifen', 'J9355']);
+    expect(lines[0].claimIds).toEqual(['C1', 'C4']);
+  });
+});
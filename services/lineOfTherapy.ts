@@ -0,0 +1,110 @@
+import { LineOfTherapyRules, PatientHistory, TherapyLine } from "../types";
+import { addDays, daysBetween } from "./dateUtils";
+import { matchDrug, matchesAnyCode } from "./codeMatching";
+
+export const DEFAULT_LINE_OF_THERAPY_RULES: LineOfTherapyRules = {
+  regimenWindowDays: 28,
+  discontinuationGapDays: 90,
+  restartAfterGapAdvancesLine: false,
+  addOnDoesNotAdvance: true,
+  addOnOnlyAgents: ['Denosumab', 'Zoledronic Acid'],
+  therapyProcedureCodes: ['J9%', '964%', '965%'],
+};
+
+interface TherapyEvent {
+  claimId: string;
+  date: string;
+  agent: string;
+}
+
+// Rx claims for study drugs plus drug-administration Px claims that have no drug on the same claim.
+// With an empty drug list (ontology not resolved yet) every Rx claim is treated as therapy.
+const toTherapyEvents = (history: PatientHistory, drugs: string[], rules: LineOfTherapyRules): TherapyEvent[] => {
+  const rxClaims = new Set(history.events.filter(e => e.type === 'RX').map(e => e.claimId));
+  const events: TherapyEvent[] = [];
+
+  history.events.forEach(e => {
+    if (e.type === 'RX') {
+      const agent = drugs.length > 0 ? matchDrug(e.code, drugs) : e.code;
+      if (agent) events.push({ claimId: e.claimId, date: e.date, agent });
+    } else if (e.type === 'PX' && !rxClaims.has(e.claimId) && matchesAnyCode(e.code, rules.therapyProcedureCodes)) {
+      events.push({ claimId: e.claimId, date: e.date, agent: matchDrug(e.code, drugs) || e.code.toUpperCase() });
+    }
+  });
+  return events;
+};
+
+const isAddOnOnly = (agent: string, rules: LineOfTherapyRules) =>
+  rules.addOnOnlyAgents.some(a => a.toLowerCase() === agent.toLowerCase());
+
+// Rules-based line of therapy derivation from a patient's claim history:
+// - agents started within `regimenWindowDays` of the line start form the regimen
+// - a gap longer than `discontinuationGapDays` ends the line (re-starting the same regimen may keep the line number)
+// - a new agent outside the window advances the line, unless it is an add-on to a regimen that keeps being claimed
+export const deriveLinesOfTherapy = (
+  history: PatientHistory,
+  drugs: string[],
+  rules: LineOfTherapyRules
+): TherapyLine[] => {
+  const events = toTherapyEvents(history, drugs, rules);
+  const lines: TherapyLine[] = [];
+  let current: TherapyLine | null = null;
+
+  const open = (e: TherapyEvent, lineNumber: number): TherapyLine => ({
+    lineNumber,
+    regimen: [e.agent],
+    startDate: e.date,
+    lastClaimDate: e.date,
+    endReason: 'ONGOING',
+    claimIds: [e.claimId],
+  });
+
+  const extend = (line: TherapyLine, e: TherapyEvent) => {
+    if (!line.regimen.includes(e.agent)) line.regimen.push(e.agent);
+    line.lastClaimDate = e.date;
+    line.claimIds.push(e.claimId);
+  };
+
+  // Does any agent of the current regimen keep being claimed after `idx` (within the gap allowance)?
+  const regimenContinues = (line: TherapyLine, idx: number) => {
+    const horizon = addDays(events[idx].date, rules.discontinuationGapDays);
+    return events.slice(idx + 1).some(e => e.date <= horizon && line.regimen.includes(e.agent));
+  };
+
+  for (let idx = 0; idx < events.length; idx++) {
+    const e = events[idx];
+    if (!current) {
+      current = open(e, 1);
+      continue;
+    }
+
+    if (daysBetween(current.lastClaimDate, e.date) > rules.discontinuationGapDays) {
+      if (current.regimen.includes(e.agent) && !rules.restartAfterGapAdvancesLine) {
+        extend(current, e); // Treatment holiday, same line
+        continue;
+      }
+      lines.push({ ...current, endDate: current.lastClaimDate, endReason: 'DISCONTINUED' });
+      current = open(e, current.lineNumber + 1);
+      continue;
+    }
+
+    const isNewAgent = !current.regimen.includes(e.agent);
+    const withinRegimenWindow = daysBetween(current.startDate, e.date) <= rules.regimenWindowDays;
+    const isAddOn = isAddOnOnly(e.agent, rules) || (rules.addOnDoesNotAdvance && regimenContinues(current, idx));
+
+    if (!isNewAgent || withinRegimenWindow || isAddOn) {
+      extend(current, e);
+      continue;
+    }
+
+    lines.push({ ...current, endDate: addDays(e.date, -1), endReason: 'SWITCH' });
+    current = open(e, current.lineNumber + 1);
+  }
+
+  if (current) {
+    // No therapy claims for longer than the gap before the data ends means the line was discontinued
+    const discontinued = daysBetween(current.lastClaimDate, history.lastServiceDate) > rules.discontinuationGapDays;
+    lines.push(discontinued ? { ...current, endDate: current.lastClaimDate, endReason: 'DISCONTINUED' } : current);
+  }
+  return lines;
+};
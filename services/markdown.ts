@@ -0,0 +1,97 @@
+// Minimal markdown for analyst answers: headings, paragraphs, lists, tables, code fences and
+// bold / italic / code spans. Parsed into blocks and rendered as React elements, never as HTML.
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; align: ('left' | 'center' | 'right')[]; rows: string[][] }
+  | { type: 'code'; text: string };
+
+export interface MarkdownSpan {
+  type: 'text' | 'bold' | 'italic' | 'code';
+  text: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const FENCE = /^\s*```/;
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isBlockStart = (line: string, next?: string) =>
+  HEADING.test(line) || BULLET.test(line) || NUMBERED.test(line) || FENCE.test(line)
+  || (TABLE_ROW.test(line) && next !== undefined && TABLE_SEPARATOR.test(next));
+
+export const parseMarkdownBlocks = (text: string): MarkdownBlock[] => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ type: 'code', text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' as const : cell.endsWith(':') ? 'right' as const : 'left' as const);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) rows.push(splitRow(lines[i++]));
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    const ordered = NUMBERED.test(line);
+    if (ordered || BULLET.test(line)) {
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+      while (i < lines.length && pattern.test(lines[i])) items.push(lines[i++].match(pattern)![1].trim());
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !(paragraph.length > 0 && isBlockStart(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+  return blocks;
+};
+
+// Underscore italics only at word boundaries, so snake_case field names stay intact
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|(?<!\w)_[^_\s][^_]*_(?!\w))/g;
+
+// split() with one capture group alternates plain text (even) and matched spans (odd)
+export const parseInline = (text: string): MarkdownSpan[] =>
+  text.split(INLINE).map((part, i): MarkdownSpan => {
+    if (i % 2 === 0) return { type: 'text', text: part };
+    if (part.startsWith('**') || part.startsWith('__')) return { type: 'bold', text: part.slice(2, -2) };
+    if (part.startsWith('`')) return { type: 'code', text: part.slice(1, -1) };
+    return { type: 'italic', text: part.slice(1, -1) };
+  }).filter(span => span.text);
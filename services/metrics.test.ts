@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { PatientProfile } from "../types";
+import {
+  applyRiskCategories,
+  computeBootstrapAucIntervals,
+  computeBootstrapIntervals,
+  computeBootstrapThresholdIntervals,
+  computeConfusion,
+  computePrCurve,
+  computeRocCurve,
+  getTestOutcomes,
+  prAuc,
+  rocAuc,
+  selectTargetList,
+} from "./metrics";
+
+const outcomes = (pairs: [number, boolean][]) => pairs.map(([score, actual]) => ({ score, actual }));
+
+// A TEST patient with an observed (uncensored) outcome
+const scored = (id: string, riskScore: number, actualOutcome: boolean, split: 'TRAIN' | 'TEST' = 'TEST'): PatientProfile => ({
+  id,
+  gender: 'F',
+  diagnosisCode: 'C50.911',
+  currentTherapyLine: 1,
+  monthsOnCurrentTherapy: 6,
+  lastVisitDate: '2024-01-01',
+  npiSpecialty: 'Oncology',
+  drugId: 'Tamoxifen',
+  doctorName: 'Dr. Smith',
+  npiId: '1234567890',
+  riskScore,
+  split,
+  actualOutcome,
+  outcomeLabel: {
+    fromLine: 1,
+    toLine: 2,
+    indexDate: '2023-01-01',
+    indexRegimen: ['Tamoxifen'],
+    windowEndDate: '2023-07-03',
+    outcome: actualOutcome,
+    censored: false,
+    timeToEventDays: 180,
+    eventObserved: actualOutcome,
+  },
+  history: { patientId: id, events: [], claimCount: 0, firstServiceDate: '2023-01-01', lastServiceDate: '2024-01-01' },
+  therapyLines: [],
+});
+
+describe('ROC and PR curves', () => {
+  it('scores a perfect ranking 1 and a reversed ranking 0', () => {
+    const perfect = outcomes([[0.9, true], [0.8, true], [0.3, false], [0.1, false]]);
+    const reversed = outcomes([[0.9, false], [0.8, false], [0.3, true], [0.1, true]]);
+
+    expect(rocAuc(computeRocCurve(perfect))).toBe(1);
+    expect(prAuc(computePrCurve(perfect))).toBe(1);
+    expect(rocAuc(computeRocCurve(reversed))).toBe(0);
+  });
+
+  it('matches the share of correctly ordered positive/negative pairs and average precision', () => {
+    // Pairs (pos, neg): (0.9, 0.8) (0.9, 0.6) (0.7, 0.6) ordered, (0.7, 0.8) not -> 3/4
+    // Precision at each positive: 1/1 and 2/3 -> AP = (1 + 2/3) / 2
+    const ranked = outcomes([[0.9, true], [0.8, false], [0.7, true], [0.6, false]]);
+
+    expect(rocAuc(computeRocCurve(ranked))).toBeCloseTo(0.75, 10);
+    expect(prAuc(computePrCurve(ranked))).toBeCloseTo(5 / 6, 10);
+  });
+
+  it('groups tied scores into one point, so ties count as half-ordered', () => {
+    const tied = outcomes([[0.5, true], [0.5, false], [0.5, true], [0.5, false]]);
+    const roc = computeRocCurve(tied);
+
+    expect(roc).toEqual([{ threshold: 1, fpr: 0, tpr: 0 }, { threshold: 0.5, fpr: 1, tpr: 1 }]);
+    expect(rocAuc(roc)).toBe(0.5);
+    expect(prAuc(computePrCurve(tied))).toBe(0.5); // Prevalence
+  });
+
+  it('returns no curve without both outcome classes', () => {
+    expect(computeRocCurve(outcomes([[0.9, true], [0.4, true]]))).toEqual([]);
+    expect(computePrCurve(outcomes([[0.9, false], [0.4, false]]))).toEqual([]);
+    expect(rocAuc([])).toBe(0);
+  });
+});
+
+describe('computeConfusion', () => {
+  it('counts scores at the threshold as predicted positive', () => {
+    const confusion = computeConfusion(outcomes([[0.9, true], [0.5, false], [0.5, true], [0.2, true], [0.1, false]]), 0.5);
+
+    expect(confusion).toMatchObject({ tp: 2, fp: 1, tn: 1, fn: 1, accuracy: 0.6 });
+    expect(confusion.precision).toBeCloseTo(2 / 3, 10);
+    expect(confusion.recall).toBeCloseTo(2 / 3, 10);
+    expect(confusion.f1).toBeCloseTo(2 / 3, 10);
+  });
+});
+
+describe('validation and targeting', () => {
+  const censored = scored('CENSORED', 0.8, false);
+  censored.outcomeLabel!.censored = true;
+  const patients = [scored('A', 0.9, true), scored('B', 0.3, false), scored('C', 0.6, false, 'TRAIN'), censored];
+
+  it('validates on TEST patients with an observed outcome only', () => {
+    expect(getTestOutcomes(patients)).toEqual([{ score: 0.9, actual: true }, { score: 0.3, actual: false }]);
+  });
+
+  it('targets every scored patient at or above the threshold, highest first', () => {
+    expect(selectTargetList(patients, 0.6).map(p => p.id)).toEqual(['A', 'CENSORED', 'C']);
+  });
+
+  it('categorizes against the threshold: High at or above it, Medium from half of it', () => {
+    expect(applyRiskCategories(patients, 0.6).map(p => p.riskCategory)).toEqual(['High', 'Medium', 'High', 'High']);
+    expect(applyRiskCategories(patients, 0.95).map(p => p.riskCategory)).toEqual(['Medium', 'Low', 'Medium', 'Medium']);
+  });
+});
+
+describe('bootstrap intervals', () => {
+  const patients = [
+    ...Array.from({ length: 20 }, (_, i) => scored(`T${i}`, (i + 1) / 21, i % 3 !== 0 ? i >= 8 : i >= 14)),
+    scored('TRAIN1', 0.99, false, 'TRAIN'),
+  ];
+  const config = { resamples: 200, seed: 7, confidenceLevel: 0.9 };
+
+  it('validates on TEST patients only', () => {
+    expect(getTestOutcomes(patients)).toHaveLength(20);
+  });
+
+  it('brackets the point estimate and is reproducible for a seed', () => {
+    const auc = rocAuc(computeRocCurve(getTestOutcomes(patients)));
+    const intervals = computeBootstrapAucIntervals(patients, config);
+
+    expect(intervals.rocAuc!.lower).toBeLessThanOrEqual(auc);
+    expect(intervals.rocAuc!.upper).toBeGreaterThanOrEqual(auc);
+    expect(intervals.prAuc!.lower).toBeLessThan(intervals.prAuc!.upper);
+    expect(computeBootstrapAucIntervals(patients, config)).toEqual(intervals);
+  });
+
+  it('combines the AUC and thresholded intervals without changing either', () => {
+    const combined = computeBootstrapIntervals(patients, 0.5, config);
+
+    expect(combined).toEqual({
+      ...computeBootstrapThresholdIntervals(patients, 0.5, config),
+      ...computeBootstrapAucIntervals(patients, config),
+    });
+    expect(Object.keys(combined).sort()).toEqual(['accuracy', 'f1', 'highRiskCount', 'prAuc', 'precision', 'recall', 'rocAuc']);
+  });
+
+  it('returns nothing without validation patients or resamples', () => {
+    expect(computeBootstrapIntervals(patients.filter(p => p.split === 'TRAIN'), 0.5, config)).toEqual({});
+    expect(computeBootstrapIntervals(patients, 0.5, { ...config, resamples: 0 })).toEqual({});
+  });
+});
@@ -0,0 +1,383 @@
+import { BootstrapConfig, ConfidenceInterval, PatientProfile, RiskCategory, ValidationMetricKey } from "../types";
+import { hasObservedOutcome } from "./outcomeLabeling";
+import { resolveTherapyClass } from "./nextTherapy";
+import { createRng } from "./random";
+
+// Classification metrics for the Model Validation tab, saved experiments and publishing.
+// Every model type produces a probability; one decision threshold turns it into a target list.
+
+export const DEFAULT_DECISION_THRESHOLD = 0.5;
+
+// High = at or above the decision threshold (the target list), Medium = at least half of it
+export const toRiskCategory = (score: number, threshold = DEFAULT_DECISION_THRESHOLD): RiskCategory =>
+  score >= threshold ? 'High' : score >= threshold / 2 ? 'Medium' : 'Low';
+
+export const applyRiskCategories = (patients: PatientProfile[], threshold: number): PatientProfile[] =>
+  patients.map(p => (p.riskScore === undefined ? p : { ...p, riskCategory: toRiskCategory(p.riskScore, threshold) }));
+
+// Patients published at this threshold, highest score first
+export const selectTargetList = (patients: PatientProfile[], threshold: number): PatientProfile[] =>
+  patients
+    .filter(p => p.riskScore !== undefined && p.riskScore >= threshold)
+    .sort((a, b) => b.riskScore! - a.riskScore!);
+
+interface ScoredOutcome {
+  score: number;
+  actual: boolean;
+}
+
+// Validation pairs from the TEST split, limited to patients with an observed outcome.
+// Pass `raw` to evaluate the model output before calibration.
+export const getTestOutcomes = (patients: PatientProfile[], raw = false): ScoredOutcome[] =>
+  patients
+    .filter(p => p.split === 'TEST' && hasObservedOutcome(p) && p.riskScore !== undefined)
+    .map(p => ({ score: raw ? p.rawRiskScore ?? p.riskScore! : p.riskScore!, actual: !!p.actualOutcome }));
+
+export interface ConfusionMetrics {
+  threshold: number;
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export const computeConfusion = (outcomes: ScoredOutcome[], threshold: number): ConfusionMetrics => {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  outcomes.forEach(({ score, actual }) => {
+    const predicted = score >= threshold;
+    if (predicted && actual) tp++;
+    else if (predicted) fp++;
+    else if (actual) fn++;
+    else tn++;
+  });
+
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  return {
+    threshold,
+    tp, fp, tn, fn,
+    accuracy: outcomes.length > 0 ? (tp + tn) / outcomes.length : 0,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+  };
+};
+
+export interface RocPoint { threshold: number; fpr: number; tpr: number }
+export interface PrPoint { threshold: number; recall: number; precision: number }
+
+// One point per distinct score, sweeping the threshold from high to low
+const sweepThresholds = (outcomes: ScoredOutcome[]) => {
+  const sorted = [...outcomes].sort((a, b) => b.score - a.score);
+  const positives = sorted.filter(o => o.actual).length;
+  const negatives = sorted.length - positives;
+  const points: { threshold: number; tp: number; fp: number }[] = [];
+  let tp = 0, fp = 0;
+  sorted.forEach((o, i) => {
+    if (o.actual) tp++;
+    else fp++;
+    if (i === sorted.length - 1 || sorted[i + 1].score !== o.score) points.push({ threshold: o.score, tp, fp });
+  });
+  return { points, positives, negatives };
+};
+
+export const computeRocCurve = (outcomes: ScoredOutcome[]): RocPoint[] => {
+  const { points, positives, negatives } = sweepThresholds(outcomes);
+  if (positives === 0 || negatives === 0) return [];
+  return [
+    { threshold: 1, fpr: 0, tpr: 0 },
+    ...points.map(p => ({ threshold: p.threshold, fpr: p.fp / negatives, tpr: p.tp / positives })),
+  ];
+};
+
+export const computePrCurve = (outcomes: ScoredOutcome[]): PrPoint[] => {
+  const { points, positives } = sweepThresholds(outcomes);
+  if (positives === 0) return [];
+  return [
+    { threshold: 1, recall: 0, precision: 1 },
+    ...points.map(p => ({ threshold: p.threshold, recall: p.tp / positives, precision: p.tp / (p.tp + p.fp) })),
+  ];
+};
+
+// Best recall reachable while keeping precision at or above the target (0 when no threshold gets there)
+export const recallAtPrecision = (outcomes: ScoredOutcome[], targetPrecision: number): number =>
+  computePrCurve(outcomes)
+    .filter(p => p.recall > 0 && p.precision >= targetPrecision)
+    .reduce((best, p) => Math.max(best, p.recall), 0);
+
+// Trapezoidal area under the ROC curve
+export const rocAuc = (curve: RocPoint[]): number =>
+  curve.reduce((acc, p, i) => (i === 0 ? 0 : acc + (p.fpr - curve[i - 1].fpr) * (p.tpr + curve[i - 1].tpr) / 2), 0);
+
+// Average precision: step-wise area under the PR curve
+export const prAuc = (curve: PrPoint[]): number =>
+  curve.reduce((acc, p, i) => (i === 0 ? 0 : acc + (p.recall - curve[i - 1].recall) * p.precision), 0);
+
+// Calibration: mean squared error between probability and outcome (lower is better)
+export const brierScore = (outcomes: ScoredOutcome[]): number =>
+  outcomes.length > 0
+    ? outcomes.reduce((acc, o) => acc + (o.score - (o.actual ? 1 : 0)) ** 2, 0) / outcomes.length
+    : 0;
+
+export interface ReliabilityBin {
+  binStart: number;
+  binEnd: number;
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+// Equal-width probability bins; empty bins are dropped
+export const computeReliabilityBins = (outcomes: ScoredOutcome[], binCount = 10): ReliabilityBin[] =>
+  Array.from({ length: binCount }, (_, b) => {
+    const binStart = b / binCount;
+    const binEnd = (b + 1) / binCount;
+    const inBin = outcomes.filter(o => o.score >= binStart && (o.score < binEnd || (b === binCount - 1 && o.score <= 1)));
+    return {
+      binStart,
+      binEnd,
+      meanPredicted: inBin.reduce((acc, o) => acc + o.score, 0) / (inBin.length || 1),
+      observedRate: inBin.filter(o => o.actual).length / (inBin.length || 1),
+      count: inBin.length,
+    };
+  }).filter(bin => bin.count > 0);
+
+// Expected calibration error: count-weighted gap between predicted and observed rates across bins
+export const expectedCalibrationError = (outcomes: ScoredOutcome[], binCount = 10): number =>
+  outcomes.length > 0
+    ? computeReliabilityBins(outcomes, binCount)
+        .reduce((acc, bin) => acc + (bin.count / outcomes.length) * Math.abs(bin.meanPredicted - bin.observedRate), 0)
+    : 0;
+
+export interface DecileRow {
+  decile: number; // 1 = highest scores
+  count: number;
+  positives: number;
+  observedRate: number;
+  minScore: number;
+  cumulativeCount: number;
+  cumulativePositives: number;
+  cumulativeCapture: number; // Share of all transitioners captured by calling deciles 1..n
+  lift: number; // Decile rate / overall rate
+  cumulativeLift: number;
+}
+
+// Rank by score (highest first) and cut into ten near-equal groups
+export const computeDeciles = (outcomes: ScoredOutcome[]): DecileRow[] => {
+  const sorted = [...outcomes].sort((a, b) => b.score - a.score);
+  const totalPositives = sorted.filter(o => o.actual).length;
+  const baseRate = sorted.length > 0 ? totalPositives / sorted.length : 0;
+  let cumulativeCount = 0;
+  let cumulativePositives = 0;
+
+  return Array.from({ length: 10 }, (_, d) => {
+    const group = sorted.slice(Math.round((d * sorted.length) / 10), Math.round(((d + 1) * sorted.length) / 10));
+    const positives = group.filter(o => o.actual).length;
+    cumulativeCount += group.length;
+    cumulativePositives += positives;
+    const observedRate = group.length > 0 ? positives / group.length : 0;
+    const cumulativeRate = cumulativeCount > 0 ? cumulativePositives / cumulativeCount : 0;
+    return {
+      decile: d + 1,
+      count: group.length,
+      positives,
+      observedRate,
+      minScore: group.length > 0 ? group[group.length - 1].score : 0,
+      cumulativeCount,
+      cumulativePositives,
+      cumulativeCapture: totalPositives > 0 ? cumulativePositives / totalPositives : 0,
+      lift: baseRate > 0 ? observedRate / baseRate : 0,
+      cumulativeLift: baseRate > 0 ? cumulativeRate / baseRate : 0,
+    };
+  });
+};
+
+// Score threshold that selects the top `fraction` of the scored cohort (e.g. 0.3 = top three deciles)
+export const thresholdForTopFraction = (patients: PatientProfile[], fraction: number): number => {
+  const scores = patients.filter(p => p.riskScore !== undefined).map(p => p.riskScore!).sort((a, b) => b - a);
+  if (scores.length === 0) return DEFAULT_DECISION_THRESHOLD;
+  const count = Math.max(1, Math.round(scores.length * fraction));
+  return scores[Math.min(count, scores.length) - 1];
+};
+
+export interface ClassMetrics {
+  therapy: string;
+  support: number; // TEST patients whose actual class this is
+  precision: number;
+  recall: number;
+}
+
+export interface MulticlassConfusion {
+  classes: string[];
+  matrix: number[][]; // matrix[actual][predicted]
+  perClass: ClassMetrics[];
+  accuracy: number;
+}
+
+// NEXT_THERAPY validation on TEST: actual class vs the most likely class (which may be "No transition")
+export const computeMulticlassConfusion = (patients: PatientProfile[], classes: string[]): MulticlassConfusion => {
+  const matrix = classes.map(() => classes.map(() => 0));
+  patients
+    .filter(p => p.split === 'TEST' && hasObservedOutcome(p) && p.nextTherapyProbabilities?.length)
+    .forEach(p => {
+      const actual = resolveTherapyClass(p.outcomeLabel!, classes);
+      const predicted = classes.indexOf(p.nextTherapyProbabilities![0].therapy);
+      if (actual !== -1 && predicted !== -1) matrix[actual][predicted]++;
+    });
+
+  const total = matrix.reduce((acc, row) => acc + row.reduce((a, v) => a + v, 0), 0);
+  const correct = classes.reduce((acc, _, k) => acc + matrix[k][k], 0);
+  return {
+    classes,
+    matrix,
+    perClass: classes.map((therapy, k) => {
+      const support = matrix[k].reduce((a, v) => a + v, 0);
+      const predictedCount = matrix.reduce((a, row) => a + row[k], 0);
+      return {
+        therapy,
+        support,
+        precision: predictedCount > 0 ? matrix[k][k] / predictedCount : 0,
+        recall: support > 0 ? matrix[k][k] / support : 0,
+      };
+    }),
+    accuracy: total > 0 ? correct / total : 0,
+  };
+};
+
+export interface FoldMetrics {
+  fold: number;
+  count: number; // TEST patients with an observed outcome in this fold
+  rocAuc: number;
+  prAuc: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+type FoldMetricKey = Exclude<keyof FoldMetrics, 'fold' | 'count'>;
+
+export interface CrossValidationReport {
+  folds: FoldMetrics[];
+  mean: Record<FoldMetricKey, number>;
+  std: Record<FoldMetricKey, number>;
+}
+
+const FOLD_METRIC_KEYS: FoldMetricKey[] = ['rocAuc', 'prAuc', 'accuracy', 'precision', 'recall', 'f1'];
+
+// Per-fold metrics from out-of-fold scores, with the mean and (sample) standard deviation across folds
+export const computeCrossValidationReport = (patients: PatientProfile[], threshold: number): CrossValidationReport | null => {
+  const foldIds = Array.from(new Set(patients.filter(p => p.fold !== undefined).map(p => p.fold!))).sort((a, b) => a - b);
+  if (foldIds.length < 2) return null;
+
+  const folds = foldIds.map(fold => {
+    const outcomes = getTestOutcomes(patients.filter(p => p.fold === fold));
+    const confusion = computeConfusion(outcomes, threshold);
+    return {
+      fold,
+      count: outcomes.length,
+      rocAuc: rocAuc(computeRocCurve(outcomes)),
+      prAuc: prAuc(computePrCurve(outcomes)),
+      accuracy: confusion.accuracy,
+      precision: confusion.precision,
+      recall: confusion.recall,
+      f1: confusion.f1,
+    };
+  });
+
+  const mean = {} as Record<FoldMetricKey, number>;
+  const std = {} as Record<FoldMetricKey, number>;
+  FOLD_METRIC_KEYS.forEach(key => {
+    const values = folds.map(f => f[key]);
+    mean[key] = values.reduce((acc, v) => acc + v, 0) / values.length;
+    std[key] = Math.sqrt(values.reduce((acc, v) => acc + (v - mean[key]) ** 2, 0) / (values.length - 1));
+  });
+  return { folds, mean, std };
+};
+
+export const DEFAULT_BOOTSTRAP_CONFIG: BootstrapConfig = { resamples: 1000, seed: 42, confidenceLevel: 0.95 };
+
+export type BootstrapIntervals = Partial<Record<ValidationMetricKey, ConfidenceInterval>>;
+
+// Linear interpolation between order statistics of a sorted sample
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const resampler = (seed: number) => {
+  const rng = createRng(seed);
+  return <T,>(items: T[]): T[] => items.map(() => items[Math.floor(rng() * items.length)]);
+};
+
+const toIntervals = (samples: Partial<Record<ValidationMetricKey, number[]>>, confidenceLevel: number): BootstrapIntervals => {
+  const alpha = (1 - confidenceLevel) / 2;
+  const intervals: BootstrapIntervals = {};
+  (Object.keys(samples) as ValidationMetricKey[]).forEach(key => {
+    const sorted = samples[key]!.sort((a, b) => a - b);
+    if (sorted.length > 0) intervals[key] = { lower: quantile(sorted, alpha), upper: quantile(sorted, 1 - alpha) };
+  });
+  return intervals;
+};
+
+// ROC-AUC and PR-AUC do not depend on the threshold, and sorting every resample is the expensive
+// part, so these are computed apart from the thresholded metrics below
+export const computeBootstrapAucIntervals = (patients: PatientProfile[], config: BootstrapConfig): BootstrapIntervals => {
+  const outcomes = getTestOutcomes(patients);
+  if (outcomes.length === 0 || config.resamples < 1) return {};
+
+  const resample = resampler(config.seed);
+  const samples: Partial<Record<ValidationMetricKey, number[]>> = { rocAuc: [], prAuc: [] };
+  for (let r = 0; r < config.resamples; r++) {
+    const drawn = resample(outcomes);
+    const roc = computeRocCurve(drawn);
+    if (roc.length > 0) {
+      samples.rocAuc!.push(rocAuc(roc));
+      samples.prAuc!.push(prAuc(computePrCurve(drawn)));
+    }
+  }
+  return toIntervals(samples, config.confidenceLevel);
+};
+
+// Accuracy, precision, recall, F1 and the target list size at one threshold
+export const computeBootstrapThresholdIntervals = (
+  patients: PatientProfile[],
+  threshold: number,
+  config: BootstrapConfig
+): BootstrapIntervals => {
+  const outcomes = getTestOutcomes(patients);
+  const scores = patients.filter(p => p.riskScore !== undefined).map(p => p.riskScore!);
+  if (outcomes.length === 0 || config.resamples < 1) return {};
+
+  const resample = resampler(config.seed);
+  const samples: Partial<Record<ValidationMetricKey, number[]>> = {
+    accuracy: [], precision: [], recall: [], f1: [], highRiskCount: [],
+  };
+  for (let r = 0; r < config.resamples; r++) {
+    const confusion = computeConfusion(resample(outcomes), threshold);
+    samples.accuracy!.push(confusion.accuracy);
+    samples.precision!.push(confusion.precision);
+    samples.recall!.push(confusion.recall);
+    samples.f1!.push(confusion.f1);
+    samples.highRiskCount!.push(resample(scores).filter(score => score >= threshold).length);
+  }
+  return toIntervals(samples, config.confidenceLevel);
+};
+
+// Percentile bootstrap. Classification metrics resample the TEST patients with an observed outcome;
+// the high-risk count resamples the whole scored cohort, since that is what gets published.
+// Resamples with only one outcome class have no AUC and are left out of those two intervals.
+export const computeBootstrapIntervals = (
+  patients: PatientProfile[],
+  threshold: number,
+  config: BootstrapConfig
+): BootstrapIntervals => ({
+  ...computeBootstrapThresholdIntervals(patients, threshold, config),
+  ...computeBootstrapAucIntervals(patients, config),
+});
@@ -0,0 +1,216 @@
+import { OntologyMapping } from "../types";
+import { ChatMessage, InferenceProvider, InferenceRequest, ToolCall, ToolChatRequest, ToolChatResponse } from "./inferenceProvider";
+import { PatientPrediction, PatientPromptRecord } from "./inferenceService";
+import { parseTargetTransition } from "./outcomeLabeling";
+import { createRng } from "./random";
+
+// Deterministic, fixture-driven backend for demos and offline work. Answers are computed from the
+// request payload, so the same input always produces the same output and no network is needed.
+
+const ONTOLOGY_FIXTURES: { keywords: string[]; mapping: Omit<OntologyMapping, 'targetLineTransition'> }[] = [
+  {
+    keywords: ['breast', 'tamoxifen', 'letrozole', 'palbociclib', 'her2', 'hr+'],
+    mapping: {
+      diseaseName: 'Breast Cancer',
+      icdCodes: ['C50%'],
+      cptCodes: ['96401', '96402', '96413', '77067'],
+      drugs: ['Tamoxifen', 'Letrozole', 'Anastrozole', 'Palbociclib', 'Fulvestrant', 'Capecitabine', 'Everolimus', 'Exemestane'],
+    },
+  },
+  {
+    keywords: ['lung', 'nsclc', 'osimertinib', 'pembrolizumab'],
+    mapping: {
+      diseaseName: 'Lung Cancer',
+      icdCodes: ['C34%'],
+      cptCodes: ['96413', '71260', '31622'],
+      drugs: ['Osimertinib', 'Pembrolizumab', 'Carboplatin', 'Pemetrexed', 'Docetaxel'],
+    },
+  },
+  {
+    keywords: ['diabetes', 't2d', 'metformin', 'insulin', 'glp'],
+    mapping: {
+      diseaseName: 'Diabetes',
+      icdCodes: ['E11%'],
+      cptCodes: ['83036', '82947'],
+      drugs: ['Metformin', 'Sitagliptin', 'Empagliflozin', 'Semaglutide', 'Insulin Glargine'],
+    },
+  },
+];
+
+// Stable 32-bit hash so each patient always gets the same score
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const mockParseIntent = ({ query }: { query: string }): OntologyMapping => {
+  const text = query.toLowerCase();
+  const fixture = ONTOLOGY_FIXTURES.find(f => f.keywords.some(k => text.includes(k))) || ONTOLOGY_FIXTURES[0];
+  // A single line mention ("moving to 2nd line") names the destination line
+  const lineMentions = text.match(/\d+\s*(?:l\b|st|nd|rd|th)|\b(?:first|second|third|fourth|fifth)\b/g) || [];
+  const parsed = parseTargetTransition(query);
+  const { fromLine, toLine } = lineMentions.length === 1 && parsed.fromLine > 1
+    ? { fromLine: parsed.fromLine - 1, toLine: parsed.fromLine }
+    : parsed;
+  return { ...fixture.mapping, targetLineTransition: `${fromLine}L to ${toLine}L` };
+};
+
+// Later lines and combination regimens progress sooner; the hash adds stable per-patient spread.
+// The factors are the rule terms that fired, so the mock's explanations match its scores.
+const mockScorePatients = ({ patients }: { patients: PatientPromptRecord[] }): PatientPrediction[] =>
+  patients.map(p => {
+    const factors = [
+      { feature: 'index_line', weight: 0.1 * Math.min(p.currentLine - 1, 3) },
+      { feature: 'regimen_size', weight: p.regimen.includes('+') ? 0.1 : 0 },
+      { feature: 'age', weight: (p.age ?? 60) >= 70 ? 0.05 : 0 },
+    ].filter(f => f.weight > 0);
+    const base = 0.15 + factors.reduce((acc, f) => acc + f.weight, 0);
+    const jitter = createRng(hashString(p.id))() * 0.7 - 0.2;
+    const rationale = factors.length > 0
+      ? `Line ${p.currentLine} on ${p.regimen}; risk raised by ${factors.map(f => f.feature).join(', ')}.`
+      : `Line ${p.currentLine} on ${p.regimen}; no rule-based risk factors apply.`;
+    return { id: p.id, riskScore: Math.round(Math.min(0.98, Math.max(0.02, base + jitter)) * 100) / 100, rationale, factors };
+  });
+
+// Keyword planner standing in for function calling: data tools picked from the question (or, for
+// a follow-up like "show that as a pie chart", from the last question that named a subject), an
+// optional chart round, then an answer written from the tool results.
+const CHART_REQUEST = /\b(chart|plot|graph|visuali[sz]e|pie)\b/;
+
+// Ids are assigned per response by numberCalls, after the plan is known
+const toolCall = (name: string, args: Record<string, unknown>): ToolCall => ({ id: '', name, arguments: args });
+
+// Tool results are matched back by id, so ids continue on from the results already in the conversation
+const numberCalls = (messages: ChatMessage[], calls: ToolCall[]): ToolCall[] => {
+  const offset = messages.filter(m => m.role === 'tool').length;
+  return calls.map((call, i) => ({ ...call, id: `mock-${call.name}-${offset + i}` }));
+};
+
+const planToolCalls = (question: string): ToolCall[] | null => {
+  const text = question.toLowerCase();
+  const topMatch = text.match(/\btop\s+(\d+)/);
+  const doctorMatch = question.match(/\bdr\.?\s+([a-z]+(?:\s+[a-z]+)?)/i);
+  const patientMatch = question.match(/\b[a-z]{1,3}-\d+\b/i);
+
+  if (patientMatch) return [toolCall('describe_patient', { patientId: patientMatch[0] })];
+  if (doctorMatch && topMatch) {
+    return [toolCall('top_n', { filters: [{ field: 'doctor', op: 'contains', value: doctorMatch[1] }], n: Number(topMatch[1]) })];
+  }
+  if (doctorMatch) return [toolCall('describe_doctor', { doctor: doctorMatch[1] })];
+  if (topMatch) return [toolCall('top_n', { n: Number(topMatch[1]) })];
+  if (/\b(doctor|prescriber|npi|hcp)s?\b/.test(text)) {
+    return [toolCall('group_by', { groupBy: 'doctor', filters: [{ field: 'riskCategory', op: 'eq', value: 'High' }], limit: 5 })];
+  }
+  if (/\b(drug|regimen|therap(y|ies))\b/.test(text)) {
+    return [toolCall('group_by', { groupBy: 'drug', metric: 'mean', field: 'riskScore', limit: 5 })];
+  }
+  if (/\b(specialty|specialties)\b/.test(text)) return [toolCall('group_by', { groupBy: 'specialty' })];
+  if (/\b(average|mean|median)\b/.test(text) && /\bage\b/.test(text)) return [toolCall('aggregate', { field: 'age' })];
+  if (/\b(risk|distribution|cohort|overview|summary)\b/.test(text)) {
+    return [toolCall('group_by', { groupBy: 'riskCategory' }), toolCall('aggregate', { field: 'riskScore' })];
+  }
+  return null;
+};
+
+type GroupByOutput = { groupBy: string; metric: string; field?: string; groups: { key: string; count: number; value: number }[] };
+
+const planChart = (question: string, output: GroupByOutput): ToolCall => {
+  const text = question.toLowerCase();
+  const metric = output.metric === 'count' ? 'Patients' : `${output.metric} ${output.field}`;
+  return toolCall('show_chart', {
+    type: /\bpie\b/.test(text) ? 'pie' : /\b(line chart|trend)\b/.test(text) ? 'line' : 'bar',
+    title: `${metric} by ${output.groupBy}`,
+    xLabel: output.groupBy,
+    yLabel: metric,
+    data: output.groups.map(g => ({ label: g.key, value: g.value })),
+  });
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'number' ? String(value) : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '—');
+
+// Each tool result becomes a short markdown section; the numbers are passed through untouched
+const describeToolResult = (name: string, output: Record<string, unknown>): string[] => {
+  if ('error' in output) return [`- \`${name}\` failed: ${output.error}`];
+  switch (name) {
+    case 'group_by': {
+      const { groupBy, metric, field, groups } = output as GroupByOutput;
+      const header = metric === 'count' ? 'Patients' : `${metric} ${field}`;
+      return [
+        `**By ${groupBy}:**`,
+        '',
+        `| ${groupBy} | ${header} |${metric === 'count' ? '' : ' Patients |'}`,
+        `| --- | ---: |${metric === 'count' ? '' : ' ---: |'}`,
+        ...groups.map(g => `| ${g.key} | ${g.value} |${metric === 'count' ? '' : ` ${g.count} |`}`),
+      ];
+    }
+    case 'top_n': {
+      const rows = output.rows as Record<string, unknown>[];
+      const sortBy = output.sortBy as string;
+      return [
+        `**Top ${rows.length} of ${output.matched} by ${sortBy}:**`,
+        '',
+        `| Patient | ${sortBy} | Drug | Doctor |`,
+        '| --- | ---: | --- | --- |',
+        ...rows.map(r => `| ${r.id} | ${formatValue(r[sortBy])} | ${r.drug} | ${r.doctor} |`),
+      ];
+    }
+    case 'filter_patients':
+      return [`**${output.count}** patients match.`];
+    case 'show_chart':
+      return [`_Chart: ${output.title}_`];
+    default:
+      return Object.entries(output)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `- ${key}: **${formatValue(value)}**`);
+  }
+};
+
+const mockToolChat = ({ messages }: ToolChatRequest): ToolChatResponse => {
+  const userTurns = messages.filter((m): m is Extract<ChatMessage, { role: 'user' }> => m.role === 'user').map(m => m.content);
+  const question = userTurns[userTurns.length - 1];
+  const lastUser = messages.map(m => m.role).lastIndexOf('user');
+  const toolResults = messages.slice(lastUser + 1).filter((m): m is Extract<ChatMessage, { role: 'tool' }> => m.role === 'tool');
+
+  if (toolResults.length === 0) {
+    const plan = [...userTurns].reverse().map(planToolCalls).find(Boolean)
+      ?? [toolCall('group_by', { groupBy: 'riskCategory' }), toolCall('aggregate', { field: 'riskScore' })];
+    return { content: '', toolCalls: numberCalls(messages, plan) };
+  }
+
+  const grouped = toolResults.find(r => r.name === 'group_by');
+  if (CHART_REQUEST.test(question.toLowerCase()) && grouped && !toolResults.some(r => r.name === 'show_chart')) {
+    const output = JSON.parse(grouped.content);
+    if (!('error' in output)) return { content: '', toolCalls: numberCalls(messages, [planChart(question, output)]) };
+  }
+
+  return {
+    content: [
+      `**Offline mock answer** to: _${question}_`,
+      ...toolResults.flatMap(r => ['', ...describeToolResult(r.name, JSON.parse(r.content))]),
+      '',
+      'Switch the inference provider in Admin Settings for model-generated answers.',
+    ].join('\n'),
+    toolCalls: [],
+  };
+};
+
+export const createMockProvider = (): InferenceProvider => ({
+  id: 'MOCK',
+  label: 'Mock (offline fixtures)',
+  generate: async (request: InferenceRequest) => {
+    switch (request.task) {
+      case 'PARSE_INTENT':
+        return JSON.stringify(mockParseIntent(request.payload as { query: string }));
+      case 'SCORE_PATIENTS':
+        return JSON.stringify(mockScorePatients(request.payload as { patients: PatientPromptRecord[] }));
+      case 'QUERY_RESULTS':
+        return ''; // Analyst questions go through chat()
+    }
+  },
+  chat: async (request: ToolChatRequest) => mockToolChat(request),
+});
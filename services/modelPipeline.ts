@@ -0,0 +1,322 @@
+import { CohortConfig, FeatureMatrix, ModelRunSummary, OntologyMapping, PatientExplanation, PatientProfile, ScoringProgress } from "../types";
+import { classifyPatientRisk } from "./inferenceService";
+import { assignCalibrationHoldout, assignFolds, assignTrainTestSplit } from "./dataSplit";
+import { hasObservedOutcome } from "./outcomeLabeling";
+import {
+  predictClassProbabilities, predictProbability, trainGradientBoostedTrees, trainMulticlassBoostedTrees
+} from "./gradientBoosting";
+import { applySmote } from "./smote";
+import { getInferenceProvider } from "./inferenceProvider";
+import { buildFeatureMatrix } from "./featureEngineering";
+import { toRiskCategory } from "./metrics";
+import { applyCalibration, fitCalibration } from "./calibration";
+import { computeFeatureImportance, explainCoxModel, explainGradientBoosting } from "./explainability";
+import {
+  SURVIVAL_HORIZONS_MONTHS, concordanceIndex, fitCoxModel, hazardRatioTable, linearPredictor, toSurvivalObservation,
+  transitionProbability
+} from "./survival";
+import { buildTherapyClasses, NO_TRANSITION_CLASS, resolveTherapyClass, toTherapyDistribution } from "./nextTherapy";
+
+export interface ModelRunResult {
+  patients: PatientProfile[];
+  summary: ModelRunSummary;
+  featureMatrix: FeatureMatrix;
+}
+
+// Train on TRAIN patients with an observed outcome, then score every patient (TEST and full cohort)
+const runGradientBoosting = (patients: PatientProfile[], featureMatrix: FeatureMatrix, config: CohortConfig): ModelRunResult => {
+  const rowById = new Map(featureMatrix.patientIds.map((id, i) => [id, featureMatrix.rows[i]]));
+  const rows = patients.map(p => rowById.get(p.id)!);
+  const names = featureMatrix.features.map(f => f.name);
+  // Calibration hold-out patients are kept out of training so the calibrator sees unseen scores
+  const trainIdx = patients.map((p, i) => i)
+    .filter(i => patients[i].split === 'TRAIN' && !patients[i].calibrationHoldout && hasObservedOutcome(patients[i]));
+  let X = trainIdx.map(i => rows[i]);
+  let y: number[] = trainIdx.map(i => (patients[i].actualOutcome ? 1 : 0));
+
+  // SMOTE: resample the training rows only, after the split, so the test split never sees synthetic rows
+  let syntheticCount = 0;
+  if (config.imbalanceStrategy === 'SMOTE') {
+    const resampled = applySmote(X, y, config.smoteParams, config.boostingParams.seed);
+    X = resampled.X;
+    y = resampled.y;
+    syntheticCount = resampled.syntheticCount;
+  }
+
+  // CLASS_WEIGHTS: scale_pos_weight = negatives / positives in the training split
+  const positives = y.filter(v => v === 1).length;
+  const scalePosWeight = config.imbalanceStrategy === 'CLASS_WEIGHTS' && positives > 0
+    ? (y.length - positives) / positives
+    : 1;
+
+  const model = trainGradientBoostedTrees(X, y, names, config.boostingParams, scalePosWeight);
+
+  const explanations = explainGradientBoosting(model, featureMatrix.features, rows);
+  const scored = patients.map((p, i) => {
+    const score = predictProbability(model, rows[i]);
+    return { ...p, riskScore: score, riskCategory: toRiskCategory(score), explanation: explanations[i] };
+  });
+
+  return {
+    patients: scored,
+    summary: {
+      modelType: 'XGBOOST',
+      engine: `Gradient Boosted Trees (${model.trees.length} trees, depth ${config.boostingParams.maxDepth})`,
+      trainCount: trainIdx.length,
+      testCount: patients.filter(p => p.split === 'TEST').length,
+      splitStrategy: config.split.strategy,
+      featureCount: names.length,
+      scalePosWeight,
+      syntheticCount,
+    },
+    featureMatrix,
+  };
+};
+
+// Cox model on time to the next line. Censored TRAIN patients are kept: they add follow-up time without an event.
+// riskScore is the probability of transitioning within the prediction window, so thresholds and metrics still apply.
+const runSurvival = (patients: PatientProfile[], featureMatrix: FeatureMatrix, config: CohortConfig): ModelRunResult => {
+  const rowById = new Map(featureMatrix.patientIds.map((id, i) => [id, featureMatrix.rows[i]]));
+  const rows = patients.map(p => rowById.get(p.id)!);
+  const trainIdx = patients.map((p, i) => i)
+    .filter(i => patients[i].split === 'TRAIN' && !patients[i].calibrationHoldout && patients[i].outcomeLabel);
+  const trainObservations = trainIdx.map(i => toSurvivalObservation(patients[i])!);
+
+  const model = fitCoxModel(trainIdx.map(i => rows[i]), trainObservations, featureMatrix.features);
+  const explanations = explainCoxModel(model, rows);
+  const horizons = Array.from(new Set([...SURVIVAL_HORIZONS_MONTHS, config.predictionWindowMonths])).sort((a, b) => a - b);
+
+  const scored = patients.map((p, i) => {
+    const score = transitionProbability(model, rows[i], config.predictionWindowMonths);
+    return {
+      ...p,
+      riskScore: score,
+      riskCategory: toRiskCategory(score),
+      explanation: explanations[i],
+      transitionForecast: horizons.map(horizonMonths => ({ horizonMonths, probability: transitionProbability(model, rows[i], horizonMonths) })),
+    };
+  });
+
+  const testIdx = patients.map((p, i) => i).filter(i => patients[i].split === 'TEST' && patients[i].outcomeLabel);
+  return {
+    patients: scored,
+    summary: {
+      modelType: 'SURVIVAL',
+      engine: `Cox Proportional Hazards (${model.columns.length} covariates, Breslow baseline)`,
+      trainCount: trainIdx.length,
+      testCount: patients.filter(p => p.split === 'TEST').length,
+      splitStrategy: config.split.strategy,
+      featureCount: featureMatrix.features.length,
+      survival: {
+        hazardRatios: hazardRatioTable(model),
+        concordance: concordanceIndex(testIdx.map(i => linearPredictor(model, rows[i])), testIdx.map(i => toSurvivalObservation(patients[i])!)),
+        events: trainObservations.filter(o => o.event).length,
+        horizonsMonths: horizons,
+      },
+    },
+    featureMatrix,
+  };
+};
+
+// Softmax boosting over next-line regimens plus "No transition", trained like runGradientBoosting.
+// riskScore is 1 - P(no transition), so thresholds, calibration and publishing work unchanged.
+const runNextTherapy = (patients: PatientProfile[], featureMatrix: FeatureMatrix, config: CohortConfig): ModelRunResult => {
+  const rowById = new Map(featureMatrix.patientIds.map((id, i) => [id, featureMatrix.rows[i]]));
+  const rows = patients.map(p => rowById.get(p.id)!);
+  const trainIdx = patients.map((p, i) => i)
+    .filter(i => patients[i].split === 'TRAIN' && !patients[i].calibrationHoldout && hasObservedOutcome(patients[i]));
+  const classes = buildTherapyClasses(trainIdx.map(i => patients[i]));
+
+  const model = trainMulticlassBoostedTrees(
+    trainIdx.map(i => rows[i]),
+    trainIdx.map(i => resolveTherapyClass(patients[i].outcomeLabel!, classes)),
+    classes.length,
+    featureMatrix.features.map(f => f.name),
+    config.boostingParams
+  );
+
+  const distributions = rows.map(x => toTherapyDistribution(classes, predictClassProbabilities(model, x)));
+  const predicted = distributions.map(d => d.find(c => c.therapy !== NO_TRANSITION_CLASS)!.therapy);
+
+  // Explain each patient's predicted therapy: path contributions on that class's trees
+  const explanations: PatientExplanation[] = new Array(patients.length);
+  classes.forEach((therapy, k) => {
+    const indices = predicted.map((p, i) => (p === therapy ? i : -1)).filter(i => i !== -1);
+    if (indices.length === 0) return;
+    const classModel = {
+      params: model.params,
+      scalePosWeight: 1,
+      baseMargin: model.baseMargins[k],
+      trees: model.trees.map(round => round[k]),
+      featureNames: model.featureNames,
+    };
+    explainGradientBoosting(classModel, featureMatrix.features, indices.map(i => rows[i]))
+      .forEach((explanation, j) => { explanations[indices[j]] = { ...explanation, target: therapy }; });
+  });
+
+  const scored = patients.map((p, i) => {
+    const score = 1 - distributions[i].find(c => c.therapy === NO_TRANSITION_CLASS)!.probability;
+    return {
+      ...p,
+      riskScore: score,
+      riskCategory: toRiskCategory(score),
+      explanation: explanations[i],
+      nextTherapyProbabilities: distributions[i],
+      predictedNextTherapy: predicted[i],
+    };
+  });
+
+  return {
+    patients: scored,
+    summary: {
+      modelType: 'NEXT_THERAPY',
+      engine: `Multi-class Gradient Boosted Trees (${classes.length} classes, ${model.trees.length} rounds)`,
+      trainCount: trainIdx.length,
+      testCount: patients.filter(p => p.split === 'TEST').length,
+      splitStrategy: config.split.strategy,
+      featureCount: featureMatrix.features.length,
+      therapyClasses: classes,
+    },
+    featureMatrix,
+  };
+};
+
+// Fit the calibrator on the hold-out patients' scores, then recalibrate everyone (raw score kept alongside)
+const calibrateRun = (result: ModelRunResult, config: CohortConfig): ModelRunResult => {
+  if (config.calibration.method === 'NONE') return result;
+
+  const holdout = result.patients.filter(p => p.calibrationHoldout && hasObservedOutcome(p));
+  const model = fitCalibration(
+    config.calibration.method,
+    holdout.map(p => p.riskScore!),
+    holdout.map(p => (p.actualOutcome ? 1 : 0))
+  );
+  const summary = {
+    ...result.summary,
+    calibration: { method: config.calibration.method, holdoutCount: holdout.length, fitted: model !== null },
+  };
+  if (!model) return { ...result, summary };
+
+  return {
+    ...result,
+    summary,
+    patients: result.patients.map(p => {
+      const score = applyCalibration(model, p.riskScore!);
+      return { ...p, rawRiskScore: p.riskScore, riskScore: score, riskCategory: toRiskCategory(score) };
+    }),
+  };
+};
+
+// Global importance from the per-patient explanations, whichever model produced them
+const withFeatureImportance = (result: ModelRunResult): ModelRunResult => ({
+  ...result,
+  summary: { ...result.summary, featureImportance: computeFeatureImportance(result.patients) },
+});
+
+// Train and score one TRAIN / TEST assignment. LLM scores do not depend on the split, so under
+// cross-validation they are computed once and passed in as `llmScores`.
+const runOnSplit = async (
+  splitPatients: PatientProfile[],
+  featureMatrix: FeatureMatrix,
+  ontology: OntologyMapping,
+  config: CohortConfig,
+  onProgress?: (progress: ScoringProgress) => void,
+  llmScores?: Map<string, PatientProfile>
+): Promise<ModelRunResult> => {
+  if (config.calibration.method !== 'NONE') {
+    splitPatients = assignCalibrationHoldout(splitPatients, config.calibration.holdoutFraction, config.split.seed);
+  }
+
+  if (config.modelType === 'XGBOOST') {
+    return calibrateRun(runGradientBoosting(splitPatients, featureMatrix, config), config);
+  }
+  if (config.modelType === 'NEXT_THERAPY') {
+    return calibrateRun(runNextTherapy(splitPatients, featureMatrix, config), config);
+  }
+  if (config.modelType === 'SURVIVAL') {
+    return calibrateRun(runSurvival(splitPatients, featureMatrix, config), config);
+  }
+
+  const scored = llmScores
+    ? splitPatients.map(p => {
+        const { riskScore, riskCategory, explanation } = llmScores.get(p.id)!;
+        return { ...p, riskScore, riskCategory, explanation };
+      })
+    : await classifyPatientRisk(splitPatients, featureMatrix, ontology, config, onProgress);
+  return calibrateRun({
+    patients: scored,
+    summary: {
+      modelType: config.modelType,
+      engine: getInferenceProvider().label,
+      trainCount: scored.filter(p => p.split === 'TRAIN').length,
+      testCount: scored.filter(p => p.split === 'TEST').length,
+      featureCount: featureMatrix.features.length,
+      splitStrategy: config.split.strategy,
+    },
+    featureMatrix,
+  }, config);
+};
+
+// Prescriber-grouped k-fold: train once per fold and keep each patient's out-of-fold score, so every
+// patient ends up in TEST exactly once and validation can report the spread across folds
+const runCrossValidation = async (
+  patients: PatientProfile[],
+  featureMatrix: FeatureMatrix,
+  ontology: OntologyMapping,
+  config: CohortConfig,
+  onProgress?: (progress: ScoringProgress) => void
+): Promise<ModelRunResult> => {
+  const folds = assignFolds(patients, config.split);
+  const withFolds = patients.map(p => ({ ...p, fold: folds.get(p.id) }));
+  const llmScores = config.modelType === 'GENAI_REASONING'
+    ? new Map((await classifyPatientRisk(withFolds, featureMatrix, ontology, config, onProgress)).map(p => [p.id, p]))
+    : undefined;
+
+  const results: ModelRunResult[] = [];
+  for (let f = 0; f < config.split.folds; f++) {
+    const foldPatients = withFolds.map(p => ({ ...p, split: p.fold === f ? 'TEST' as const : 'TRAIN' as const }));
+    results.push(await runOnSplit(foldPatients, featureMatrix, ontology, config, undefined, llmScores));
+  }
+
+  const outOfFold = new Map(results.flatMap((r, f) => r.patients.filter(p => p.fold === f).map(p => [p.id, p] as const)));
+  const scored = patients.map(p => outOfFold.get(p.id)!);
+  // Model details (engine, hazard ratios, classes) come from the first fold's model
+  const { summary } = results[0];
+  const survivalPatients = scored.filter(p => p.outcomeLabel);
+  return {
+    patients: scored,
+    summary: {
+      ...summary,
+      trainCount: Math.round(results.reduce((acc, r) => acc + r.summary.trainCount, 0) / results.length),
+      testCount: scored.length,
+      folds: config.split.folds,
+      ...(summary.survival && {
+        survival: {
+          ...summary.survival,
+          concordance: concordanceIndex(survivalPatients.map(p => p.riskScore!), survivalPatients.map(p => toSurvivalObservation(p)!)),
+        },
+      }),
+      ...(summary.calibration && {
+        calibration: { ...summary.calibration, fitted: results.every(r => r.summary.calibration?.fitted) },
+      }),
+    },
+    featureMatrix,
+  };
+};
+
+// Entry point for the ANALYSIS step: split the cohort, then dispatch on the model type
+export const runRiskModel = async (
+  patients: PatientProfile[],
+  ontology: OntologyMapping,
+  config: CohortConfig,
+  onProgress?: (progress: ScoringProgress) => void
+): Promise<ModelRunResult> => {
+  // One engineered feature matrix feeds every model type, every fold and the explanation views
+  const featureMatrix = buildFeatureMatrix(patients, ontology, config);
+
+  if (config.split.strategy === 'GROUPED_KFOLD') {
+    return withFeatureImportance(await runCrossValidation(patients, featureMatrix, ontology, config, onProgress));
+  }
+  const splitPatients = assignTrainTestSplit(patients, config.trainTestSplit, config.split);
+  return withFeatureImportance(await runOnSplit(splitPatients, featureMatrix, ontology, config, onProgress));
+};
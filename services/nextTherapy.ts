@@ -0,0 +1,54 @@
+import { PatientProfile, TherapyProbability, TransitionLabel } from "../types";
+
+// Classes for next-line therapy prediction. A patient's class is the regimen of the line they moved to
+// inside the prediction window, or "No transition". Regimens seen too rarely in training are pooled.
+
+export const NO_TRANSITION_CLASS = 'No transition';
+export const OTHER_REGIMEN_CLASS = 'Other regimen';
+const MIN_CLASS_PATIENTS = 3; // Training patients a regimen needs to become its own class
+
+export const toTherapyClass = (label: TransitionLabel): string =>
+  label.outcome && label.triggerRegimen && label.triggerRegimen.length > 0
+    ? label.triggerRegimen.join(' + ')
+    : NO_TRANSITION_CLASS;
+
+// "No transition" first, then regimens by training frequency, then the pooled class
+export const buildTherapyClasses = (trainingPatients: PatientProfile[]): string[] => {
+  const counts = new Map<string, number>();
+  trainingPatients.forEach(p => {
+    const therapy = toTherapyClass(p.outcomeLabel!);
+    if (therapy !== NO_TRANSITION_CLASS) counts.set(therapy, (counts.get(therapy) || 0) + 1);
+  });
+  const regimens = Array.from(counts.entries())
+    .filter(([, count]) => count >= MIN_CLASS_PATIENTS)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([therapy]) => therapy);
+  return [NO_TRANSITION_CLASS, ...regimens, OTHER_REGIMEN_CLASS];
+};
+
+// Class index for a labeled patient; unseen or rare regimens fall into the pooled class
+export const resolveTherapyClass = (label: TransitionLabel, classes: string[]): number => {
+  const index = classes.indexOf(toTherapyClass(label));
+  return index !== -1 ? index : classes.indexOf(OTHER_REGIMEN_CLASS);
+};
+
+export const toTherapyDistribution = (classes: string[], probabilities: number[]): TherapyProbability[] =>
+  classes
+    .map((therapy, k) => ({ therapy, probability: probabilities[k] }))
+    .sort((a, b) => b.probability - a.probability);
+
+// Expected number of patients moving to each regimen (sum of probabilities), largest first
+export const forecastTherapyShares = (patients: PatientProfile[]): { therapy: string; expectedPatients: number; share: number }[] => {
+  const totals = new Map<string, number>();
+  patients.forEach(p => (p.nextTherapyProbabilities || []).forEach(({ therapy, probability }) => {
+    if (therapy !== NO_TRANSITION_CLASS) totals.set(therapy, (totals.get(therapy) || 0) + probability);
+  }));
+  const expectedTransitions = Array.from(totals.values()).reduce((acc, v) => acc + v, 0);
+  return Array.from(totals.entries())
+    .map(([therapy, expectedPatients]) => ({
+      therapy,
+      expectedPatients,
+      share: expectedTransitions > 0 ? expectedPatients / expectedTransitions : 0,
+    }))
+    .sort((a, b) => b.expectedPatients - a.expectedPatients);
+};
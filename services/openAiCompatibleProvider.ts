@@ -0,0 +1,100 @@
+import { ChatMessage, InferenceProvider } from "./inferenceProvider";
+
+// Any server exposing the OpenAI chat completions API (Ollama, vLLM, llama.cpp, LM Studio, ...).
+// Non-2xx responses carry the HTTP status so rate limits and 5xx errors are retried by batchScoring.
+export class InferenceHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'InferenceHttpError';
+  }
+}
+
+const toOpenAiMessage = (message: ChatMessage) => {
+  switch (message.role) {
+    case 'user':
+      return message;
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        }),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+};
+
+// Some servers return malformed argument JSON; the tool then sees no arguments and reports the error back
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey: string): InferenceProvider => {
+  const complete = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({ model, temperature: 0, ...body }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new InferenceHttpError(`${baseUrl} returned ${response.status}: ${detail.slice(0, 200)}`, response.status);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message;
+  };
+
+  return {
+    id: 'OPENAI_COMPATIBLE',
+    label: `${model} (${baseUrl})`,
+    generate: async (request) => {
+      const messages = [
+        ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+        { role: 'user', content: request.prompt },
+      ];
+      const message = await complete({
+        messages,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.task.toLowerCase(), schema: request.responseSchema },
+          },
+        }),
+      });
+      return message?.content || "";
+    },
+    chat: async (request) => {
+      const message = await complete({
+        messages: [
+          ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+          ...request.messages.map(toOpenAiMessage),
+        ],
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      });
+      const toolCalls = (message?.tool_calls || []).map((call: { id: string; function: { name: string; arguments: string } }) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments),
+      }));
+      return { content: message?.content || "", toolCalls };
+    },
+  };
+};
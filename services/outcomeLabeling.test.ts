@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { OntologyMapping, PatientProfile, TherapyLine } from "../types";
+import { hasObservedOutcome, labelTransitionOutcome, labelTransitionOutcomes, parseTargetTransition } from "./outcomeLabeling";
+
+const line = (lineNumber: number, startDate: string, claimId: string, regimen: string[]): TherapyLine => ({
+  lineNumber,
+  regimen,
+  startDate,
+  lastClaimDate: startDate,
+  endReason: 'ONGOING',
+  claimIds: [claimId],
+});
+
+const patient = (therapyLines: TherapyLine[], lastServiceDate: string): PatientProfile => ({
+  id: 'P1',
+  gender: 'F',
+  diagnosisCode: 'C50.911',
+  currentTherapyLine: therapyLines.length,
+  monthsOnCurrentTherapy: 0,
+  lastVisitDate: lastServiceDate,
+  npiSpecialty: 'Oncology',
+  drugId: therapyLines[therapyLines.length - 1]?.regimen.join(' + ') ?? '',
+  doctorName: 'Dr. Smith',
+  npiId: '1234567890',
+  history: {
+    patientId: 'P1',
+    // The trigger claim carries a diagnosis and a drug; the label should cite the drug
+    events: [
+      { claimId: 'C1', date: '2023-01-01', type: 'RX', code: 'Tamoxifen' },
+      { claimId: 'C2', date: '2023-04-01', type: 'DX', code: 'C50.911' },
+      { claimId: 'C2', date: '2023-04-01', type: 'RX', code: 'LETROZOLE 2.5MG' },
+    ],
+    claimCount: 2,
+    firstServiceDate: '2023-01-01',
+    lastServiceDate,
+  },
+  therapyLines,
+});
+
+const firstLine = line(1, '2023-01-01', 'C1', ['Tamoxifen']);
+
+describe('parseTargetTransition', () => {
+  it.each([
+    ['1L to 2L', 1, 2],
+    ['2L->3L', 2, 3],
+    ['first line to second line', 1, 2],
+    ['3rd line to 4th line', 3, 4],
+    ['progression from 2L', 2, 3],
+    ['next line', 1, 2],
+  ])('parses "%s" as %iL -> %iL', (text, fromLine, toLine) => {
+    expect(parseTargetTransition(text)).toEqual({ fromLine, toLine });
+  });
+});
+
+describe('labelTransitionOutcome', () => {
+  it('labels a next line inside the window positive and cites the claim that started it', () => {
+    const label = labelTransitionOutcome(patient([firstLine, line(2, '2023-04-01', 'C2', ['Letrozole'])], '2024-01-01'), 1, 2, 6)!;
+
+    expect(label).toMatchObject({
+      fromLine: 1,
+      toLine: 2,
+      indexDate: '2023-01-01',
+      indexRegimen: ['Tamoxifen'],
+      windowEndDate: '2023-07-03', // 183 days: months are average-length
+      outcome: true,
+      censored: false,
+      triggerClaimId: 'C2',
+      triggerCode: 'LETROZOLE 2.5MG',
+      triggerDate: '2023-04-01',
+      triggerRegimen: ['Letrozole'],
+      timeToEventDays: 90,
+      eventObserved: true,
+    });
+  });
+
+  it('labels a next line after the window negative but keeps it as a survival event', () => {
+    const label = labelTransitionOutcome(patient([firstLine, line(2, '2023-09-01', 'C2', ['Letrozole'])], '2024-01-01'), 1, 2, 6)!;
+
+    expect(label.outcome).toBe(false);
+    expect(label.censored).toBe(false);
+    expect(label.triggerClaimId).toBeUndefined();
+    expect(label.eventObserved).toBe(true);
+    expect(label.timeToEventDays).toBe(243);
+  });
+
+  it('censors patients whose follow-up ends before the window closes', () => {
+    const short = patient([firstLine], '2023-05-01');
+    const label = labelTransitionOutcome(short, 1, 2, 6)!;
+
+    expect(label).toMatchObject({ outcome: false, censored: true, eventObserved: false, timeToEventDays: 120 });
+    expect(hasObservedOutcome({ ...short, outcomeLabel: label })).toBe(false);
+  });
+
+  it('keeps a full window without a transition as an observed negative', () => {
+    const followed = patient([firstLine], '2023-12-01');
+    const label = labelTransitionOutcome(followed, 1, 2, 6)!;
+
+    expect(label).toMatchObject({ outcome: false, censored: false });
+    expect(hasObservedOutcome({ ...followed, outcomeLabel: label })).toBe(true);
+  });
+
+  it('returns undefined when the patient never reached the index line', () => {
+    expect(labelTransitionOutcome(patient([firstLine], '2024-01-01'), 2, 3, 6)).toBeUndefined();
+  });
+});
+
+describe('labelTransitionOutcomes', () => {
+  it('labels from the ontology target and mirrors the outcome onto actualOutcome', () => {
+    const ontology: OntologyMapping = { diseaseName: 'Breast Cancer', icdCodes: [], cptCodes: [], drugs: [], targetLineTransition: '2L to 3L' };
+    const patients = [
+      patient([firstLine, line(2, '2023-04-01', 'C2', ['Letrozole'])], '2024-06-01'),
+      patient([firstLine], '2024-06-01'),
+    ];
+
+    const [reached, notReached] = labelTransitionOutcomes(patients, ontology, { predictionWindowMonths: 12 });
+
+    expect(reached.outcomeLabel).toMatchObject({ fromLine: 2, toLine: 3, indexDate: '2023-04-01', outcome: false, censored: false });
+    expect(reached.actualOutcome).toBe(false);
+    expect(notReached.outcomeLabel).toBeUndefined();
+    expect(notReached.actualOutcome).toBeUndefined();
+    expect(hasObservedOutcome(notReached)).toBe(false);
+  });
+});
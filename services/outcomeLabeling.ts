@@ -0,0 +1,73 @@
+import { CohortConfig, OntologyMapping, PatientProfile, TherapyLine, TransitionLabel } from "../types";
+import { addMonths, daysBetween } from "./dateUtils";
+
+// Parses targets such as "1L to 2L", "2L->3L" or "first line to second line". Defaults to 1L -> 2L.
+export const parseTargetTransition = (target: string): { fromLine: number; toLine: number } => {
+  const ordinals: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5 };
+  const text = target.toLowerCase();
+  const numbers = Array.from(text.matchAll(/(\d+)\s*(?:l\b|st|nd|rd|th|line)|\b(first|second|third|fourth|fifth)\b/g))
+    .map(m => (m[1] ? Number(m[1]) : ordinals[m[2]]));
+
+  const fromLine = numbers[0] || 1;
+  const toLine = numbers[1] && numbers[1] > fromLine ? numbers[1] : fromLine + 1;
+  return { fromLine, toLine };
+};
+
+export const findIndexLine = (patient: PatientProfile, fromLine: number): TherapyLine | undefined =>
+  patient.therapyLines.find(l => l.lineNumber === fromLine);
+
+// Label one patient: positive when a line beyond `fromLine` starts after the index date and
+// on or before the end of the prediction window. Returns undefined when the patient never reached `fromLine`.
+export const labelTransitionOutcome = (
+  patient: PatientProfile,
+  fromLine: number,
+  toLine: number,
+  predictionWindowMonths: number
+): TransitionLabel | undefined => {
+  const indexLine = findIndexLine(patient, fromLine);
+  if (!indexLine) return undefined;
+
+  const indexDate = indexLine.startDate;
+  const windowEndDate = addMonths(indexDate, predictionWindowMonths);
+  const nextLine = patient.therapyLines.find(l => l.lineNumber > fromLine && l.startDate > indexDate);
+  const transitioned = !!nextLine && nextLine.startDate <= windowEndDate;
+
+  const label: TransitionLabel = {
+    fromLine,
+    toLine,
+    indexDate,
+    indexRegimen: indexLine.regimen,
+    windowEndDate,
+    outcome: transitioned,
+    censored: !transitioned && patient.history.lastServiceDate < windowEndDate,
+    // Survival view: follow the patient to the next line or the end of their claims, ignoring the window
+    timeToEventDays: Math.max(0, daysBetween(indexDate, nextLine ? nextLine.startDate : patient.history.lastServiceDate)),
+    eventObserved: !!nextLine,
+  };
+
+  if (transitioned && nextLine) {
+    const triggerClaimId = nextLine.claimIds[0];
+    const triggerEvent = patient.history.events.find(e => e.claimId === triggerClaimId && e.type !== 'DX');
+    label.triggerClaimId = triggerClaimId;
+    label.triggerCode = triggerEvent?.code;
+    label.triggerDate = nextLine.startDate;
+    label.triggerRegimen = nextLine.regimen;
+  }
+  return label;
+};
+
+export const labelTransitionOutcomes = (
+  patients: PatientProfile[],
+  ontology: OntologyMapping,
+  config: Pick<CohortConfig, 'predictionWindowMonths'>
+): PatientProfile[] => {
+  const { fromLine, toLine } = parseTargetTransition(ontology.targetLineTransition);
+  return patients.map(p => {
+    const outcomeLabel = labelTransitionOutcome(p, fromLine, toLine, config.predictionWindowMonths);
+    return { ...p, outcomeLabel, actualOutcome: outcomeLabel?.outcome };
+  });
+};
+
+// Censored or unlabeled patients have no reliable ground truth and are left out of validation
+export const hasObservedOutcome = (patient: PatientProfile): boolean =>
+  !!patient.outcomeLabel && !patient.outcomeLabel.censored;
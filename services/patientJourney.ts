@@ -0,0 +1,64 @@
+import { ClaimEvent, PatientProfile, TherapyLine } from "../types";
+import { addMonths, daysBetween } from "./dateUtils";
+
+// One patient's claims laid out against the study windows, for the journey drill-down.
+// Windows are anchored on the index date from the outcome label (start of the source line).
+
+export type JourneyPhase = 'BEFORE_LOOKBACK' | 'LOOKBACK' | 'PREDICTION_WINDOW' | 'AFTER_WINDOW';
+
+export interface JourneyEvent extends ClaimEvent {
+  lineNumber?: number; // Therapy line this claim was assigned to
+  phase?: JourneyPhase; // Undefined when the patient has no index date
+  isTrigger: boolean; // First claim of the next line inside the prediction window
+}
+
+export interface PatientJourney {
+  events: JourneyEvent[];
+  lines: TherapyLine[];
+  startDate: string; // Timeline extent: earliest of first claim and lookback start
+  endDate: string; // Latest of last claim and window end
+  indexDate?: string;
+  lookbackStartDate?: string;
+  windowEndDate?: string;
+}
+
+const phaseOf = (date: string, lookbackStart: string, indexDate: string, windowEnd: string): JourneyPhase =>
+  date < lookbackStart ? 'BEFORE_LOOKBACK'
+    : date < indexDate ? 'LOOKBACK'
+      : date <= windowEnd ? 'PREDICTION_WINDOW'
+        : 'AFTER_WINDOW';
+
+export const buildPatientJourney = (patient: PatientProfile, lookbackMonths?: number): PatientJourney => {
+  const label = patient.outcomeLabel;
+  const lineByClaim = new Map<string, number>();
+  patient.therapyLines.forEach(line => line.claimIds.forEach(id => lineByClaim.set(id, line.lineNumber)));
+
+  const indexDate = label?.indexDate;
+  const lookbackStartDate = indexDate && lookbackMonths !== undefined ? addMonths(indexDate, -lookbackMonths) : undefined;
+  const windowEndDate = label?.windowEndDate;
+
+  const events = patient.history.events.map(e => ({
+    ...e,
+    lineNumber: lineByClaim.get(e.claimId),
+    phase: indexDate && windowEndDate ? phaseOf(e.date, lookbackStartDate ?? indexDate, indexDate, windowEndDate) : undefined,
+    isTrigger: !!label?.triggerClaimId && e.claimId === label.triggerClaimId && e.code === label.triggerCode,
+  }));
+
+  const candidatesStart = [patient.history.firstServiceDate, lookbackStartDate].filter((d): d is string => !!d);
+  const candidatesEnd = [patient.history.lastServiceDate, windowEndDate].filter((d): d is string => !!d);
+  return {
+    events,
+    lines: patient.therapyLines,
+    startDate: candidatesStart.sort()[0],
+    endDate: candidatesEnd.sort()[candidatesEnd.length - 1],
+    indexDate,
+    lookbackStartDate,
+    windowEndDate,
+  };
+};
+
+// Position of a date along the journey, 0-100
+export const toTimelinePercent = (journey: PatientJourney, date: string): number => {
+  const span = daysBetween(journey.startDate, journey.endDate);
+  return span > 0 ? Math.min(100, Math.max(0, (daysBetween(journey.startDate, date) / span) * 100)) : 0;
+};
@@ -0,0 +1,30 @@
+// Seedable pseudo-random number generator (mulberry32) so that sample data,
+// splits and model training are reproducible run to run.
+
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomInt = (rng: Rng, min: number, max: number): number =>
+  Math.floor(rng() * (max - min + 1)) + min;
+
+export const pick = <T,>(rng: Rng, items: T[]): T => items[Math.floor(rng() * items.length)];
+
+// Fisher-Yates shuffle, returns a new array
+export const shuffle = <T,>(rng: Rng, items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,128 @@
+import { PatientProfile, RiskCategory } from "../types";
+import { hasObservedOutcome } from "./outcomeLabeling";
+
+// Column model, filtering, sorting and CSV export for the patient results grid.
+// Sort and export read the same accessor, so the file matches what the grid shows.
+
+export type ResultsColumnId =
+  | 'id' | 'doctorName' | 'npiId' | 'npiSpecialty' | 'drugId' | 'age' | 'gender'
+  | 'monthsOnCurrentTherapy' | 'currentTherapyLine' | 'riskScore' | 'forecast'
+  | 'predictedNextTherapy' | 'riskCategory' | 'split' | 'actualOutcome';
+
+export interface ResultsColumn {
+  id: ResultsColumnId;
+  label: string;
+  value: (patient: PatientProfile) => string | number | undefined;
+  numeric?: boolean;
+}
+
+const RISK_ORDER: Record<RiskCategory, number> = { Low: 0, Medium: 1, High: 2 };
+
+export const RESULTS_COLUMNS: ResultsColumn[] = [
+  { id: 'id', label: 'Patient ID', value: p => p.id },
+  { id: 'doctorName', label: 'Provider', value: p => p.doctorName },
+  { id: 'npiId', label: 'NPI', value: p => p.npiId },
+  { id: 'npiSpecialty', label: 'Specialty', value: p => p.npiSpecialty },
+  { id: 'drugId', label: 'Drug', value: p => p.drugId },
+  { id: 'age', label: 'Age', value: p => p.age, numeric: true },
+  { id: 'gender', label: 'Gender', value: p => p.gender },
+  { id: 'monthsOnCurrentTherapy', label: 'Months on Tx', value: p => p.monthsOnCurrentTherapy, numeric: true },
+  { id: 'currentTherapyLine', label: 'Line', value: p => p.currentTherapyLine, numeric: true },
+  { id: 'riskScore', label: 'Transition Prob.', value: p => p.riskScore, numeric: true },
+  {
+    id: 'forecast',
+    label: 'Forecast by Horizon',
+    value: p => p.transitionForecast?.map(f => `${f.horizonMonths}m ${Math.round(f.probability * 100)}%`).join(' / '),
+  },
+  { id: 'predictedNextTherapy', label: 'Likely Next Therapy', value: p => p.predictedNextTherapy },
+  { id: 'riskCategory', label: 'Status', value: p => p.riskCategory },
+  { id: 'split', label: 'Split', value: p => p.split },
+  {
+    id: 'actualOutcome',
+    label: 'Actual Outcome',
+    value: p => (!p.outcomeLabel ? undefined : !hasObservedOutcome(p) ? 'Censored' : p.actualOutcome ? 'Transitioned' : 'Stayed'),
+  },
+];
+
+export const DEFAULT_VISIBLE_COLUMNS: ResultsColumnId[] = [
+  'id', 'doctorName', 'npiId', 'drugId', 'age', 'gender', 'monthsOnCurrentTherapy', 'currentTherapyLine', 'riskScore', 'riskCategory',
+];
+
+export interface ResultsFilters {
+  search: string; // Matches patient ID, provider, NPI, specialty or drug
+  riskCategories: RiskCategory[]; // Empty = all
+  splits: ('TRAIN' | 'TEST')[]; // Empty = all
+  drugId: string; // '' = all
+  npiSpecialty: string;
+  npiId: string; // Substring match
+  minScore: number;
+  maxScore: number;
+}
+
+export const EMPTY_RESULTS_FILTERS: ResultsFilters = {
+  search: '',
+  riskCategories: [],
+  splits: [],
+  drugId: '',
+  npiSpecialty: '',
+  npiId: '',
+  minScore: 0,
+  maxScore: 1,
+};
+
+export const filterResults = (patients: PatientProfile[], filters: ResultsFilters): PatientProfile[] => {
+  const search = filters.search.trim().toLowerCase();
+  const npi = filters.npiId.trim();
+  return patients.filter(p => {
+    const score = p.riskScore ?? 0;
+    if (score < filters.minScore || score > filters.maxScore) return false;
+    if (filters.riskCategories.length > 0 && (!p.riskCategory || !filters.riskCategories.includes(p.riskCategory))) return false;
+    if (filters.splits.length > 0 && (!p.split || !filters.splits.includes(p.split))) return false;
+    if (filters.drugId && p.drugId !== filters.drugId) return false;
+    if (filters.npiSpecialty && p.npiSpecialty !== filters.npiSpecialty) return false;
+    if (npi && !p.npiId.includes(npi)) return false;
+    if (search) {
+      const haystack = [p.id, p.doctorName, p.npiId, p.npiSpecialty, p.drugId].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+};
+
+// Missing values always sort last
+export const sortResults = (
+  patients: PatientProfile[],
+  columnId: ResultsColumnId,
+  direction: 'asc' | 'desc'
+): PatientProfile[] => {
+  const column = RESULTS_COLUMNS.find(c => c.id === columnId)!;
+  const sign = direction === 'asc' ? 1 : -1;
+  const key = (p: PatientProfile) =>
+    columnId === 'riskCategory' && p.riskCategory ? RISK_ORDER[p.riskCategory] : column.value(p);
+  return [...patients].sort((a, b) => {
+    const va = key(a);
+    const vb = key(b);
+    if (va === undefined || va === '') return vb === undefined || vb === '' ? 0 : 1;
+    if (vb === undefined || vb === '') return -1;
+    return (typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb))) * sign;
+  });
+};
+
+// Text from uploaded claims that starts like a formula is prefixed with ' so spreadsheets show it
+// as text instead of evaluating it. Numbers are ours and stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toResultsCsv = (patients: PatientProfile[], columnIds: ResultsColumnId[]): string => {
+  const columns = columnIds.map(id => RESULTS_COLUMNS.find(c => c.id === id)!);
+  return [
+    columns.map(c => escapeCsv(c.label)).join(','),
+    ...patients.map(p => columns.map(c => escapeCsv(c.value(p))).join(',')),
+  ].join('\n');
+};
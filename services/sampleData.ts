@@ -0,0 +1,154 @@
+import { ClaimRecord } from "../types";
+import { addDays, addMonths, DAYS_PER_MONTH } from "./dateUtils";
+import { createRng, pick, randomInt, Rng } from "./random";
+
+// Synthetic breast cancer claims used by "Load Sample Dataset". The generator emits claim rows
+// (not profiles) so the sample goes through exactly the same ingestion path as an uploaded CSV.
+
+const DATA_START = "2021-01-01";
+const DATA_END = "2024-12-31";
+
+const DOCTORS = [
+  { name: "Dr. Sarah Chen", npi: "1457890123", specialty: "Oncology", hazard: 1.0 },
+  { name: "Dr. Michael Ross", npi: "1890234567", specialty: "Oncology", hazard: 1.3 },
+  { name: "Dr. Emily Wei", npi: "1678901234", specialty: "Hematology/Oncology", hazard: 0.8 },
+  { name: "Dr. James Wilson", npi: "1234567890", specialty: "Internal Medicine", hazard: 1.5 },
+  { name: "Dr. Lisa Patel", npi: "1567890123", specialty: "Oncology", hazard: 0.9 },
+];
+
+const PRIMARY_DX = ["C50.911", "C50.912", "C50.411", "C50.811"];
+
+// Next-line regimens depend on the previous line, as in clinical practice
+const NEXT_LINE_OPTIONS: Record<string, { drugs: string[]; weight: number }[]> = {
+  Tamoxifen: [
+    { drugs: ["Letrozole"], weight: 0.5 },
+    { drugs: ["Fulvestrant"], weight: 0.3 },
+    { drugs: ["Capecitabine"], weight: 0.2 },
+  ],
+  AI: [
+    { drugs: ["Fulvestrant"], weight: 0.45 },
+    { drugs: ["Everolimus", "Exemestane"], weight: 0.3 },
+    { drugs: ["Capecitabine"], weight: 0.25 },
+  ],
+  LATER: [
+    { drugs: ["Capecitabine"], weight: 0.6 },
+    { drugs: ["Everolimus", "Exemestane"], weight: 0.4 },
+  ],
+};
+
+const weightedPick = <T extends { weight: number }>(rng: Rng, options: T[]): T => {
+  let r = rng() * options.reduce((acc, o) => acc + o.weight, 0);
+  for (const option of options) {
+    r -= option.weight;
+    if (r <= 0) return option;
+  }
+  return options[options.length - 1];
+};
+
+// Exponential time-to-event in months for a monthly hazard
+const sampleMonths = (rng: Rng, monthlyHazard: number) => -Math.log(1 - rng()) / monthlyHazard;
+
+export const generateSampleClaims = (patientCount = 200, seed = 42): ClaimRecord[] => {
+  const rng = createRng(seed);
+  const records: ClaimRecord[] = [];
+  let claimSeq = 1;
+
+  for (let i = 0; i < patientCount; i++) {
+    const patientId = `P-${1000 + i}`;
+    const doc = pick(rng, DOCTORS);
+    const birthYear = randomInt(rng, 1938, 1985);
+    const gender = rng() > 0.04 ? 'F' : 'M';
+    // A small share of in-situ patients, which an invasive C50 cohort definition should exclude
+    const primaryDx = rng() > 0.08 ? pick(rng, PRIMARY_DX) : 'D05.10';
+    const comorbidities = [
+      rng() < 0.2 ? 'E11.9' : null, // Type 2 diabetes
+      rng() < 0.35 ? 'I10' : null, // Hypertension
+      rng() < 0.08 ? 'N18.3' : null, // CKD stage 3
+    ].filter((c): c is string => c !== null);
+
+    const claim = (serviceDate: string, fields: Partial<ClaimRecord>) => {
+      if (serviceDate > DATA_END) return;
+      records.push({
+        claimId: `C${claimSeq++}`,
+        patientId,
+        serviceDate,
+        birthYear,
+        gender,
+        npiId: doc.npi,
+        doctorName: doc.name,
+        npiSpecialty: doc.specialty,
+        ...fields,
+      });
+    };
+
+    // Background history (routine visits) before the cancer diagnosis
+    const diagnosisDate = addDays("2022-01-01", randomInt(rng, 0, 730));
+    const historyStart = addMonths(diagnosisDate, -randomInt(rng, 2, 30));
+    for (let d = historyStart < DATA_START ? DATA_START : historyStart; d < diagnosisDate; d = addDays(d, randomInt(rng, 45, 120))) {
+      claim(d, { diagnosisCode: comorbidities.length > 0 ? pick(rng, comorbidities) : 'Z00.00' });
+    }
+
+    // Diagnostic work-up
+    claim(addDays(diagnosisDate, -14), { diagnosisCode: 'R92.8', procedureCode: '77067' });
+    claim(diagnosisDate, { diagnosisCode: primaryDx, procedureCode: '19083' });
+    claim(addDays(diagnosisDate, 10), { diagnosisCode: primaryDx, procedureCode: '88305' });
+
+    // Lines of therapy
+    const age = 2023 - birthYear;
+    let hazard = 0.035 * doc.hazard;
+    if (age > 70) hazard *= 1.4;
+    if (comorbidities.includes('E11.9')) hazard *= 1.3;
+    if (comorbidities.includes('N18.3')) hazard *= 1.5;
+
+    const firstLineAgent = weightedPick(rng, [
+      { drug: 'Tamoxifen', weight: 0.45 },
+      { drug: 'Letrozole', weight: 0.4 },
+      { drug: 'Anastrozole', weight: 0.15 },
+    ]).drug;
+    let regimen = [firstLineAgent];
+    if (firstLineAgent !== 'Tamoxifen' && rng() < 0.25) {
+      regimen.push('Palbociclib'); // CDK4/6 combination lowers progression risk
+      hazard *= 0.6;
+    }
+    if (firstLineAgent === 'Tamoxifen') hazard *= 1.5;
+
+    let lineStart = addDays(diagnosisDate, randomInt(rng, 20, 50));
+    const lostToFollowUp = rng() < 0.1 ? addMonths(lineStart, rng() * 24) : DATA_END;
+
+    for (let line = 1; line <= 3; line++) {
+      const monthsToNext = sampleMonths(rng, hazard);
+      // Some patients simply stop treatment without moving on
+      const discontinuesAt = rng() < 0.08 ? rng() * monthsToNext : Infinity;
+      const lineEnd = addMonths(lineStart, Math.min(monthsToNext, discontinuesAt));
+
+      regimen.forEach((drug, idx) => {
+        // Combination partners start a few days apart
+        let fill = addDays(lineStart, idx * randomInt(rng, 0, 10));
+        while (fill < lineEnd && fill <= lostToFollowUp) {
+          const isInjection = drug === 'Fulvestrant';
+          claim(fill, {
+            diagnosisCode: primaryDx,
+            drugCode: drug,
+            procedureCode: isInjection ? '96402' : undefined,
+          });
+          fill = addDays(fill, isInjection ? 28 : randomInt(rng, 26, 34));
+        }
+      });
+
+      // Quarterly oncology follow-up visits while on therapy
+      for (let d = addDays(lineStart, 90); d < lineEnd && d <= lostToFollowUp; d = addDays(d, 90)) {
+        claim(d, { diagnosisCode: primaryDx, procedureCode: '99214' });
+      }
+
+      if (discontinuesAt !== Infinity || lineEnd > lostToFollowUp || lineEnd > DATA_END) break;
+
+      const key = line === 1 ? (firstLineAgent === 'Tamoxifen' ? 'Tamoxifen' : 'AI') : 'LATER';
+      const nextOptions = NEXT_LINE_OPTIONS[key].filter(o => !o.drugs.some(d => regimen.includes(d)));
+      regimen = weightedPick(rng, nextOptions.length > 0 ? nextOptions : NEXT_LINE_OPTIONS.LATER).drugs;
+      lineStart = addDays(lineEnd, randomInt(rng, 3, Math.round(DAYS_PER_MONTH)));
+      hazard *= 1.2;
+    }
+  }
+
+  return records;
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { CohortConfig, OntologyMapping, PatientProfile } from "../types";
+import { DEFAULT_BOOSTING_PARAMS } from "./gradientBoosting";
+import { runRiskModel } from "./modelPipeline";
+import { hasObservedOutcome } from "./outcomeLabeling";
+import { applySmote, countSyntheticRows } from "./smote";
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('countSyntheticRows', () => {
+  it('tops the minority up to the target ratio of the majority', () => {
+    expect(countSyntheticRows(5, 20, 1)).toBe(15);
+    expect(countSyntheticRows(5, 20, 0.5)).toBe(5);
+    expect(countSyntheticRows(12, 20, 0.5)).toBe(0);
+  });
+
+  it('needs two minority rows to interpolate between', () => {
+    expect(countSyntheticRows(1, 20, 1)).toBe(0);
+  });
+});
+
+describe('applySmote', () => {
+  // Two columns: a numeric one and a one-hot flag
+  const X = [...range(0, 19).map(i => [i, i % 2]), [30, 1], [31, 0], [33, 1], [34, 1], [36, 0]];
+  const y = [...range(0, 19).map(() => 0), 1, 1, 1, 1, 1];
+
+  it('adds minority rows until the requested ratio is reached and keeps the originals first', () => {
+    for (const targetRatio of [1, 0.6]) {
+      const result = applySmote(X, y, { variant: 'SMOTE', kNeighbors: 3, targetRatio }, 7);
+      const minority = result.y.filter(v => v === 1).length;
+
+      expect(result.syntheticCount).toBe(Math.round(20 * targetRatio) - 5);
+      expect(minority / result.y.filter(v => v === 0).length).toBeCloseTo(targetRatio, 10);
+      expect(result.X.slice(0, X.length)).toEqual(X);
+      expect(result.y.slice(0, y.length)).toEqual(y);
+    }
+  });
+
+  it('interpolates numeric columns between minority rows and copies binary columns', () => {
+    const result = applySmote(X, y, { variant: 'SMOTE', kNeighbors: 3, targetRatio: 1 }, 7);
+
+    result.X.slice(X.length).forEach(([value, flag]) => {
+      expect(value).toBeGreaterThanOrEqual(30);
+      expect(value).toBeLessThanOrEqual(36);
+      expect([0, 1]).toContain(flag);
+    });
+  });
+
+  it('treats the rarer label as the minority, whichever it is', () => {
+    const result = applySmote(X, y.map(v => 1 - v), { variant: 'SMOTE', kNeighbors: 3, targetRatio: 1 }, 7);
+
+    expect(result.y.slice(X.length).every(v => v === 0)).toBe(true);
+  });
+
+  it('is reproducible for a seed', () => {
+    const params = { variant: 'SMOTE' as const, kNeighbors: 3, targetRatio: 1 };
+    expect(applySmote(X, y, params, 7)).toEqual(applySmote(X, y, params, 7));
+  });
+
+  it('only oversamples from DANGER minority rows with Borderline-SMOTE', () => {
+    // Minority at 47/48 and 52/53 sit between majority rows (one of their 2 neighbours is majority: DANGER);
+    // 100-102 only neighbour each other (SAFE)
+    const points = [
+      ...range(0, 19).map(x => [x, 0]),
+      [46, 0], [49, 0], [50, 0], [51, 0], [54, 0],
+      [47, 1], [48, 1], [52, 1], [53, 1],
+      [100, 1], [101, 1], [102, 1],
+    ];
+    const borderX = points.map(([x]) => [x]);
+    const borderY = points.map(([, label]) => label);
+
+    const borderline = applySmote(borderX, borderY, { variant: 'BORDERLINE', kNeighbors: 2, targetRatio: 1 }, 7);
+    expect(borderline.syntheticCount).toBe(18);
+    borderline.X.slice(borderX.length).forEach(([x]) => {
+      expect(x).toBeGreaterThanOrEqual(47);
+      expect(x).toBeLessThanOrEqual(53);
+    });
+
+    // Plain SMOTE seeds from every minority row, SAFE ones included
+    const plain = applySmote(borderX, borderY, { variant: 'SMOTE', kNeighbors: 2, targetRatio: 1 }, 7);
+    expect(plain.X.slice(borderX.length).some(([x]) => x >= 100)).toBe(true);
+  });
+});
+
+describe('SMOTE in the model pipeline', () => {
+  const ontology: OntologyMapping = { diseaseName: 'Breast Cancer', icdCodes: [], cptCodes: [], drugs: ['Tamoxifen'], targetLineTransition: '1L to 2L' };
+
+  const patients = range(1, 40).map((n): PatientProfile => {
+    const transitioned = n % 5 === 0;
+    return {
+      id: `P${n}`,
+      age: 40 + n,
+      gender: n % 2 ? 'F' : 'M',
+      diagnosisCode: 'C50.911',
+      currentTherapyLine: 1,
+      monthsOnCurrentTherapy: 6,
+      lastVisitDate: '2024-01-01',
+      npiSpecialty: 'Oncology',
+      drugId: 'Tamoxifen',
+      doctorName: 'Dr. Smith',
+      npiId: '1234567890',
+      actualOutcome: transitioned,
+      outcomeLabel: {
+        fromLine: 1,
+        toLine: 2,
+        indexDate: '2023-01-01',
+        indexRegimen: ['Tamoxifen'],
+        windowEndDate: '2023-07-03',
+        outcome: transitioned,
+        censored: false,
+        timeToEventDays: transitioned ? 90 : 365,
+        eventObserved: transitioned,
+      },
+      history: {
+        patientId: `P${n}`,
+        events: [{ claimId: `C${n}`, date: '2023-01-01', type: 'RX', code: 'Tamoxifen' }],
+        claimCount: 1,
+        firstServiceDate: '2022-01-01',
+        lastServiceDate: '2024-01-01',
+      },
+      therapyLines: [],
+    };
+  });
+
+  const config: CohortConfig = {
+    lookbackMonths: 12,
+    predictionWindowMonths: 6,
+    minClaimsCount: 1,
+    modelType: 'XGBOOST',
+    imbalanceStrategy: 'SMOTE',
+    trainTestSplit: 0.25,
+    split: { strategy: 'RANDOM', seed: 42, folds: 5 },
+    boostingParams: { ...DEFAULT_BOOSTING_PARAMS, nEstimators: 5 },
+    smoteParams: { variant: 'SMOTE', kNeighbors: 3, targetRatio: 1 },
+    calibration: { method: 'NONE', holdoutFraction: 0.2 },
+  };
+
+  it('resamples the TRAIN split only and never adds patients', async () => {
+    const { patients: scored, summary } = await runRiskModel(patients, ontology, config);
+    const train = scored.filter(p => p.split === 'TRAIN' && hasObservedOutcome(p));
+    const trainPositives = train.filter(p => p.actualOutcome).length;
+
+    expect(scored.map(p => p.id)).toEqual(patients.map(p => p.id));
+    expect(summary.trainCount).toBe(train.length);
+    expect(summary.testCount).toBe(10);
+    expect(summary.syntheticCount).toBe(countSyntheticRows(trainPositives, train.length - trainPositives, 1));
+    expect(summary.syntheticCount).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { SmoteParams } from "../types";
+import { createRng, pick } from "./random";
+
+// SMOTE / Borderline-SMOTE over an engineered feature matrix. Only ever call this with
+// training rows: synthetic rows are interpolated from real minority rows and must not reach the test split.
+
+export const DEFAULT_SMOTE_PARAMS: SmoteParams = {
+  variant: 'SMOTE',
+  kNeighbors: 5,
+  targetRatio: 1,
+};
+
+export interface SmoteResult {
+  X: number[][];
+  y: number[];
+  syntheticCount: number;
+}
+
+// Number of synthetic minority rows needed to reach `targetRatio` minority / majority
+export const countSyntheticRows = (minorityCount: number, majorityCount: number, targetRatio: number): number => {
+  if (minorityCount < 2) return 0;
+  return Math.max(0, Math.round(majorityCount * targetRatio) - minorityCount);
+};
+
+// Min-max scale every column so distances are not dominated by wide numeric features (e.g. days of history)
+const scaleColumns = (X: number[][]): number[][] => {
+  const width = X[0]?.length || 0;
+  const min = new Array(width).fill(Infinity);
+  const max = new Array(width).fill(-Infinity);
+  X.forEach(row => row.forEach((v, j) => { min[j] = Math.min(min[j], v); max[j] = Math.max(max[j], v); }));
+  return X.map(row => row.map((v, j) => (max[j] > min[j] ? (v - min[j]) / (max[j] - min[j]) : 0)));
+};
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((acc, v, j) => acc + (v - b[j]) ** 2, 0);
+
+const nearestNeighbors = (scaled: number[][], from: number, candidates: number[], k: number): number[] =>
+  candidates
+    .filter(i => i !== from)
+    .map(i => ({ i, d: squaredDistance(scaled[from], scaled[i]) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, k)
+    .map(n => n.i);
+
+export const applySmote = (X: number[][], y: number[], params: SmoteParams, seed: number): SmoteResult => {
+  const positives = y.filter(v => v === 1).length;
+  const minorityLabel = positives <= y.length - positives ? 1 : 0;
+  const minority = y.map((v, i) => i).filter(i => y[i] === minorityLabel);
+  const majorityCount = y.length - minority.length;
+
+  const needed = countSyntheticRows(minority.length, majorityCount, params.targetRatio);
+  if (needed === 0) return { X, y, syntheticCount: 0 };
+
+  const scaled = scaleColumns(X);
+  const k = Math.max(1, Math.min(params.kNeighbors, minority.length - 1));
+
+  // 1. Choose seed rows. Borderline-SMOTE keeps only "danger" rows: at least half, but not all,
+  // of their k nearest neighbours (over the whole training set) belong to the majority class.
+  let seeds = minority;
+  if (params.variant === 'BORDERLINE') {
+    const everyone = y.map((v, i) => i);
+    const danger = minority.filter(i => {
+      const majorityNeighbors = nearestNeighbors(scaled, i, everyone, k).filter(n => y[n] !== minorityLabel).length;
+      return majorityNeighbors >= k / 2 && majorityNeighbors < k;
+    });
+    if (danger.length > 0) seeds = danger;
+  }
+
+  // 2. Binary (one-hot) columns are copied from the nearer parent instead of interpolated
+  const binaryColumns = (X[0] || []).map((_, j) => X.every(row => row[j] === 0 || row[j] === 1));
+
+  // 3. Interpolate between a seed row and one of its k nearest minority neighbours
+  const rng = createRng(seed);
+  const neighborCache = new Map<number, number[]>();
+  const syntheticX: number[][] = [];
+  for (let s = 0; s < needed; s++) {
+    const base = seeds[s % seeds.length];
+    if (!neighborCache.has(base)) neighborCache.set(base, nearestNeighbors(scaled, base, minority, k));
+    const neighbor = pick(rng, neighborCache.get(base)!);
+    const gap = rng();
+    syntheticX.push(X[base].map((v, j) =>
+      binaryColumns[j] ? (gap < 0.5 ? v : X[neighbor][j]) : v + gap * (X[neighbor][j] - v)
+    ));
+  }
+
+  return {
+    X: [...X, ...syntheticX],
+    y: [...y, ...syntheticX.map(() => minorityLabel)],
+    syntheticCount: syntheticX.length,
+  };
+};
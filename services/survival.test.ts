@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { FeatureDefinition } from "../types";
+import { concordanceIndex, fitCoxModel, kaplanMeier, linearPredictor, transitionProbability } from "./survival";
+import { DAYS_PER_MONTH } from "./dateUtils";
+
+const feature = (name: string): FeatureDefinition => ({ name, label: name, type: 'NUMERIC', source: 'DEMOGRAPHICS' });
+
+const observations = (times: number[], events: boolean[]) => times.map((time, i) => ({ time, event: events[i] }));
+
+describe('kaplanMeier', () => {
+  it('steps down at event times, keeps censored patients at risk through their time and carries the tail', () => {
+    const curve = kaplanMeier('All', observations([10, 20, 20, 30, 40], [true, true, false, true, false]));
+
+    expect(curve).toMatchObject({ group: 'All', patients: 5, events: 3 });
+    expect(curve.points.map(p => p.atRisk)).toEqual([5, 5, 4, 2, 1]);
+    [1, 0.8, 0.6, 0.3, 0.3].forEach((survival, i) => expect(curve.points[i].survival).toBeCloseTo(survival, 12));
+    expect(curve.medianMonths).toBeCloseTo(30 / DAYS_PER_MONTH, 10);
+  });
+});
+
+describe('fitCoxModel', () => {
+  it('refuses to fit without any observed transition', () => {
+    expect(() => fitCoxModel([[1], [2]], observations([10, 20], [false, false]), [feature('x')])).toThrow(/no transitions/);
+  });
+
+  it('reduces the Breslow baseline to Nelson-Aalen when no feature varies', () => {
+    // Risk sets at 10, 20 and 30 days hold 4, 3 and 1 patients; the censored tie at 20 is still at risk
+    const model = fitCoxModel([[1], [1], [1], [1]], observations([10, 20, 20, 30], [true, true, false, true]), [feature('constant')]);
+
+    expect(model.columns).toEqual([]);
+    expect(model.baselineHazard.map(h => h.time)).toEqual([10, 20, 30]);
+    expect(model.baselineHazard[0].cumulativeHazard).toBeCloseTo(1 / 4, 12);
+    expect(model.baselineHazard[1].cumulativeHazard).toBeCloseTo(1 / 4 + 1 / 3, 12);
+    expect(model.baselineHazard[2].cumulativeHazard).toBeCloseTo(1 / 4 + 1 / 3 + 1, 12);
+    expect(transitionProbability(model, [1], 20 / DAYS_PER_MONTH)).toBeCloseTo(1 - Math.exp(-(1 / 4 + 1 / 3)), 12);
+  });
+
+  describe('with a covariate', () => {
+    // Patients with x = 1 transition early, x = 0 late or never
+    const rows = [[1], [1], [1], [0], [1], [0], [0], [0]];
+    const obs = observations([30, 60, 90, 120, 150, 200, 250, 300], [true, true, true, true, false, true, false, false]);
+    const model = fitCoxModel(rows, obs, [feature('x')]);
+
+    it('estimates a higher hazard for the early-transition group', () => {
+      expect(model.beta[0]).toBeGreaterThan(0);
+      expect(linearPredictor(model, [1])).toBeGreaterThan(linearPredictor(model, [0]));
+    });
+
+    it('weights each risk set by the fitted relative hazards', () => {
+      const riskSum = (t: number) => rows.reduce((acc, r, i) => acc + (obs[i].time >= t ? Math.exp(linearPredictor(model, r)) : 0), 0);
+
+      expect(model.baselineHazard[0].cumulativeHazard).toBeCloseTo(1 / riskSum(30), 12);
+      expect(model.baselineHazard[1].cumulativeHazard).toBeCloseTo(1 / riskSum(30) + 1 / riskSum(60), 12);
+    });
+
+    it('gives transition probabilities that grow with the horizon and the hazard', () => {
+      const byHorizon = [1, 3, 6, 12].map(months => transitionProbability(model, [1], months));
+      byHorizon.slice(1).forEach((p, i) => expect(p).toBeGreaterThanOrEqual(byHorizon[i]));
+      expect(transitionProbability(model, [1], 6)).toBeGreaterThan(transitionProbability(model, [0], 6));
+      expect(transitionProbability(model, [1], 0.5)).toBe(0); // Before the first event
+    });
+
+    it('ranks the fitted risks concordantly with the observed order', () => {
+      expect(concordanceIndex(rows.map(r => linearPredictor(model, r)), obs)).toBeGreaterThan(0.5);
+    });
+  });
+});
+
+describe('concordanceIndex', () => {
+  it('counts pairs where the earlier transition had the higher risk, ties as half', () => {
+    const obs = observations([10, 20, 30], [true, true, false]);
+
+    expect(concordanceIndex([3, 2, 1], obs)).toBe(1);
+    expect(concordanceIndex([1, 2, 3], obs)).toBe(0);
+    expect(concordanceIndex([1, 1, 1], obs)).toBe(0.5);
+  });
+});
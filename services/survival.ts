@@ -0,0 +1,291 @@
+import { FeatureDefinition, HazardRatio, PatientProfile } from "../types";
+import { DAYS_PER_MONTH } from "./dateUtils";
+
+// Time-to-transition analysis. Every labeled patient contributes the time from the index date to the
+// next line (an event) or to their last claim (censored), so patients followed for less than the
+// prediction window still inform the estimate instead of being dropped.
+
+export const SURVIVAL_HORIZONS_MONTHS = [3, 6, 12];
+
+interface SurvivalObservation {
+  time: number; // Days
+  event: boolean;
+}
+
+export const toSurvivalObservation = (patient: PatientProfile): SurvivalObservation | undefined =>
+  patient.outcomeLabel
+    ? { time: patient.outcomeLabel.timeToEventDays, event: patient.outcomeLabel.eventObserved }
+    : undefined;
+
+// --- Kaplan-Meier ---
+
+export interface KaplanMeierPoint {
+  months: number;
+  survival: number; // Share still on the index line
+  atRisk: number;
+}
+
+export interface KaplanMeierCurve {
+  group: string;
+  patients: number;
+  events: number;
+  medianMonths?: number; // First time survival drops to 0.5, when it does
+  points: KaplanMeierPoint[];
+}
+
+export type SurvivalSubgroup = 'ALL' | 'DRUG' | 'LINE' | 'SPECIALTY';
+
+export const kaplanMeier = (group: string, observations: SurvivalObservation[]): KaplanMeierCurve => {
+  const times = Array.from(new Set(observations.filter(o => o.event).map(o => o.time))).sort((a, b) => a - b);
+  const points: KaplanMeierPoint[] = [{ months: 0, survival: 1, atRisk: observations.length }];
+  let survival = 1;
+  let medianMonths: number | undefined;
+
+  times.forEach(t => {
+    // Censored at t still counts as at risk at t (the usual convention)
+    const atRisk = observations.filter(o => o.time >= t).length;
+    const events = observations.filter(o => o.event && o.time === t).length;
+    survival *= 1 - events / atRisk;
+    points.push({ months: t / DAYS_PER_MONTH, survival, atRisk });
+    if (medianMonths === undefined && survival <= 0.5) medianMonths = t / DAYS_PER_MONTH;
+  });
+
+  // Carry the curve out to the last follow-up so censored tails stay visible
+  const lastTime = Math.max(0, ...observations.map(o => o.time));
+  if (lastTime > (times[times.length - 1] ?? 0)) {
+    points.push({ months: lastTime / DAYS_PER_MONTH, survival, atRisk: observations.filter(o => o.time >= lastTime).length });
+  }
+
+  return { group, patients: observations.length, events: observations.filter(o => o.event).length, medianMonths, points };
+};
+
+const subgroupKey = (patient: PatientProfile, subgroup: SurvivalSubgroup): string => {
+  switch (subgroup) {
+    case 'ALL': return 'All patients';
+    case 'DRUG': return patient.outcomeLabel!.indexRegimen.join(' + ') || 'Unknown';
+    case 'LINE': return `Line ${patient.outcomeLabel!.fromLine}`;
+    case 'SPECIALTY': return patient.npiSpecialty || 'Unknown';
+  }
+};
+
+// One curve per subgroup, largest groups first; small groups are pooled into "Other"
+export const kaplanMeierBySubgroup = (
+  patients: PatientProfile[],
+  subgroup: SurvivalSubgroup,
+  maxGroups = 5
+): KaplanMeierCurve[] => {
+  const groups = new Map<string, SurvivalObservation[]>();
+  patients.forEach(p => {
+    const observation = toSurvivalObservation(p);
+    if (!observation) return;
+    const key = subgroupKey(p, subgroup);
+    groups.set(key, [...(groups.get(key) || []), observation]);
+  });
+
+  const sorted = Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+  const kept = sorted.slice(0, maxGroups);
+  const other = sorted.slice(maxGroups).flatMap(([, observations]) => observations);
+  return [
+    ...kept.map(([group, observations]) => kaplanMeier(group, observations)),
+    ...(other.length > 0 ? [kaplanMeier('Other', other)] : []),
+  ];
+};
+
+// --- Cox proportional hazards ---
+
+export interface CoxModel {
+  features: FeatureDefinition[];
+  columns: number[]; // Feature matrix columns used (constant columns are dropped)
+  means: number[];
+  scales: number[];
+  beta: number[]; // Per standardised unit
+  standardErrors: number[];
+  baselineHazard: { time: number; cumulativeHazard: number }[]; // Breslow, for the average patient
+}
+
+const RIDGE_PENALTY = 1; // Small L2 penalty keeps one-hot families and rare flags from diverging
+const MAX_ITERATIONS = 30;
+
+// Solve A x = b by Gauss-Jordan elimination with partial pivoting (A is small and symmetric)
+const solve = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const div = m[col][col] || 1e-12;
+    for (let c = col; c <= n; c++) m[col][c] /= div;
+    for (let r = 0; r < n; r++) {
+      if (r === col || m[r][col] === 0) continue;
+      const factor = m[r][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map(row => row[n]);
+};
+
+const invertDiagonal = (A: number[][]): number[] =>
+  A.map((_, j) => solve(A, A.map((__, i) => (i === j ? 1 : 0)))[j]);
+
+// Breslow partial log-likelihood with its gradient and (positive definite) information matrix
+const partialLikelihood = (Z: number[][], obs: SurvivalObservation[], order: number[], beta: number[]) => {
+  const p = beta.length;
+  const eta = Z.map(z => z.reduce((acc, v, j) => acc + v * beta[j], 0));
+  let logLik = -0.5 * RIDGE_PENALTY * beta.reduce((acc, b) => acc + b * b, 0);
+  const gradient = beta.map(b => -RIDGE_PENALTY * b);
+  const information = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (__, j) => (i === j ? RIDGE_PENALTY : 0)));
+
+  let s0 = 0;
+  const s1 = new Array(p).fill(0);
+  const s2 = Array.from({ length: p }, () => new Array(p).fill(0));
+
+  // Walk from the longest time down so the risk set only grows; tied times join together
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end < order.length && obs[order[end]].time === obs[order[start]].time) end++;
+    const tied = order.slice(start, end);
+    tied.forEach(i => {
+      const w = Math.exp(eta[i]);
+      s0 += w;
+      for (let a = 0; a < p; a++) {
+        s1[a] += w * Z[i][a];
+        for (let b = 0; b <= a; b++) s2[a][b] += w * Z[i][a] * Z[i][b];
+      }
+    });
+    tied.filter(i => obs[i].event).forEach(i => {
+      logLik += eta[i] - Math.log(s0);
+      for (let a = 0; a < p; a++) {
+        gradient[a] += Z[i][a] - s1[a] / s0;
+        for (let b = 0; b <= a; b++) {
+          const v = s2[a][b] / s0 - (s1[a] / s0) * (s1[b] / s0);
+          information[a][b] += v;
+          if (a !== b) information[b][a] += v;
+        }
+      }
+    });
+    start = end;
+  }
+  return { logLik, gradient, information, eta };
+};
+
+export const fitCoxModel = (
+  rows: number[][],
+  observations: SurvivalObservation[],
+  features: FeatureDefinition[]
+): CoxModel => {
+  if (!observations.some(o => o.event)) {
+    throw new Error("Cannot fit a Cox model: no transitions were observed in the training split.");
+  }
+
+  // Standardise each column; constant columns carry no information
+  const columns: number[] = [];
+  const means: number[] = [];
+  const scales: number[] = [];
+  features.forEach((_, j) => {
+    const values = rows.map(r => r[j]);
+    const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+    if (sd > 0) {
+      columns.push(j);
+      means.push(mean);
+      scales.push(sd);
+    }
+  });
+  const Z = rows.map(r => columns.map((j, k) => (r[j] - means[k]) / scales[k]));
+  const order = observations.map((_, i) => i).sort((a, b) => observations[b].time - observations[a].time);
+
+  // Newton-Raphson with step halving
+  let beta = new Array(columns.length).fill(0);
+  let current = partialLikelihood(Z, observations, order, beta);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const step = solve(current.information, current.gradient);
+    let scale = 1;
+    let next = partialLikelihood(Z, observations, order, beta.map((b, j) => b + step[j]));
+    while (next.logLik < current.logLik && scale > 1e-4) {
+      scale /= 2;
+      next = partialLikelihood(Z, observations, order, beta.map((b, j) => b + scale * step[j]));
+    }
+    const improvement = next.logLik - current.logLik;
+    if (improvement < 0) break;
+    beta = beta.map((b, j) => b + scale * step[j]);
+    current = next;
+    if (improvement < 1e-8) break;
+  }
+
+  // Breslow baseline: at each event time, events / sum of exp(eta) over the risk set
+  const eventTimes = Array.from(new Set(observations.filter(o => o.event).map(o => o.time))).sort((a, b) => a - b);
+  let cumulativeHazard = 0;
+  const baselineHazard = eventTimes.map(t => {
+    const riskSum = observations.reduce((acc, o, i) => acc + (o.time >= t ? Math.exp(current.eta[i]) : 0), 0);
+    const events = observations.filter(o => o.event && o.time === t).length;
+    cumulativeHazard += events / riskSum;
+    return { time: t, cumulativeHazard };
+  });
+
+  return {
+    features,
+    columns,
+    means,
+    scales,
+    beta,
+    standardErrors: invertDiagonal(current.information).map(v => Math.sqrt(Math.max(v, 0))),
+    baselineHazard,
+  };
+};
+
+export const linearPredictor = (model: CoxModel, x: number[]): number =>
+  model.columns.reduce((acc, j, k) => acc + model.beta[k] * (x[j] - model.means[k]) / model.scales[k], 0);
+
+const cumulativeHazardAt = (model: CoxModel, days: number): number => {
+  let hazard = 0;
+  for (const point of model.baselineHazard) {
+    if (point.time > days) break;
+    hazard = point.cumulativeHazard;
+  }
+  return hazard;
+};
+
+// P(next line within `months` of the index date) = 1 - S(t | x)
+export const transitionProbability = (model: CoxModel, x: number[], months: number): number =>
+  1 - Math.exp(-cumulativeHazardAt(model, months * DAYS_PER_MONTH) * Math.exp(linearPredictor(model, x)));
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+// Hazard ratios per unit of each feature on its original scale, with Wald 95% intervals
+export const hazardRatioTable = (model: CoxModel): HazardRatio[] =>
+  model.columns
+    .map((j, k) => {
+      const beta = model.beta[k] / model.scales[k];
+      const se = model.standardErrors[k] / model.scales[k];
+      const z = se > 0 ? beta / se : 0;
+      return {
+        feature: model.features[j].name,
+        label: model.features[j].label,
+        hazardRatio: Math.exp(beta),
+        lower: Math.exp(beta - 1.96 * se),
+        upper: Math.exp(beta + 1.96 * se),
+        pValue: 2 * (1 - normalCdf(Math.abs(z))),
+      };
+    })
+    .sort((a, b) => a.pValue - b.pValue);
+
+// Harrell's C: share of comparable pairs where the patient who transitioned first had the higher risk
+export const concordanceIndex = (risks: number[], observations: SurvivalObservation[]): number => {
+  let concordant = 0, comparable = 0;
+  observations.forEach((a, i) => {
+    if (!a.event) return;
+    observations.forEach((b, j) => {
+      if (i === j || b.time <= a.time) return;
+      comparable++;
+      concordant += risks[i] > risks[j] ? 1 : risks[i] === risks[j] ? 0.5 : 0;
+    });
+  });
+  return comparable > 0 ? concordant / comparable : 0.5;
+};
@@ -0,0 +1,48 @@
+import { HcpTier, PatientProfile } from "../types";
+import { HcpSummary } from "./hcpTargeting";
+
+// One published row per target patient. Model-specific columns are filled when the run produced them.
+export interface TargetExportRow {
+  patientId: string;
+  npiId: string;
+  doctorName: string;
+  npiSpecialty: string;
+  riskScore: number;
+  riskCategory?: string;
+  predictedNextTherapy?: string;
+  nextTherapyProbability?: number;
+}
+
+export const toTargetExportRow = (patient: PatientProfile): TargetExportRow => ({
+  patientId: patient.id,
+  npiId: patient.npiId,
+  doctorName: patient.doctorName,
+  npiSpecialty: patient.npiSpecialty,
+  riskScore: patient.riskScore ?? 0,
+  riskCategory: patient.riskCategory,
+  predictedNextTherapy: patient.predictedNextTherapy,
+  nextTherapyProbability: patient.nextTherapyProbabilities?.find(t => t.therapy === patient.predictedNextTherapy)?.probability,
+});
+
+// One published row per prescriber for HCP-level target lists
+export interface HcpExportRow {
+  npiId: string;
+  doctorName: string;
+  npiSpecialty: string;
+  tier: HcpTier;
+  rank: number;
+  patientCount: number;
+  highRiskCount: number;
+  expectedTransitions: number;
+}
+
+export const toHcpExportRow = (hcp: HcpSummary): HcpExportRow => ({
+  npiId: hcp.npiId,
+  doctorName: hcp.doctorName,
+  npiSpecialty: hcp.npiSpecialty,
+  tier: hcp.tier,
+  rank: hcp.rank,
+  patientCount: hcp.patientCount,
+  highRiskCount: hcp.highRiskCount,
+  expectedTransitions: hcp.expectedTransitions,
+});
@@ -1,6 +1,8 @@
+export type RiskCategory = 'High' | 'Medium' | 'Low';
+
 export interface PatientProfile {
   id: string;
-  age: number;
+  age?: number; // Only known when the claims file carries age / birth year
   gender: string;
   diagnosisCode: string; // ICD-10
   currentTherapyLine: number; // 1, 2, 3
@@ -10,10 +12,97 @@ export interface PatientProfile {
   drugId: string;
   doctorName: string;
   npiId: string;
-  riskScore?: number; // 0-1 (Predicted)
-  riskCategory?: 'High' | 'Medium' | 'Low';
+  riskScore?: number; // 0-1 (Predicted, calibrated when calibration is on)
+  rawRiskScore?: number; // Model output before calibration
+  riskCategory?: RiskCategory;
   split?: 'TRAIN' | 'TEST';
-  actualOutcome?: boolean; // Simulated Ground Truth for Validation
+  fold?: number; // GROUPED_KFOLD: the fold this patient was held out (and scored) in
+  calibrationHoldout?: boolean; // TRAIN patient held out to fit the calibrator
+  actualOutcome?: boolean; // Observed transition within the prediction window (from outcomeLabel)
+  outcomeLabel?: TransitionLabel; // Ground truth and the claim evidence behind it
+  explanation?: PatientExplanation; // Why the model scored this patient as it did
+  transitionForecast?: TransitionForecast[]; // SURVIVAL: probability of the next line by each horizon
+  nextTherapyProbabilities?: TherapyProbability[]; // NEXT_THERAPY: distribution over next-line classes, most likely first
+  predictedNextTherapy?: string; // NEXT_THERAPY: most likely next regimen (never "No transition")
+  history: PatientHistory; // Longitudinal claims record the profile is derived from
+  therapyLines: TherapyLine[]; // Derived by the line-of-therapy engine
+}
+
+// Claims Ingestion Types
+export type ClaimType = 'DX' | 'RX' | 'PX';
+
+// One parsed CSV row. A row can carry a diagnosis, a drug and a procedure at once.
+export interface ClaimRecord {
+  claimId: string;
+  patientId: string;
+  serviceDate: string; // ISO yyyy-mm-dd
+  diagnosisCode?: string;
+  drugCode?: string;
+  procedureCode?: string;
+  age?: number;
+  birthYear?: number;
+  gender?: string;
+  npiId?: string;
+  doctorName?: string;
+  npiSpecialty?: string;
+}
+
+export interface ClaimEvent {
+  claimId: string;
+  date: string; // ISO yyyy-mm-dd
+  type: ClaimType;
+  code: string;
+  npiId?: string;
+  doctorName?: string;
+  npiSpecialty?: string;
+}
+
+export interface PatientHistory {
+  patientId: string;
+  events: ClaimEvent[]; // Ordered by service date
+  claimCount: number; // Distinct source claims (rows)
+  firstServiceDate: string;
+  lastServiceDate: string;
+  age?: number;
+  gender?: string;
+}
+
+// Line of Therapy Types
+export interface LineOfTherapyRules {
+  regimenWindowDays: number; // Agents first claimed within N days of the line start form one regimen
+  discontinuationGapDays: number; // No regimen claim for more than N days ends the line
+  restartAfterGapAdvancesLine: boolean; // Re-starting the same regimen after a gap counts as a new line
+  addOnDoesNotAdvance: boolean; // A new agent added while the current regimen continues joins the current line
+  addOnOnlyAgents: string[]; // Agents that never advance the line (e.g. bone-modifying agents)
+  therapyProcedureCodes: string[]; // Px codes counted as drug administration, wildcards allowed
+}
+
+export interface TherapyLine {
+  lineNumber: number;
+  regimen: string[];
+  startDate: string;
+  lastClaimDate: string;
+  endDate?: string; // Undefined while the line is ongoing at the end of data
+  endReason: 'SWITCH' | 'DISCONTINUED' | 'ONGOING';
+  claimIds: string[];
+}
+
+// Ground truth for "transition to next line within the prediction window", anchored on the
+// start of the source line (index date)
+export interface TransitionLabel {
+  fromLine: number;
+  toLine: number;
+  indexDate: string;
+  indexRegimen: string[];
+  windowEndDate: string;
+  outcome: boolean;
+  censored: boolean; // Follow-up ends before the window closes and no transition was seen
+  triggerClaimId?: string; // First claim of the next line, when it starts inside the window
+  triggerCode?: string;
+  triggerDate?: string;
+  triggerRegimen?: string[];
+  timeToEventDays: number; // Index date to the next line, or to the last claim when censored (any horizon)
+  eventObserved: boolean; // A next line was seen at all, inside or after the prediction window
 }
 
 export interface OntologyMapping {
@@ -24,23 +113,181 @@ export interface OntologyMapping {
   targetLineTransition: string; // e.g., "1L to 2L"
 }
 
-export type ModelType = 'GENAI_REASONING' | 'XGBOOST';
+export type ModelType = 'GENAI_REASONING' | 'XGBOOST' | 'SURVIVAL' | 'NEXT_THERAPY';
 export type ImbalanceStrategy = 'NONE' | 'CLASS_WEIGHTS' | 'SMOTE';
 
+// Hyperparameters of the in-browser gradient boosted trees behind the XGBOOST model type
+export interface GradientBoostingParams {
+  nEstimators: number;
+  maxDepth: number;
+  learningRate: number;
+  minChildWeight: number; // Minimum hessian sum per leaf
+  subsample: number; // Row fraction per tree
+  colsampleByTree: number; // Feature fraction per tree
+  lambda: number; // L2 regularisation on leaf weights
+  seed: number;
+}
+
+// Synthetic minority over-sampling, applied to the training split only
+export interface SmoteParams {
+  variant: 'SMOTE' | 'BORDERLINE';
+  kNeighbors: number;
+  targetRatio: number; // Minority / majority ratio after resampling, 0 to 1
+}
+
+// Post-hoc probability calibration fitted on a held-out slice of the training split
+export type CalibrationMethod = 'NONE' | 'PLATT' | 'ISOTONIC';
+
+export interface CalibrationConfig {
+  method: CalibrationMethod;
+  holdoutFraction: number; // Share of TRAIN patients held out to fit the calibrator
+}
+
+// How patients are divided into TRAIN and TEST. Every strategy is seeded so reruns give the same split.
+export type SplitStrategy = 'RANDOM' | 'STRATIFIED' | 'OUT_OF_TIME' | 'GROUPED_KFOLD';
+
+export interface SplitConfig {
+  strategy: SplitStrategy;
+  seed: number;
+  folds: number; // GROUPED_KFOLD only
+}
+
 export interface CohortConfig {
   lookbackMonths: number;
   predictionWindowMonths: number;
   minClaimsCount: number;
   modelType: ModelType;
   imbalanceStrategy: ImbalanceStrategy;
-  trainTestSplit: number; // 0.1 to 0.5
+  trainTestSplit: number; // 0.1 to 0.5, test share for the hold-out strategies
+  split: SplitConfig;
+  boostingParams: GradientBoostingParams;
+  smoteParams: SmoteParams;
+  calibration: CalibrationConfig;
+}
+
+// Engineered model inputs. Every value is computed as of the patient's index date.
+export type FeatureType = 'NUMERIC' | 'BINARY';
+export type FeatureSource = 'DEMOGRAPHICS' | 'DIAGNOSIS' | 'PROCEDURE' | 'PRESCRIPTION' | 'THERAPY_LINE' | 'PRESCRIBER';
+
+export interface FeatureDefinition {
+  name: string; // Column key, e.g. "lookback_rx_count"
+  label: string; // Human readable, e.g. "Rx claims in lookback"
+  type: FeatureType;
+  source: FeatureSource;
+}
+
+export interface FeatureMatrix {
+  features: FeatureDefinition[];
+  patientIds: string[];
+  rows: number[][]; // rows[i][j] = value of features[j] for patientIds[i]
+}
+
+// Explanations. Tree models attribute the log-odds margin to features (SHAP-style, additive);
+// GENAI_REASONING returns a rationale plus the factors it weighed, as signed weights.
+export type ExplanationMethod = 'TREE_CONTRIBUTIONS' | 'LLM_RATIONALE' | 'COX_LOG_HAZARD';
+
+export interface FeatureContribution {
+  feature: string; // FeatureDefinition.name
+  label: string;
+  value?: number; // The patient's feature value, when the feature is in the matrix
+  contribution: number; // > 0 pushes towards transition, < 0 away from it
+}
+
+export interface PatientExplanation {
+  method: ExplanationMethod;
+  baseValue?: number; // Tree models: expected margin before any feature is known
+  contributions: FeatureContribution[]; // Largest |contribution| first
+  rationale?: string;
+  target?: string; // Multi-class models: the class whose score is explained
+}
+
+export interface FeatureImportance {
+  feature: string;
+  label: string;
+  importance: number; // Mean |contribution| across scored patients
+}
+
+// Time-to-transition (SURVIVAL model type): Cox proportional hazards on the engineered features
+export interface TransitionForecast {
+  horizonMonths: number;
+  probability: number; // P(next line starts within horizonMonths of the index date)
+}
+
+export interface HazardRatio {
+  feature: string;
+  label: string;
+  hazardRatio: number; // Per unit of the feature (0 -> 1 for binary features)
+  lower: number; // 95% confidence interval
+  upper: number;
+  pValue: number;
+}
+
+export interface SurvivalSummary {
+  hazardRatios: HazardRatio[]; // Most significant first
+  concordance: number; // Harrell's C-index on the TEST split
+  events: number; // Transitions seen in the training split
+  horizonsMonths: number[];
+}
+
+// Next-line therapy (NEXT_THERAPY model type): one class per next-line regimen plus "No transition"
+export interface TherapyProbability {
+  therapy: string; // Regimen, e.g. "Fulvestrant + Palbociclib"
+  probability: number;
+}
+
+// What actually ran, shown next to the results
+export interface ModelRunSummary {
+  modelType: ModelType;
+  engine: string;
+  trainCount: number;
+  testCount: number;
+  featureCount?: number;
+  scalePosWeight?: number;
+  syntheticCount?: number; // Synthetic minority rows added to the training split by SMOTE
+  calibration?: { method: CalibrationMethod; holdoutCount: number; fitted: boolean };
+  featureImportance?: FeatureImportance[]; // Global importance, most important first
+  survival?: SurvivalSummary;
+  therapyClasses?: string[]; // NEXT_THERAPY: classes the model predicts over
+  splitStrategy: SplitStrategy;
+  folds?: number; // GROUPED_KFOLD: every patient is scored by the model that did not train on them
+}
+
+// Progress of chunked LLM scoring, reported after each chunk completes
+export interface ScoringProgress {
+  completedChunks: number;
+  totalChunks: number;
+  scoredPatients: number;
+  totalPatients: number;
+}
+
+// Cohort Building Types
+export type CohortRuleId = 'DIAGNOSIS_MATCH' | 'DRUG_EXPOSURE' | 'ELIGIBLE_LINE' | 'LOOKBACK_CONTINUITY' | 'MIN_CLAIMS';
+
+export interface CohortExclusion {
+  patientId: string;
+  rule: CohortRuleId;
+  reason: string; // Human readable, e.g. "1 qualifying claim in lookback (min 2)"
+}
+
+export interface CohortStep {
+  rule: CohortRuleId;
+  label: string;
+  remaining: number; // Patients still in the cohort after this rule
+  excluded: number;
+}
+
+export interface CohortResult {
+  initialCount: number;
+  included: PatientProfile[];
+  excluded: CohortExclusion[];
+  steps: CohortStep[];
 }
 
 export interface AnalysisStats {
   totalPatients: number;
   highRiskCount: number;
   avgTransitionProbability: number;
-  topFactors: string[];
+  topFactors: string[]; // Labels of the most important features, see explainability
 }
 
 export enum AppStep {
@@ -60,6 +307,11 @@ export interface ColumnKeywords {
   prescription: string[]; // Rx
   procedure: string[]; // CPT/Px
   date: string[];
+  age: string[]; // Age or birth year / DOB
+  gender: string[];
+  npi: string[];
+  prescriber: string[]; // Doctor / provider name
+  specialty: string[];
 }
 
 export interface DiseasePreset {
@@ -69,12 +321,121 @@ export interface DiseasePreset {
   defaultMinClaims: number;
 }
 
+// Which backend answers the LLM calls (intent parsing, GenAI scoring, results Q&A)
+export type InferenceProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'MOCK';
+
+export interface InferenceConfig {
+  provider: InferenceProviderId;
+  geminiModel: string; // API key comes from GEMINI_API_KEY in .env.local
+  openAiBaseUrl: string; // e.g. http://localhost:11434/v1 for a locally hosted model
+  openAiModel: string;
+  openAiApiKey: string; // Optional, most local servers ignore it
+}
+
 export interface GlobalConfig {
   columnKeywords: ColumnKeywords;
   diseasePresets: DiseasePreset[];
+  lineOfTherapyRules: LineOfTherapyRules;
+  inference: InferenceConfig;
+}
+
+// AI analyst: answers come from local tools the model calls, so every number can be traced
+export interface AnalystToolExecution {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown; // Undefined when the tool failed
+  rowIds: string[]; // Patients behind the result, opened in the results grid by "show data"
+  error?: string;
+}
+
+// Small chart the analyst can attach to an answer, built from numbers its tools returned
+export type AnalystChartType = 'bar' | 'line' | 'pie';
+
+export interface AnalystChartSpec {
+  type: AnalystChartType;
+  title: string;
+  xLabel?: string;
+  yLabel?: string;
+  data: { label: string; value: number }[];
+}
+
+export interface AnalystAnswer {
+  answer: string; // Markdown
+  toolCalls: AnalystToolExecution[];
+  chart?: AnalystChartSpec;
+}
+
+// One turn of the analyst conversation, kept per experiment
+export interface AnalystChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string; // Markdown for assistant turns
+  timestamp: string;
+  toolCalls?: AnalystToolExecution[];
+  chart?: AnalystChartSpec;
 }
 
 // Study & Experiment Types
+// Hyperparameter search for the XGBOOST model type; every trial is scored with grouped k-fold CV
+export type SearchMethod = 'GRID' | 'RANDOM';
+export type TuningMetric = 'ROC_AUC' | 'RECALL_AT_PRECISION';
+
+export interface SearchSpace {
+  maxDepth: number[];
+  learningRate: number[];
+  nEstimators: number[];
+  imbalanceStrategy: ImbalanceStrategy[]; // Class weighting: NONE or CLASS_WEIGHTS
+}
+
+export interface HyperparameterSearchConfig {
+  method: SearchMethod;
+  space: SearchSpace;
+  maxTrials: number; // RANDOM samples this many combinations; GRID stops after this many
+  folds: number;
+  metric: TuningMetric;
+  targetPrecision: number; // For RECALL_AT_PRECISION
+}
+
+export interface TuningTrial {
+  id: number;
+  boostingParams: GradientBoostingParams;
+  imbalanceStrategy: ImbalanceStrategy;
+  score: number; // Chosen metric, mean across folds
+  scoreStd: number;
+  rocAuc: number;
+  recallAtPrecision: number;
+  metrics: ExperimentMetrics; // Mean across folds at the default threshold
+  patientCount: number;
+  durationMs: number;
+}
+
+export type ValidationMetricKey = 'accuracy' | 'precision' | 'recall' | 'f1' | 'rocAuc' | 'prAuc' | 'highRiskCount';
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface BootstrapConfig {
+  resamples: number;
+  seed: number;
+  confidenceLevel: number; // e.g. 0.95
+}
+
+export interface ExperimentMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  rocAuc: number;
+  prAuc: number;
+  highRiskCount: number; // Target list size at the threshold
+  // Percentile bootstrap intervals, when the metrics come from a TEST split
+  intervals?: Partial<Record<ValidationMetricKey, ConfidenceInterval>>;
+  bootstrap?: BootstrapConfig;
+}
+
 export interface Experiment {
   id: string;
   name: string;
@@ -85,13 +446,10 @@ export interface Experiment {
   // Snapshot of data/config
   ontology: OntologyMapping;
   config: CohortConfig;
-  metrics?: {
-    accuracy: number;
-    precision: number;
-    recall: number;
-    highRiskCount: number;
-  };
+  threshold: number; // Decision threshold chosen on the Model Validation tab, used when publishing
+  metrics?: ExperimentMetrics;
   patientCount: number;
+  conversation?: AnalystChatMessage[]; // AI analyst chat about this run
 }
 
 export interface Study {
@@ -103,10 +461,25 @@ export interface Study {
   createdAt: string;
 }
 
+// HCP targeting: scored patients rolled up to their prescriber (NPI) and tiered by decile
+export type HcpTier = 'A' | 'B' | 'C';
+export type HcpRankMetric = 'EXPECTED_TRANSITIONS' | 'HIGH_RISK_COUNT' | 'PATIENT_COUNT';
+
+export interface HcpTieringConfig {
+  rankBy: HcpRankMetric;
+  tierADeciles: number; // Deciles 1..tierADeciles are tier A
+  tierBDeciles: number; // Up to this decile is tier B; the rest are tier C
+}
+
 export type PublishDestination = 'S3' | 'GCS' | 'SHAREPOINT';
+export type PublishLevel = 'PATIENT' | 'HCP';
 
 export interface PublishConfig {
   destination: PublishDestination;
   path: string; // bucket name or site url
   format: 'CSV' | 'JSON' | 'PARQUET';
+  threshold: number; // Patients scoring at or above this are published (and count as high risk per HCP)
+  level: PublishLevel;
+  hcpTiers?: HcpTier[]; // HCP level: tiers to publish
+  hcpTiering?: HcpTieringConfig; // HCP level: how tiers were assigned
 }
\ No newline at end of file